@@ -0,0 +1,14 @@
+import ShiftPlanner from "../../../components/admin/ShiftPlanner"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Dienstplan</h1>
+        <ShiftPlanner />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,14 @@
+import EventsAdmin from "../../../components/admin/EventsAdmin"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Events</h1>
+        <EventsAdmin />
+      </div>
+    </div>
+  )
+}
+
+export default page
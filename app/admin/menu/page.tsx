@@ -0,0 +1,24 @@
+import MenuAdmin from "../../../components/admin/MenuAdmin"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Getränkekarte bearbeiten</h1>
+        <p className="text-white">
+          Karte drucken:{" "}
+          <a href="/menu.pdf" target="_blank" className="text-amber-500 underline">
+            A4
+          </a>{" "}
+          ·{" "}
+          <a href="/menu.pdf?layout=tent" target="_blank" className="text-amber-500 underline">
+            Tischaufsteller
+          </a>
+        </p>
+        <MenuAdmin />
+      </div>
+    </div>
+  )
+}
+
+export default page
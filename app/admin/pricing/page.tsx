@@ -0,0 +1,14 @@
+import PricingAdmin from "../../../components/admin/PricingAdmin"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Happy Hour</h1>
+        <PricingAdmin />
+      </div>
+    </div>
+  )
+}
+
+export default page
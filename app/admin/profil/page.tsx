@@ -0,0 +1,14 @@
+import OwnProfile from "../../../components/admin/OwnProfile"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Mein Profil</h1>
+        <OwnProfile />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,14 @@
+import PublicEventsAdmin from "../../../components/admin/PublicEventsAdmin"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Programm</h1>
+        <PublicEventsAdmin />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,14 @@
+import ReservationsAdmin from "../../../components/admin/ReservationsAdmin"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-4xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Reservierungen</h1>
+        <ReservationsAdmin />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,14 @@
+import ServiceBoard from "../../../components/admin/ServiceBoard"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-6xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Tische live</h1>
+        <ServiceBoard />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,15 @@
+import TableQrSheet from "../../../components/admin/TableQrSheet"
+import { tables } from "../../../lib/reservations"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12 print:min-h-0 print:bg-none print:bg-white print:p-0">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold print:hidden">QR-Codes für die Tische</h1>
+        <TableQrSheet tables={tables} />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,14 @@
+import TeamAdmin from "../../../components/admin/TeamAdmin"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Crew</h1>
+        <TeamAdmin />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,14 @@
+import UsersAdmin from "../../../components/admin/UsersAdmin"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-3xl space-y-8">
+        <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">Crew verwalten</h1>
+        <UsersAdmin />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../../lib/api"
+import { requireRole } from "../../../../../../lib/auth"
+import { unassignShift } from "../../../../../../lib/shift-store"
+
+interface Context {
+  params: { id: string }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("captain")
+    await unassignShift(params.id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, "Failed to remove shift assignment")
+  }
+}
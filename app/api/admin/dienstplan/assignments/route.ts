@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { assignShift } from "../../../../../lib/shift-store"
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("captain")
+    const assignment = await assignShift(await request.json())
+    return NextResponse.json(assignment, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to assign shift")
+  }
+}
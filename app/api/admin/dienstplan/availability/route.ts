@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { setAvailability } from "../../../../../lib/shift-store"
+
+// PUT /api/admin/dienstplan/availability: the signed-in crew member's answer
+// for one day.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requireRole("staff")
+    return NextResponse.json(await setAvailability(session.user.id, await request.json()))
+  } catch (error) {
+    return errorResponse(error, "Failed to save availability")
+  }
+}
@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { calendarToken } from "../../../../../lib/shift-store"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/admin/dienstplan/calendar: the address of the signed-in crew
+// member's personal duty roster feed.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireRole("staff")
+    const token = await calendarToken(session.user.id)
+    return NextResponse.json({ url: `${request.nextUrl.origin}/api/dienstplan/${token}` })
+  } catch (error) {
+    return errorResponse(error, "Failed to load calendar link")
+  }
+}
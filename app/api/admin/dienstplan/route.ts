@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { getWeekPlan } from "../../../../lib/shift-store"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/admin/dienstplan[?from=YYYY-MM-DD]: the week containing `from`.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireRole("readonly")
+    const from = request.nextUrl.searchParams.get("from") ?? undefined
+    return NextResponse.json(await getWeekPlan({ id: session.user.id, role: session.user.role }, from))
+  } catch (error) {
+    return errorResponse(error, "Failed to load duty roster")
+  }
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../../lib/api"
+import { requireRole } from "../../../../../../lib/auth"
+import { decideSwap } from "../../../../../../lib/shift-store"
+
+interface Context {
+  params: { id: string }
+}
+
+// PATCH { status }: "approved" or "declined" by the captain, "withdrawn" by
+// the crew member who asked.
+export async function PATCH(request: NextRequest, { params }: Context) {
+  try {
+    const session = await requireRole("staff")
+    const { status } = await request.json()
+    return NextResponse.json(await decideSwap(params.id, status, session.user))
+  } catch (error) {
+    return errorResponse(error, "Failed to update shift swap")
+  }
+}
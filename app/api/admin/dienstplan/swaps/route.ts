@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { requestSwap } from "../../../../../lib/shift-store"
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireRole("staff")
+    const swap = await requestSwap(session.user.id, await request.json())
+    return NextResponse.json(swap, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to request shift swap")
+  }
+}
@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { setEventStatus } from "../../../../../lib/event-store"
+
+interface Context {
+  params: { id: string }
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("staff")
+    const { status } = await request.json()
+    return NextResponse.json(await setEventStatus(params.id, status))
+  } catch (error) {
+    return errorResponse(error, "Failed to update event inquiry")
+  }
+}
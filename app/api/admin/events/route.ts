@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { listEventInquiries } from "../../../../lib/event-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await listEventInquiries())
+  } catch (error) {
+    return errorResponse(error, "Failed to load event inquiries")
+  }
+}
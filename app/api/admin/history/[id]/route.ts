@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { deleteMilestone, updateMilestone } from "../../../../../lib/history-store"
+
+interface Context {
+  params: { id: string }
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("staff")
+    return NextResponse.json(await updateMilestone(params.id, await request.json()))
+  } catch (error) {
+    return errorResponse(error, "Failed to update milestone")
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("staff")
+    await deleteMilestone(params.id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete milestone")
+  }
+}
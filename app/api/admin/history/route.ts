@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { createMilestone, listMilestones } from "../../../../lib/history-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await listMilestones())
+  } catch (error) {
+    return errorResponse(error, "Failed to load milestones")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("staff")
+    const milestone = await createMilestone(await request.json())
+    return NextResponse.json(milestone, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create milestone")
+  }
+}
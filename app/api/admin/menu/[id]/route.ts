@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { deleteMenuItem, updateMenuItem } from "../../../../../lib/menu-store"
+
+interface Context {
+  params: { id: string }
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("staff")
+    return NextResponse.json(await updateMenuItem(params.id, await request.json()))
+  } catch (error) {
+    return errorResponse(error, "Failed to update menu item")
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("staff")
+    await deleteMenuItem(params.id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete menu item")
+  }
+}
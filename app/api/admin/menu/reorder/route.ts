@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { reorderMenuItems } from "../../../../../lib/menu-store"
+
+export async function PUT(request: NextRequest) {
+  try {
+    await requireRole("staff")
+    const { categoryId, ids } = await request.json()
+    await reorderMenuItems(categoryId, ids)
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to reorder menu items")
+  }
+}
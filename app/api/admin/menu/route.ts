@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { createMenuItem, getStoredMenu } from "../../../../lib/menu-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await getStoredMenu())
+  } catch (error) {
+    return errorResponse(error, "Failed to load menu")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("staff")
+    const { categoryId, item } = await request.json()
+    return NextResponse.json(await createMenuItem(categoryId, item), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create menu item")
+  }
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { createPricingRule, listPricingRules } from "../../../../lib/pricing-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await listPricingRules())
+  } catch (error) {
+    return errorResponse(error, "Failed to load pricing rules")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("staff")
+    const rule = await createPricingRule(await request.json())
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create pricing rule")
+  }
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { createPublicEvent, listPublicEvents } from "../../../../lib/public-event-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await listPublicEvents())
+  } catch (error) {
+    return errorResponse(error, "Failed to load public events")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("staff")
+    const event = await createPublicEvent(await request.json())
+    return NextResponse.json(event, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create public event")
+  }
+}
@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { listReservations } from "../../../../lib/reservation-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await listReservations(request.nextUrl.searchParams.get("from") ?? undefined))
+  } catch (error) {
+    return errorResponse(error, "Failed to load reservations")
+  }
+}
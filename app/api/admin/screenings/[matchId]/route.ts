@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { deleteScreening } from "../../../../../lib/screening-store"
+
+interface Context {
+  params: { matchId: string }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("staff")
+    await deleteScreening(Number(params.matchId))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete screening")
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { DEFAULT_COMPETITION } from "../../../../lib/bundesliga"
+import { listScreenings, saveScreening } from "../../../../lib/screening-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await listScreenings())
+  } catch (error) {
+    return errorResponse(error, "Failed to load screenings")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("staff")
+    const { league, matchId, reservationNeeded, offer } = await request.json()
+    const screening = await saveScreening(league ?? DEFAULT_COMPETITION, Number(matchId), { reservationNeeded, offer })
+    return NextResponse.json(screening, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to save screening")
+  }
+}
@@ -0,0 +1,65 @@
+import { type NextRequest } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { subscribeServiceRequests } from "../../../../../lib/service-events"
+
+export const dynamic = "force-dynamic"
+
+// Proxies close connections that stay silent for too long.
+const HEARTBEAT_MS = 25_000
+
+// Server-sent events for the staff board: every new or changed table
+// request as one `data:` line of JSON.
+export async function GET(request: NextRequest) {
+  try {
+    await requireRole("readonly")
+  } catch (error) {
+    return errorResponse(error, "Failed to open table request stream")
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+  let unsubscribe = () => {}
+
+  // Runs once, whether the board's request is aborted or the stream is
+  // cancelled by the runtime first.
+  const stop = () => {
+    if (closed) return false
+    closed = true
+    clearInterval(heartbeat)
+    unsubscribe()
+    return true
+  }
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          stop()
+        }
+      }
+      unsubscribe = subscribeServiceRequests((serviceRequest) => send(`data: ${JSON.stringify(serviceRequest)}\n\n`))
+      heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS)
+      send("retry: 3000\n\n")
+
+      request.signal.addEventListener("abort", () => {
+        if (stop()) controller.close()
+      })
+    },
+    cancel() {
+      stop()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { deleteCrewProfile, updateCrewProfile } from "../../../../../lib/team-store"
+
+interface Context {
+  params: { id: string }
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("captain")
+    return NextResponse.json(await updateCrewProfile(params.id, await request.json()))
+  } catch (error) {
+    return errorResponse(error, "Failed to update crew profile")
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("captain")
+    await deleteCrewProfile(params.id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete crew profile")
+  }
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { createCrewProfile, listCrew } from "../../../../lib/team-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("readonly")
+    return NextResponse.json(await listCrew())
+  } catch (error) {
+    return errorResponse(error, "Failed to load crew")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("captain")
+    const profile = await createCrewProfile(await request.json())
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create crew profile")
+  }
+}
@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { requireRole } from "../../../../../lib/auth"
+import { updateUserRole } from "../../../../../lib/users"
+
+interface Context {
+  params: { id: string }
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  try {
+    await requireRole("captain")
+    const { role } = await request.json()
+    return NextResponse.json(await updateUserRole(params.id, role))
+  } catch (error) {
+    return errorResponse(error, "Failed to update crew account")
+  }
+}
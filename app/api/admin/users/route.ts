@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { createUser, listUsers } from "../../../../lib/users"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    await requireRole("captain")
+    return NextResponse.json(await listUsers())
+  } catch (error) {
+    return errorResponse(error, "Failed to load crew accounts")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("captain")
+    const { name, email, password, role } = await request.json()
+    return NextResponse.json(await createUser({ name, email, password, role }), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create crew account")
+  }
+}
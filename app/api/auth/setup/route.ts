@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse, InputError } from "../../../../lib/api"
+import { countCrew, createUser } from "../../../../lib/users"
+
+export const dynamic = "force-dynamic"
+
+// First start: as long as no crew account exists, the login page offers to
+// create the captain. Fan accounts from the Tipprunde sign-up do not count. Afterwards new crew is added in /admin/users.
+export async function GET() {
+  try {
+    return NextResponse.json({ needed: (await countCrew()) === 0 })
+  } catch (error) {
+    return errorResponse(error, "Failed to check account setup")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if ((await countCrew()) > 0) throw new InputError("Die Einrichtung ist bereits abgeschlossen", 409)
+    const { name, email, password } = await request.json()
+    return NextResponse.json(await createUser({ name, email, password, role: "captain" }), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create captain account")
+  }
+}
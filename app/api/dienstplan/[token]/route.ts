@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { shiftCalendarFor } from "../../../../lib/shift-store"
+
+export const dynamic = "force-dynamic"
+
+interface Context {
+  params: { token: string }
+}
+
+// GET /api/dienstplan/<token>: a crew member's shifts as an .ics feed.
+// Calendar apps cannot sign in, so the secret token is the only guard.
+export async function GET(_request: NextRequest, { params }: Context) {
+  try {
+    return new NextResponse(await shiftCalendarFor(params.token), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="dienstplan.ics"',
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to build duty roster calendar")
+  }
+}
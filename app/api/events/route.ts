@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../lib/api"
+import { createEventInquiry } from "../../../lib/event-store"
+
+export async function POST(request: NextRequest) {
+  try {
+    const { date, guests, occasion, catering, budgetCents, name, email, phone, message } = await request.json()
+    const inquiry = await createEventInquiry({
+      date,
+      guests: Number(guests),
+      occasion,
+      catering,
+      ...(budgetCents != null ? { budgetCents: Number(budgetCents) } : {}),
+      name,
+      email,
+      phone,
+      message,
+    })
+    return NextResponse.json({ id: inquiry.id, status: inquiry.status }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create event inquiry")
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server"
+import { getStory } from "../../../lib/history-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  return NextResponse.json(await getStory())
+}
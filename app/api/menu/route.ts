@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server"
+import { PRICE_CHANGE_HEADER } from "../../../lib/pricing"
+import { getGuestPrices } from "../../../lib/pricing-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const { catalogue, changesAt } = await getGuestPrices()
+  return NextResponse.json(catalogue, changesAt ? { headers: { [PRICE_CHANGE_HEADER]: changesAt.toISOString() } } : undefined)
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { openingExceptions } from "../../../data/opening-hours"
+import { addDays, barClock } from "../../../lib/dates"
+import { describeOpeningStatus, describeWeeklyHours, openingStatus } from "../../../lib/opening-hours"
+import { eventClosures } from "../../../lib/event-store"
+
+export const dynamic = "force-dynamic"
+
+// Days of confirmed private events looked up for the status.
+const EVENT_LOOKAHEAD_DAYS = 14
+
+export async function GET() {
+  let exceptions = openingExceptions
+  try {
+    const today = barClock().date
+    exceptions = [...openingExceptions, ...(await eventClosures(addDays(today, -1), addDays(today, EVENT_LOOKAHEAD_DAYS)))]
+  } catch (error) {
+    // The regular hours are still right when the database is unreachable.
+    console.error("Error loading private events, using static opening hours:", error)
+  }
+
+  const status = openingStatus(new Date(), undefined, exceptions)
+  return NextResponse.json({
+    status,
+    text: describeOpeningStatus(status),
+    weekly: describeWeeklyHours(),
+    exceptions,
+  })
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { barClock } from "../../../../../lib/dates"
+import { getPublicEvent } from "../../../../../lib/public-event-store"
+import { publicEventsCalendar, upcomingOccurrences } from "../../../../../lib/public-events"
+
+export const dynamic = "force-dynamic"
+
+interface Context {
+  params: { slug: string }
+}
+
+// GET /api/public-events/<slug>/calendar: one event, every upcoming date of a
+// series, as an .ics download.
+export async function GET(_request: NextRequest, { params }: Context) {
+  try {
+    const event = await getPublicEvent(params.slug)
+    return new NextResponse(publicEventsCalendar(upcomingOccurrences([event], barClock().date)), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${event.slug}.ics"`,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to build event calendar")
+  }
+}
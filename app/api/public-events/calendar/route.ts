@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { getUpcomingEvents } from "../../../../lib/public-event-store"
+import { publicEventsCalendar } from "../../../../lib/public-events"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/public-events/calendar: all upcoming events as an .ics feed.
+export async function GET() {
+  try {
+    return new NextResponse(publicEventsCalendar(await getUpcomingEvents()), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="rettungsanker-events.ics"',
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to build event calendar")
+  }
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse, InputError } from "../../../lib/api"
+import { EVENT_HORIZON_DAYS } from "../../../lib/public-events"
+import { getUpcomingEvents } from "../../../lib/public-event-store"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/public-events[?days=30]: the dates of published events from today
+// on, recurring events once per date. `days` is capped at the horizon the
+// calendar feed uses, so nobody can have years of weekly dates built.
+export async function GET(request: NextRequest) {
+  try {
+    const param = request.nextUrl.searchParams.get("days")
+    const days = param === null ? EVENT_HORIZON_DAYS : Number(param)
+    if (!Number.isInteger(days) || days < 1) throw new InputError("Ungültige Anzahl Tage")
+    return NextResponse.json(await getUpcomingEvents(Math.min(days, EVENT_HORIZON_DAYS)))
+  } catch (error) {
+    return errorResponse(error, "Failed to load events")
+  }
+}
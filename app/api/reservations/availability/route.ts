@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { getAvailability } from "../../../../lib/reservation-store"
+
+export const dynamic = "force-dynamic"
+
+// GET ?from=2026-10-01&to=2026-10-31&partySize=4
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const days = await getAvailability(
+      searchParams.get("from") ?? "",
+      searchParams.get("to") ?? "",
+      Number(searchParams.get("partySize") ?? 2),
+    )
+    return NextResponse.json({ days })
+  } catch (error) {
+    return errorResponse(error, "Failed to load availability")
+  }
+}
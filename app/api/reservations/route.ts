@@ -0,0 +1,13 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../lib/api"
+import { createReservation } from "../../../lib/reservation-store"
+
+export async function POST(request: NextRequest) {
+  try {
+    const { date, time, partySize, name, email, phone, note } = await request.json()
+    const reservation = await createReservation({ date, time, partySize: Number(partySize), name, email, phone, note })
+    return NextResponse.json({ id: reservation.id, status: reservation.status }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create reservation")
+  }
+}
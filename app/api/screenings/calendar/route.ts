@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { getScreening, listScreenings } from "../../../../lib/screening-store"
+import { screeningsCalendar } from "../../../../lib/screenings"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/screenings/calendar[?match=123]: one screening or all upcoming
+// ones as an .ics download.
+export async function GET(request: NextRequest) {
+  try {
+    const match = request.nextUrl.searchParams.get("match")
+    const screenings = match ? [await getScreening(Number(match))] : await listScreenings()
+    const filename = match ? `rettungsanker-spiel-${match}.ics` : "rettungsanker-sportarena.ics"
+
+    return new NextResponse(screeningsCalendar(screenings), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to build screening calendar")
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { errorResponse } from "../../../lib/api"
+import { listScreenings } from "../../../lib/screening-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listScreenings())
+  } catch (error) {
+    return errorResponse(error, "Failed to load screenings")
+  }
+}
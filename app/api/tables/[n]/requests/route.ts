@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../../lib/api"
+import { createServiceRequest } from "../../../../../lib/service-store"
+
+interface Context {
+  params: { n: string }
+}
+
+// Orders and calls from the table menu; guests do not sign in, the table
+// number in the QR code link is all they have.
+export async function POST(request: NextRequest, { params }: Context) {
+  try {
+    const { kind, lines, note } = await request.json()
+    return NextResponse.json(await createServiceRequest(Number(params.n), { kind, lines, note }), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to send table request")
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { getOwnProfile, updateOwnProfile } from "../../../../lib/team-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const session = await requireRole("staff")
+    return NextResponse.json(await getOwnProfile(session.user.id))
+  } catch (error) {
+    return errorResponse(error, "Failed to load profile")
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await requireRole("staff")
+    return NextResponse.json(await updateOwnProfile(session.user.id, await request.json()))
+  } catch (error) {
+    return errorResponse(error, "Failed to update profile")
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server"
+import { getTeam } from "../../../lib/team-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  return NextResponse.json(await getTeam())
+}
@@ -0,0 +1,16 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { TIPPRUNDE_LEAGUE } from "../../../../lib/tipprunde"
+import { leaderboard } from "../../../../lib/tip-store"
+
+export const dynamic = "force-dynamic"
+
+// Season ranking, or with ?matchday=N the ranking of that matchday.
+export async function GET(request: NextRequest) {
+  try {
+    const matchday = Number(request.nextUrl.searchParams.get("matchday")) || undefined
+    return NextResponse.json(await leaderboard(TIPPRUNDE_LEAGUE, undefined, matchday))
+  } catch (error) {
+    return errorResponse(error, "Failed to load leaderboard")
+  }
+}
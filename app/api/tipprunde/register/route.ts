@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { createUser } from "../../../../lib/users"
+
+// Regulars sign up themselves. Their accounts only play the Tipprunde, the
+// back office stays closed to fans.
+export async function POST(request: NextRequest) {
+  try {
+    const { name, email, password } = await request.json()
+    return NextResponse.json(await createUser({ name, email, password, role: "fan" }), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create tipper account")
+  }
+}
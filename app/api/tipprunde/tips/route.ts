@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "../../../../lib/api"
+import { requireRole } from "../../../../lib/auth"
+import { TIPPRUNDE_LEAGUE } from "../../../../lib/tipprunde"
+import { listTips, saveTip } from "../../../../lib/tip-store"
+
+export const dynamic = "force-dynamic"
+
+// The signed-in player's tips of the current season.
+export async function GET() {
+  try {
+    const session = await requireRole("fan")
+    return NextResponse.json(await listTips(session.user.id, TIPPRUNDE_LEAGUE))
+  } catch (error) {
+    return errorResponse(error, "Failed to load tips")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireRole("fan")
+    const { matchId, goals1, goals2 } = await request.json()
+    const tip = await saveTip(session.user.id, {
+      league: TIPPRUNDE_LEAGUE,
+      matchId: Number(matchId),
+      goals1: Number(goals1),
+      goals2: Number(goals2),
+    })
+    return NextResponse.json(tip, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to save tip")
+  }
+}
@@ -1,29 +1,45 @@
 import { type NextRequest, NextResponse } from "next/server"
+import type { BundesligaData } from "../../types/bundesliga"
+import { errorResponse } from "../../lib/api"
+import { currentSeason, DEFAULT_COMPETITION, findCompetition } from "../../lib/bundesliga"
+import { getMatchday, getMatches, getTable, getTeams, OpenLigaError } from "../../lib/openligadb"
 
+export const dynamic = "force-dynamic"
 
-const URL = "https://swapi.dev/api/people/1/"
+// Browsers and the CDN may keep an answer for a minute and serve it a while
+// longer while they refresh it.
+const CACHE_CONTROL = "public, s-maxage=60, stale-while-revalidate=600"
 
-export default async function GET(request: NextRequest) {
+// GET /bundesliga-standings?data=table|matchday|matches|teams[&league=bl1][&season=2025][&matchday=7]
+export async function GET(request: NextRequest) {
   try {
-   
+    const params = request.nextUrl.searchParams
+    const data = (params.get("data") ?? "table") as BundesligaData
+    // only competitions we list, so the proxy cannot be used for anything else
+    const competition = findCompetition(params.get("league") ?? DEFAULT_COMPETITION)
+    if (!competition) throw new OpenLigaError("Unbekannter Wettbewerb", 400)
+    const league = competition.shortcut
+    const season = params.has("season") ? Number(params.get("season")) : currentSeason()
+    const matchday = params.has("matchday") ? Number(params.get("matchday")) : undefined
 
-    const response = await fetch(`URL`, {
-      headers: {
-      "Access-Control-Allow-Origin": "",
-        "Content-Type": "application/json",
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Starwar API Error: ${response.status} ${response.statusText}`)
+    // next season's fixtures are out before it starts, later ones are not
+    if (!Number.isInteger(season) || season < 2000 || season > currentSeason() + 1) {
+      throw new OpenLigaError("Ungültige Saison", 400)
+    }
+    if (matchday !== undefined && (!Number.isInteger(matchday) || matchday < 1 || matchday > competition.rounds)) {
+      throw new OpenLigaError("Ungültiger Spieltag", 400)
     }
 
-    const data = await response.json()
-console
+    const loaders: Record<BundesligaData, () => Promise<unknown>> = {
+      table: () => getTable(league, season),
+      matchday: () => getMatchday(league, season, matchday),
+      matches: () => getMatches(league, season),
+      teams: () => getTeams(league, season),
+    }
+    if (!Object.hasOwn(loaders, data)) throw new OpenLigaError(`Unbekannte Daten "${data}"`, 400)
 
-    return NextResponse.json(data)
+    return NextResponse.json(await loaders[data](), { headers: { "Cache-Control": CACHE_CONTROL } })
   } catch (error) {
-    console.error("Error fetching starwars data:", error)
-    return NextResponse.json({ error: "Failed to fetch starwars data" }, { status: 500 })
+    return errorResponse(error, "Failed to fetch Bundesliga data")
   }
 }
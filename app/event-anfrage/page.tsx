@@ -0,0 +1,14 @@
+import EventInquiryForm from "../../components/events/EventInquiryForm"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-4xl space-y-8">
+        <h1 className="text-5xl lg:text-7xl headingA uppercase text-amber-500 font-bold">Dein Event</h1>
+        <EventInquiryForm />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,110 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { CalendarPlus } from "lucide-react"
+import type { PublicEvent } from "../../../types/public-event"
+import { barClock } from "../../../lib/dates"
+import { formatPrice } from "../../../lib/menu"
+import { InputError } from "../../../lib/api"
+import { getPublicEvent } from "../../../lib/public-event-store"
+import {
+  admissionLabels,
+  categoryLabels,
+  describeRecurrence,
+  eventJsonLd,
+  formatEventDate,
+  toOccurrence,
+  upcomingOccurrences,
+} from "../../../lib/public-events"
+
+export const dynamic = "force-dynamic"
+
+// How many dates of a series the page lists.
+const LISTED_DATES = 5
+
+interface PageProps {
+  params: { slug: string }
+}
+
+async function loadEvent(slug: string): Promise<PublicEvent> {
+  try {
+    return await getPublicEvent(slug)
+  } catch (error) {
+    if (error instanceof InputError && error.status === 404) notFound()
+    throw error
+  }
+}
+
+// Rendered on the server, so search engines find the schema.org markup of
+// the next date without running any script.
+const page = async ({ params }: PageProps) => {
+  const event = await loadEvent(params.slug)
+  const upcoming = upcomingOccurrences([event], barClock().date)
+  const next = upcoming[0] ?? toOccurrence(event, event.date)
+  const jsonLd = JSON.stringify(eventJsonLd(next)).replace(/</g, "\\u003c")
+
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLd }} />
+      <article className="mx-auto max-w-3xl space-y-6 text-gray-100">
+        <Link href="/events" className="text-sm text-amber-300 hover:underline">
+          ← Alle Events
+        </Link>
+        {event.image && <img src={event.image} alt="" className="max-h-96 w-full rounded-2xl object-cover" />}
+        <header className="space-y-2">
+          <p className="text-sm uppercase tracking-wide text-amber-400">{categoryLabels[event.category]}</p>
+          <h1 className="text-5xl headingA uppercase text-amber-500 font-bold">{event.title}</h1>
+          <p className="text-xl">
+            {upcoming.length > 0 ? formatEventDate(event, next.date) : "Dieses Event ist vorbei."}
+          </p>
+          {event.recurrence && <p className="text-gray-300">{describeRecurrence(event.recurrence, event.date)}</p>}
+        </header>
+
+        <div className="flex flex-wrap items-center gap-4 rounded-2xl bg-black/30 p-4">
+          <span>
+            {admissionLabels[event.admission]}
+            {event.priceCents !== undefined && ` · ${formatPrice(event.priceCents)}`}
+          </span>
+          {event.admission === "ticket" && event.ticketUrl && (
+            <a
+              href={event.ticketUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-semibold text-amber-300 underline"
+            >
+              Tickets
+            </a>
+          )}
+          {event.admission === "reservation" && (
+            <Link href="/reservierung" className="font-semibold text-amber-300 underline">
+              Tisch reservieren
+            </Link>
+          )}
+          {upcoming.length > 0 && (
+            <a
+              href={`/api/public-events/${event.slug}/calendar`}
+              className="ml-auto flex items-center gap-1 text-sm text-amber-300 hover:underline"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              In den Kalender
+            </a>
+          )}
+        </div>
+
+        <p className="whitespace-pre-line text-lg leading-relaxed">{event.description}</p>
+
+        {upcoming.length > 1 && (
+          <section className="space-y-2">
+            <h2 className="text-2xl font-bold text-amber-400">Die nächsten Termine</h2>
+            <ul className="space-y-1">
+              {upcoming.slice(0, LISTED_DATES).map((occurrence) => (
+                <li key={occurrence.date}>{formatEventDate(event, occurrence.date)}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </article>
+    </div>
+  )
+}
+
+export default page
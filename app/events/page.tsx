@@ -0,0 +1,14 @@
+import EventList from "../../components/events/EventList"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-7xl headingA uppercase text-amber-500 font-bold">Events</h1>
+        <EventList />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,11 @@
+import TableMenu from "../../components/table-menu/TableMenu"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-black px-4 pb-12">
+      <TableMenu />
+    </div>
+  )
+}
+
+export default page
@@ -1,14 +1,14 @@
-"use client";
-
 import "../styles/globals.css";
 import { ReactNode } from "react";
+import { headers } from "next/headers";
 import '../styles/tailwind.css';
 import '../styles/tooltip.css';
 import '../styles/drinks.css';
 import '../styles/styles.css'
 import '../styles/globals.scss'
-import "../styles/globals.css";
-import { MetaHTMLAttributes } from "react";
+import MenuSearch from "../components/MenuSearch";
+import { defaultLocale, isLocale, LOCALE_HEADER } from "../lib/i18n";
+import { LocaleProvider } from "@/hooks/use-locale";
 //import 'bootstrap/dist/css/bootstrap.min.css'
 
 
@@ -16,23 +16,20 @@ interface IProps {
   children: ReactNode;
 }
 
-
-
-interface Props {
-  children: React.ReactNode;
-  params: { locale: string };
-}
-300
+// The locale comes from middleware.ts, which rewrites /de/… and /en/… to
+// the pages without the prefix.
 export default function Layout({ children }: IProps) {
+  const requested = headers().get(LOCALE_HEADER);
+  const locale = isLocale(requested) ? requested : defaultLocale;
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body>
-        {children}
+        <LocaleProvider locale={locale}>
+          {children}
+          <MenuSearch />
+        </LocaleProvider>
       </body>
     </html>
   );
 }
-
-function hydrateRoot(arg0: HTMLElement, arg1: JSX.Element) {
-  throw new Error("Function not implemented.");
-}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { signIn } from "next-auth/react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import LoginForm from "../../components/auth/LoginForm"
+import CrewMemberForm, { type CrewMemberValues } from "../../components/auth/CrewMemberForm"
+
+const DEFAULT_CALLBACK = "/admin/menu"
+
+// Only paths on this site, so the login cannot forward to someone else's page;
+// browsers read "//host" and "/\host" as another origin.
+function safeCallbackUrl(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) return DEFAULT_CALLBACK
+  return value
+}
+
+const page = () => {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [setupNeeded, setSetupNeeded] = useState(false)
+
+  const callbackUrl = safeCallbackUrl(searchParams?.get("callbackUrl"))
+  const done = () => router.push(callbackUrl)
+
+  useEffect(() => {
+    fetch("/api/auth/setup")
+      .then((response) => response.json())
+      .then(({ needed }) => setSetupNeeded(Boolean(needed)))
+      .catch((error) => console.error("Error checking account setup:", error))
+  }, [])
+
+  const createCaptain = async (values: CrewMemberValues) => {
+    const response = await fetch("/api/auth/setup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(values),
+    })
+    if (!response.ok) throw new Error((await response.json()).error)
+    await signIn("credentials", { email: values.email, password: values.password, redirect: false })
+    done()
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-wood px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{setupNeeded ? "Kapitän anheuern" : "Crew Login"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {setupNeeded ? (
+            <CrewMemberForm submitLabel="Konto anlegen" showRole={false} onSubmit={createCaptain} />
+          ) : (
+            <LoginForm onSuccess={done} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { renderToBuffer } from "@react-pdf/renderer"
+import type { MenuPdfLayout } from "../../types/menu"
+import { errorResponse } from "../../lib/api"
+import { BAR_TIME_ZONE } from "../../lib/dates"
+import { getGuestMenu } from "../../lib/menu-store"
+import MenuDocument from "../../components/menu-pdf/MenuDocument"
+
+export const dynamic = "force-dynamic"
+
+const layouts: MenuPdfLayout[] = ["a4", "tent"]
+
+// GET /menu.pdf[?layout=a4|tent], always from the current catalogue so a
+// reprint picks up every price change.
+export async function GET(request: NextRequest) {
+  try {
+    const layout = (request.nextUrl.searchParams.get("layout") ?? "a4") as MenuPdfLayout
+    if (!layouts.includes(layout)) {
+      return NextResponse.json({ error: `Unbekanntes Layout "${layout}"` }, { status: 400 })
+    }
+
+    // Printed cards stay valid all day, so they carry the regular prices
+    // rather than the happy hour ones of the moment.
+    const printedAt = new Date().toLocaleDateString("de-DE", { timeZone: BAR_TIME_ZONE })
+    const pdf = await renderToBuffer(<MenuDocument catalogue={await getGuestMenu()} layout={layout} printedAt={printedAt} />)
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="rettungsanker-karte-${layout}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to render menu PDF")
+  }
+}
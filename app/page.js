@@ -6,6 +6,7 @@ import {Hero} from '../sections';
 import {About} from '../sections';
 import Footer from '../components/Footer';
 import Bento from  '../sections/Bento'; 
+import UpcomingEvents from '../components/events/UpcomingEvents';
 
 export default function Page() {
   return (
@@ -28,6 +29,7 @@ export default function Page() {
           <ScrollToTop />
           <div className="gradient-04 z-0"></div>
           <Event />
+          <UpcomingEvents />
         </div>
         <Sportarena />
         <div className="relative">
@@ -0,0 +1,14 @@
+import ReservationForm from "../../components/reservations/ReservationForm"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <h1 className="text-5xl lg:text-7xl headingA uppercase text-amber-500 font-bold">Reservierung</h1>
+        <ReservationForm />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -1,11 +1,19 @@
 import React from 'react'
+import FreiburgFixtures from '../../components/freiburg-fixtures'
+import ScreeningSchedule from '../../components/screening-schedule'
+import CompetitionView from '../../components/competition-view'
 
 const page = () => {
   return (
-    <div className=" h-screen flex flex-col gap-4 items-center justify-center bg-wood">
+    <div className="min-h-screen flex flex-col gap-8 items-center bg-wood px-4 py-12">
       <h1 className="text-7xl headingA uppercase text-amber-500 font-bold">Sportarena</h1>
+      <div className="w-full max-w-4xl space-y-8">
+        <ScreeningSchedule />
+        <FreiburgFixtures />
+        <CompetitionView />
+      </div>
     </div>
   )
 }
 
-export default page
\ No newline at end of file
+export default page
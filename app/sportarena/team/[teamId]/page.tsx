@@ -0,0 +1,19 @@
+import React from 'react'
+import TeamDetail from '../../../../components/team-detail'
+
+interface PageProps {
+  params: { teamId: string }
+  searchParams: { league?: string }
+}
+
+const page = ({ params, searchParams }: PageProps) => {
+  return (
+    <div className="min-h-screen flex flex-col gap-8 items-center bg-wood px-4 py-12">
+      <div className="w-full max-w-4xl">
+        <TeamDetail teamId={Number(params.teamId)} competition={searchParams.league} />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,18 @@
+import Tipprunde from "../../components/tipprunde/Tipprunde"
+
+const page = () => {
+  return (
+    <div className="min-h-screen bg-wood px-4 py-12">
+      <div className="mx-auto max-w-4xl space-y-8">
+        <h1 className="text-5xl lg:text-7xl headingA uppercase text-amber-500 font-bold">Tipprunde</h1>
+        <p className="text-white">
+          Tippt die Bundesliga-Spiele und messt euch mit den anderen Stammgästen. Bis zum Anpfiff kann jeder Tipp
+          geändert werden.
+        </p>
+        <Tipprunde />
+      </div>
+    </div>
+  )
+}
+
+export default page
@@ -0,0 +1,21 @@
+import { notFound } from "next/navigation"
+import TableMenu from "../../../components/table-menu/TableMenu"
+import { findTable } from "../../../lib/reservations"
+
+interface PageProps {
+  params: { n: string }
+}
+
+// Target of the QR code on each table, see /admin/tables.
+const page = ({ params }: PageProps) => {
+  const table = findTable(Number(params.n))
+  if (!table) notFound()
+
+  return (
+    <div className="min-h-screen bg-black px-4 pb-12">
+      <TableMenu tableNumber={table.number} />
+    </div>
+  )
+}
+
+export default page
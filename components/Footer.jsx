@@ -3,6 +3,8 @@
 import LogoNeu from '../public/LogoNeu';
 import Link from 'next/link';
 import SimpleTooltip from '../utils/SimpleTooltip';
+import OpeningBadge from './OpeningBadge';
+import { describeWeeklyHours } from '../lib/opening-hours';
 
 const navigation = {
   main: [
@@ -128,6 +130,10 @@ export default function Footer() {
             ))}
           </div>
         </div>
+        <div className="mt-8 flex flex-col items-center gap-2 text-sm text-gray-100">
+          <OpeningBadge />
+          <p>Öffnungszeiten: {describeWeeklyHours()}</p>
+        </div>
         <hr className="mx-auto my-6 w-6/12 border-gray-300" />
         <div className="flex flex-row justify-between">
           <div className="mx-auto w-full px-4 text-center md:w-8/12">
@@ -1,6 +1,10 @@
 "use client"
 
 import React from 'react';
+import Link from 'next/link';
+import OpeningBadge from './OpeningBadge';
+import { MenuSearchButton } from './MenuSearch';
+import { describeWeeklyHours } from '../lib/opening-hours';
 
 export default function InfoBar() {
   return (
@@ -42,10 +46,23 @@ export default function InfoBar() {
         </div>
         <div>
           <p className="hidden font-mono text-gray-100 lg:block lg:text-[.55rem] xl:text-[.9rem]  2xl:text-[1.1rem]">
-            Öffnungszeiten: Montag bis Donnerstag: 18-24 Uhr Freitag und
-            Samstag: 15-03 Uhr Sonntags: geschlossen
+            Öffnungszeiten: {describeWeeklyHours()}
           </p>
         </div>
+        <OpeningBadge className="hidden md:inline-flex" />
+        <Link
+          href="/reservierung"
+          className="font-mono text-[.55rem] font-bold text-gray-100 underline lg:text-[.55rem] xl:text-[.9rem] 2xl:text-[1.1rem]"
+        >
+          Tisch reservieren
+        </Link>
+        <Link
+          href="/karte"
+          className="font-mono text-[.55rem] font-bold text-gray-100 underline lg:text-[.55rem] xl:text-[.9rem] 2xl:text-[1.1rem]"
+        >
+          Karte
+        </Link>
+        <MenuSearchButton className="font-mono text-[.55rem] font-bold text-gray-100 lg:text-[.55rem] xl:text-[.9rem] 2xl:text-[1.1rem]" />
       </div>
     </>
   );
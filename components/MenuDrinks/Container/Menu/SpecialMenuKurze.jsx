@@ -1,47 +1,55 @@
 import React from 'react';
 
-import {  MenuItem, SubHeading } from '../../../MenuDrinks';
-import { data, images  } from '../../../../data/'
+import {  MenuItem, MenuLegend, SubHeading } from '../../../MenuDrinks';
+import { images } from '../../../../data/'
+import { getMenuCategory } from '../../../../lib/menu';
+import { useMenu } from '@/hooks/use-menu';
 import './SpecialMenu.css';
 import Image from 'next/image';
 
-const SpecialMenuKurze = () => (
-  <div className="app__specialMenu flex__center section__padding" id="menu">
+const SpecialMenuKurze = () => {
+  const menu = useMenu();
+
+  return (
+    <div className="app__specialMenu flex__center section__padding" id="menu">
     
-    <div className='flex fex-col items-center justify-center'>
-    <Image height="2000" width="200" className='' alt="LogoAlt" src="/LogoAlt.png" />
-    </div>
-    <div className="app__specialMenu-title">
-      <h1 className="headtext__cormorant">Kurze &Liköre</h1>
-    </div>
-    <div className="app__specialMenu-menu">
-      <div className="app__specialMenu-menu_likoere  flex__center">
-        <p className="app__specialMenu-menu_heading">Liköre</p>
-        <div className="app__specialMenu_menu_items">
-          {data.likoere.map((likoere, index) => (
-            <MenuItem key={likoere.title + index} title={likoere.title} price={likoere.price} tags={likoere.tags} />
-          ))}
-        </div>
+      <div className='flex fex-col items-center justify-center'>
+      <Image height="2000" width="200" className='' alt="LogoAlt" src="/LogoAlt.png" />
       </div>
-
-      <div className="app__specialMenu-menu_img">
-        <Image src={images.weine} width="200" height="200" alt="menu__img" />
+      <div className="app__specialMenu-title">
+        <h1 className="headtext__cormorant">{getMenuCategory(menu, 'kurze-likoere').title}</h1>
       </div>
+      <div className="app__specialMenu-menu">
+        <div className="app__specialMenu-menu_likoere  flex__center">
+          <p className="app__specialMenu-menu_heading">{getMenuCategory(menu, 'likoere').title}</p>
+          <div className="app__specialMenu_menu_items">
+            {getMenuCategory(menu, 'likoere').items.map((item) => (
+              <MenuItem key={item.id} item={item} />
+            ))}
+          </div>
+        </div>
 
-      <div className="app__specialMenu-menu_kurze  flex__center">
-        <p className="app__specialMenu-menu_heading">Kurze</p>
-        <div className="app__specialMenu_menu_items">
-          {data.kurze.map((kurze, index) => (
-            <MenuItem key={kurze.title + index} title={kurze.title} price={kurze.price} tags={kurze.tags} />
-          ))}
+        <div className="app__specialMenu-menu_img">
+          <Image src={images.weine} width="200" height="200" alt="menu__img" />
+        </div>
+
+        <div className="app__specialMenu-menu_kurze  flex__center">
+          <p className="app__specialMenu-menu_heading">{getMenuCategory(menu, 'kurze').title}</p>
+          <div className="app__specialMenu_menu_items">
+            {getMenuCategory(menu, 'kurze').items.map((item) => (
+              <MenuItem key={item.id} item={item} />
+            ))}
+          </div>
         </div>
       </div>
-    </div>
 
-    {/*<div style={{ marginTop: 15 }}>
-      <button type="button" className="custom__button">View More</button>
-          </div>*/}
-  </div>
-);
+      <MenuLegend items={[...getMenuCategory(menu, 'likoere').items, ...getMenuCategory(menu, 'kurze').items]} />
+
+      {/*<div style={{ marginTop: 15 }}>
+        <button type="button" className="custom__button">View More</button>
+            </div>*/}
+    </div>
+  );
+};
 
 export default SpecialMenuKurze;
\ No newline at end of file
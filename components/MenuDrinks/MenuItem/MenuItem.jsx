@@ -1,21 +1,29 @@
 import React from 'react';
 
+import { formatPrice, formatTags } from '../../../lib/menu';
+import { itemMarkers } from '../../../lib/allergens';
 import './MenuItem.css';
 
-const MenuItem = ({ title, price, tags }) => (
+const MenuItem = ({ item }) => (
   <div className="app__menuitem">
     <div className="app__menuitem-head">
       <div className="app__menuitem-name">
-        <p className="p__cormorant" style={{ color: '#DCCA87' }}>{title}</p>
+        <p className="p__cormorant" style={{ color: '#DCCA87' }}>
+          {item.title}
+          {itemMarkers(item) && <sup className="app__menuitem-markers">{itemMarkers(item)}</sup>}
+        </p>
       </div>
       <div className="app__menuitem-dash" />
       <div className="app__menuitem-price">
-        <p className="p__cormorant">{price}</p>
+        {item.regularPriceCents !== undefined && (
+          <p className="p__cormorant app__menuitem-regular-price">{formatPrice(item.regularPriceCents)}</p>
+        )}
+        <p className="p__cormorant" title={item.priceRule}>{formatPrice(item.priceCents)}</p>
       </div>
     </div>
 
     <div className="app__menuitem-sub">
-      <p className="p__opensans" style={{ color: '#AAAAAA' }}>{tags}</p>
+      <p className="p__opensans" style={{ color: '#AAAAAA' }}>{formatTags(item)}</p>
     </div>
   </div>
 );
@@ -0,0 +1,22 @@
+import React from 'react';
+
+import { menuLegend } from '../../../lib/allergens';
+
+// Explains the footnote markers of the items shown above it.
+const MenuLegend = ({ items }) => {
+  const { additives, allergens } = menuLegend(items);
+  if (additives.length === 0 && allergens.length === 0) return null;
+
+  return (
+    <div className="app__menulegend p__opensans">
+      {additives.length > 0 && (
+        <p>{additives.map(({ number, label }) => `${number} ${label}`).join(' · ')}</p>
+      )}
+      {allergens.length > 0 && (
+        <p>Allergene: {allergens.map(({ code, label }) => `${code} ${label}`).join(' · ')}</p>
+      )}
+    </div>
+  );
+};
+
+export default MenuLegend;
@@ -1,7 +1,9 @@
 import SubHeading from './Subheading/SubHeading';
 import MenuItem from './MenuItem/MenuItem';
+import MenuLegend from './MenuLegend/MenuLegend';
 
 export {
   SubHeading,
   MenuItem,
+  MenuLegend,
 };
\ No newline at end of file
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useMemo, useState, type KeyboardEvent } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { Search } from "lucide-react"
+import { formatPrice, formatServing } from "../lib/menu"
+import { buildMenuIndex, searchMenuIndex, type MenuSearchEntry } from "../lib/menu-search"
+import { splitLocale } from "../lib/i18n"
+import { useMenu } from "@/hooks/use-menu"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/lightswind/command"
+
+// Dispatched on window by buttons that open the search, e.g. in the InfoBar.
+export const OPEN_MENU_SEARCH = "open-menu-search"
+
+const MAX_RESULTS = 12
+
+// Staff land on the category in the back office, guests on the card. A card
+// that is already open (/karte or /tisch/[n], also under /en) just jumps to
+// the category.
+function categoryHref(pathname: string, categoryId: string): string {
+  if (pathname.startsWith("/admin")) return `/admin/menu?kategorie=${encodeURIComponent(categoryId)}`
+  const { path } = splitLocale(pathname)
+  const onCard = path === "/karte" || path.startsWith("/tisch/")
+  return `${onCard ? pathname : "/karte"}#kategorie-${categoryId}`
+}
+
+function MenuSearchResults({ onPick }: { onPick: (entry: MenuSearchEntry) => void }) {
+  const menu = useMenu()
+  const index = useMemo(() => buildMenuIndex(menu), [menu])
+  const [query, setQuery] = useState("")
+  const [selected, setSelected] = useState(0)
+  const results = useMemo(() => searchMenuIndex(index, query, MAX_RESULTS), [index, query])
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault()
+      const step = event.key === "ArrowDown" ? 1 : -1
+      setSelected((current) => (current + step + results.length) % Math.max(results.length, 1))
+    } else if (event.key === "Enter") {
+      event.preventDefault()
+      if (results[selected]) onPick(results[selected])
+    }
+  }
+
+  return (
+    <>
+      <CommandInput
+        autoFocus
+        value={query}
+        onValueChange={(value) => {
+          setQuery(value)
+          setSelected(0)
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Karte durchsuchen, z.B. Gin oder alkoholfrei"
+      />
+      <CommandList className="max-h-[60vh]">
+        {query.trim() && results.length === 0 && <CommandEmpty>Nichts gefunden für „{query}“.</CommandEmpty>}
+        {results.length > 0 && (
+          <CommandGroup heading="Karte">
+            {results.map((entry, position) => (
+              <CommandItem
+                key={entry.item.id}
+                value={entry.item.id}
+                className={position === selected ? "bg-accent text-accent-foreground" : undefined}
+                onSelect={() => onPick(entry)}
+              >
+                <div className="flex-1">
+                  <p className="font-medium">
+                    {entry.item.title} <span className="text-muted-foreground">{formatServing(entry.item.serving)}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">{entry.categoryPath.join(" › ")}</p>
+                </div>
+                <CommandShortcut>{formatPrice(entry.item.priceCents)}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </>
+  )
+}
+
+// ⌘K (Ctrl+K) palette over the whole card. The menu is only fetched once
+// the palette is opened.
+export default function MenuSearch() {
+  const [open, setOpen] = useState(false)
+  const pathname = usePathname() ?? "/"
+  const router = useRouter()
+
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault()
+        setOpen((current) => !current)
+      }
+    }
+    const handleOpen = () => setOpen(true)
+    document.addEventListener("keydown", handleKeyDown)
+    window.addEventListener(OPEN_MENU_SEARCH, handleOpen)
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener(OPEN_MENU_SEARCH, handleOpen)
+    }
+  }, [])
+
+  const pick = (entry: MenuSearchEntry) => {
+    setOpen(false)
+    const href = categoryHref(pathname, entry.categoryId)
+    const [path, hash] = href.split("#")
+    if (hash && path === pathname) window.location.hash = hash
+    else router.push(href)
+  }
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen}>
+      {open && <MenuSearchResults onPick={pick} />}
+    </CommandDialog>
+  )
+}
+
+export function MenuSearchButton({ className }: { className?: string }) {
+  return (
+    <button
+      type="button"
+      className={className}
+      aria-label="Karte durchsuchen"
+      onClick={() => window.dispatchEvent(new Event(OPEN_MENU_SEARCH))}
+    >
+      <Search className="inline h-4 w-4" /> Suche <kbd className="hidden lg:inline">⌘K</kbd>
+    </button>
+  )
+}
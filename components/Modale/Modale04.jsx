@@ -4,6 +4,7 @@ import dynamic from 'next/dynamic'
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment, useState } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
 import Tooltip from "../../utils/SimpleTooltip";
 
 export default function Modale04() {  
@@ -96,15 +97,21 @@ export default function Modale04() {
                         <span className="font-bold text-yellow-400">
                           Vereinbarung eines persönlichen Termins
                         </span>
-                        . Senden Sie uns eine e-mail oder sprechen Sie uns
-                        direkt im Rettungsanker an!!! Wir freuen uns Ihre
+                        . Schicken Sie uns Ihre Anfrage über das Formular
+                        oder sprechen Sie uns direkt im Rettungsanker an!!! Wir freuen uns Ihre
                         Feierlichkeiten professionell begleiten zu dürfen.
                         <br />
                         <br />
                         Michael Schreck und das Team Rettungsanker.
                       </p>
                     </div>
-                                           <div className="mt-4">
+                                           <div className="mt-4 flex gap-3">
+                    <Link
+                      href="/event-anfrage"
+                      className="inline-flex justify-center rounded-md border border-transparent bg-green-500 px-4 py-2 text-sm font-medium text-white hover:bg-green-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-green-500 focus-visible:ring-offset-2"
+                    >
+                      jetzt anfragen
+                    </Link>
                     <button
                       type="button"
                       className="inline-flex justify-center rounded-md border border-transparent bg-blue-100 px-4 py-2 text-sm font-medium text-blue-900 hover:bg-blue-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
@@ -0,0 +1,19 @@
+"use client"
+
+import { useOpeningStatus } from "@/hooks/use-opening-status"
+import { Badge } from "@/components/lightswind/badge"
+
+interface OpeningBadgeProps {
+  className?: string
+}
+
+export default function OpeningBadge({ className }: OpeningBadgeProps) {
+  const opening = useOpeningStatus()
+  if (!opening) return null
+
+  return (
+    <Badge variant={opening.status.open ? "success" : "destructive"} withDot className={className}>
+      {opening.text}
+    </Badge>
+  )
+}
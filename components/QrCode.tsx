@@ -0,0 +1,21 @@
+import { encodeQr, qrPath } from "../lib/qr-code"
+
+interface QrCodeProps {
+  value: string
+  className?: string
+  title?: string
+}
+
+// Encoded while rendering, no request leaves the house.
+export default function QrCode({ value, className, title }: QrCodeProps) {
+  const modules = encodeQr(value)
+  const size = modules.length + 8
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className={className} role="img" shapeRendering="crispEdges">
+      {title && <title>{title}</title>}
+      <rect width={size} height={size} fill="#fff" />
+      <path d={qrPath(modules)} fill="#000" />
+    </svg>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import type { CrewUser } from "../../types/auth"
+import type { CrewProfile, CrewProfileInput, SocialNetwork } from "../../types/team"
+import { socialLabels } from "../../lib/team"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Textarea } from "@/components/lightswind/textarea"
+
+// The captain edits everything; crew members editing their own profile
+// (no `users`) neither see the rank nor the login.
+interface CrewProfileFormProps {
+  initial?: CrewProfile
+  users?: CrewUser[]
+  submitLabel: string
+  onSubmit: (input: CrewProfileInput & { userId?: string | null }) => Promise<void>
+  onCancel?: () => void
+}
+
+const networks = Object.keys(socialLabels) as SocialNetwork[]
+
+export default function CrewProfileForm({ initial, users, submitLabel, onSubmit, onCancel }: CrewProfileFormProps) {
+  const [name, setName] = useState(initial?.name ?? "")
+  const [role, setRole] = useState(initial?.role ?? "")
+  const [photo, setPhoto] = useState(initial?.photo ?? "/ancerIcon.svg")
+  const [bio, setBio] = useState(initial?.bio ?? "")
+  const [favouriteDrink, setFavouriteDrink] = useState(initial?.favouriteDrink ?? "")
+  const [socials, setSocials] = useState<Record<SocialNetwork, string>>(() =>
+    Object.fromEntries(
+      networks.map((network) => [network, initial?.socials.find((link) => link.network === network)?.url ?? ""]),
+    ) as Record<SocialNetwork, string>,
+  )
+  const [userId, setUserId] = useState(initial?.userId ?? "")
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    try {
+      setSaving(true)
+      setError(null)
+      await onSubmit({
+        name,
+        role,
+        photo,
+        bio,
+        favouriteDrink,
+        socials: networks.filter((network) => socials[network].trim()).map((network) => ({ network, url: socials[network] })),
+        ...(users ? { userId: userId || null } : {}),
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-4 items-end">
+      <div className="space-y-1">
+        <Label htmlFor="crew-name">Name</Label>
+        <Input id="crew-name" value={name} onChange={(e) => setName(e.target.value)} required />
+      </div>
+      {users && (
+        <div className="space-y-1">
+          <Label htmlFor="crew-role">Rang</Label>
+          <Input id="crew-role" value={role} onChange={(e) => setRole(e.target.value)} placeholder="Maat" required />
+        </div>
+      )}
+      <div className="md:col-span-2 space-y-1">
+        <Label htmlFor="crew-photo">Foto</Label>
+        <Input id="crew-photo" value={photo} onChange={(e) => setPhoto(e.target.value)} required />
+      </div>
+      <div className="md:col-span-4 space-y-1">
+        <Label htmlFor="crew-bio">Über mich</Label>
+        <Textarea id="crew-bio" value={bio} onChange={(e) => setBio(e.target.value)} rows={3} />
+      </div>
+      <div className="md:col-span-2 space-y-1">
+        <Label htmlFor="crew-drink">Lieblingsgetränk</Label>
+        <Input
+          id="crew-drink"
+          value={favouriteDrink}
+          onChange={(e) => setFavouriteDrink(e.target.value)}
+          placeholder="Flensburger Pils"
+        />
+      </div>
+      {users && (
+        <div className="md:col-span-2 space-y-1">
+          <Label htmlFor="crew-user">Zugang</Label>
+          <select
+            id="crew-user"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="h-10 w-full rounded-md border border-gray-300 bg-background px-2"
+          >
+            <option value="">kein Zugang</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name} ({user.email})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {networks.map((network) => (
+        <div key={network} className="space-y-1">
+          <Label htmlFor={`crew-${network}`}>{socialLabels[network]}</Label>
+          <Input
+            id={`crew-${network}`}
+            value={socials[network]}
+            onChange={(e) => setSocials((current) => ({ ...current, [network]: e.target.value }))}
+            placeholder="https://"
+          />
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving}>
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Abbrechen
+          </Button>
+        )}
+      </div>
+      {error && <p className="md:col-span-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  )
+}
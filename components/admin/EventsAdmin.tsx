@@ -0,0 +1,91 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { EventInquiry, EventStatus } from "../../types/event"
+import { fromIsoDate } from "../../lib/dates"
+import { cateringLabels, eventStatuses, eventStatusLabels, nextEventStatus } from "../../lib/events"
+import { formatPrice } from "../../lib/menu"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+
+const nextStepLabels: Partial<Record<EventStatus, string>> = {
+  offered: "Angebot verschickt",
+  confirmed: "Bestätigen",
+  done: "Abschließen",
+}
+
+export default function EventsAdmin() {
+  const [inquiries, setInquiries] = useState<EventInquiry[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setInquiries(await sendJson<EventInquiry[]>("/api/admin/events", "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const setStatus = async (inquiry: EventInquiry, status: EventStatus) => {
+    try {
+      setError(null)
+      await sendJson(`/api/admin/events/${inquiry.id}`, "PATCH", { status })
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="grid gap-4 lg:grid-cols-4">
+        {eventStatuses.map((status) => {
+          const column = inquiries.filter((inquiry) => inquiry.status === status)
+          return (
+            <Card key={status}>
+              <CardHeader>
+                <CardTitle>
+                  {eventStatusLabels[status]} ({column.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {column.map((inquiry) => {
+                  const next = nextEventStatus(inquiry.status)
+                  return (
+                    <div key={inquiry.id} className="space-y-1 rounded-md border p-3 text-sm">
+                      <p className="font-bold">
+                        {fromIsoDate(inquiry.date).toLocaleDateString("de-DE")} · {inquiry.guests} Gäste
+                      </p>
+                      <p>{inquiry.occasion}</p>
+                      <p className="text-muted-foreground">
+                        {cateringLabels[inquiry.catering]}
+                        {inquiry.budgetCents != null && ` · ${formatPrice(inquiry.budgetCents)}`}
+                      </p>
+                      <p className="text-muted-foreground">
+                        {inquiry.name} · {inquiry.phone} · {inquiry.email}
+                      </p>
+                      {inquiry.message && <p className="italic">{inquiry.message}</p>}
+                      {next && (
+                        <Button size="sm" className="mt-2" onClick={() => setStatus(inquiry, next)}>
+                          {nextStepLabels[next]}
+                        </Button>
+                      )}
+                    </div>
+                  )
+                })}
+                {column.length === 0 && <p className="text-muted-foreground text-sm">Keine Anfragen.</p>}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { Milestone, MilestoneInput } from "../../types/history"
+import { formatMilestoneDate } from "../../lib/history"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import MilestoneForm from "./MilestoneForm"
+
+export default function HistoryAdmin() {
+  const [milestones, setMilestones] = useState<Milestone[] | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setMilestones(await sendJson<Milestone[]>("/api/admin/history", "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const create = async (input: MilestoneInput) => {
+    await sendJson("/api/admin/history", "POST", input)
+    await load()
+  }
+
+  const update = async (milestone: Milestone, input: MilestoneInput) => {
+    await sendJson(`/api/admin/history/${milestone.id}`, "PATCH", input)
+    setEditingId(null)
+    await load()
+  }
+
+  const remove = async (milestone: Milestone) => {
+    if (!window.confirm(`"${milestone.title}" wirklich löschen?`)) return
+    try {
+      setError(null)
+      await sendJson(`/api/admin/history/${milestone.id}`, "DELETE")
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  if (!milestones) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">Fehler beim Laden der Story: {error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2">Lade Story...</span>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Kapitel</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {milestones.map((milestone) =>
+            editingId === milestone.id ? (
+              <MilestoneForm
+                key={milestone.id}
+                initial={milestone}
+                submitLabel="Speichern"
+                onSubmit={(input) => update(milestone, input)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div key={milestone.id} className="flex flex-wrap items-center gap-4 border-b pb-3">
+                <div className="flex-1">
+                  <p className="font-medium">{milestone.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatMilestoneDate(milestone.date)}
+                    {milestone.images.length > 0 && ` · ${milestone.images.length} Bild(er)`}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(milestone.id)}>
+                  Bearbeiten
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => remove(milestone)}>
+                  Löschen
+                </Button>
+              </div>
+            ),
+          )}
+          {milestones.length === 0 && <p className="text-muted-foreground">Noch keine Kapitel.</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Neues Kapitel</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MilestoneForm key={milestones.length} submitLabel="Hinzufügen" onSubmit={create} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
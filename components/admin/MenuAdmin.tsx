@@ -0,0 +1,206 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import type { MenuCatalogue, MenuCategory, MenuItem, MenuItemInput } from "../../types/menu"
+import { formatPrice, formatServing, formatTags, getMenuCategory, menuItems, missingTranslation } from "../../lib/menu"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Badge } from "@/components/lightswind/badge"
+import { DragOrderList, type DragItem } from "@/components/lightswind/drag-order-list"
+import MenuItemForm from "./MenuItemForm"
+
+// Only categories without sub-categories hold items.
+function leafCategories(categories: MenuCategory[], prefix = ""): { id: string; label: string }[] {
+  return categories.flatMap((category) => {
+    const label = prefix ? `${prefix} › ${category.title}` : category.title
+    return category.children?.length ? leafCategories(category.children, label) : [{ id: category.id, label }]
+  })
+}
+
+export default function MenuAdmin() {
+  const [catalogue, setCatalogue] = useState<MenuCatalogue | null>(null)
+  const [categoryId, setCategoryId] = useState<string>("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const stored = await sendJson<MenuCatalogue>("/api/admin/menu", "GET")
+      setCatalogue(stored)
+      setCategoryId((current) => current || leafCategories(stored.categories)[0]?.id || "")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const categories = useMemo(() => (catalogue ? leafCategories(catalogue.categories) : []), [catalogue])
+
+  // set by the menu search (⌘K); applied once per search, not on every reload
+  const requested = useSearchParams()?.get("kategorie")
+  const [applied, setApplied] = useState<string | null>(null)
+  useEffect(() => {
+    if (requested && requested !== applied && categories.some((category) => category.id === requested)) {
+      setCategoryId(requested)
+      setEditingId(null)
+      setApplied(requested)
+    }
+  }, [requested, applied, categories])
+  const items = catalogue && categoryId ? getMenuCategory(catalogue, categoryId).items : []
+  const untranslated = catalogue ? menuItems(catalogue).filter(missingTranslation).length : 0
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null)
+      await action()
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const create = async (input: MenuItemInput) => {
+    await sendJson("/api/admin/menu", "POST", { categoryId, item: input })
+    await load()
+  }
+
+  const update = async (item: MenuItem, input: MenuItemInput) => {
+    await sendJson(`/api/admin/menu/${item.id}`, "PATCH", input)
+    setEditingId(null)
+    await load()
+  }
+
+  const reorder = (ordered: DragItem[]) => {
+    const ids = ordered.map((entry) => String(entry.id))
+    if (ids.join() === items.map((item) => item.id).join()) return
+    run(() => sendJson("/api/admin/menu/reorder", "PUT", { categoryId, ids }))
+  }
+
+  if (!catalogue) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">Fehler beim Laden der Karte: {error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2">Lade Getränkekarte...</span>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {categories.map((category) => (
+          <Button
+            key={category.id}
+            variant={category.id === categoryId ? "default" : "outline"}
+            size="sm"
+            onClick={() => {
+              setCategoryId(category.id)
+              setEditingId(null)
+            }}
+          >
+            {category.label}
+          </Button>
+        ))}
+      </div>
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+      {untranslated > 0 && (
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          Ohne englische Beschreibung: {untranslated} Artikel. Die englische Karte zeigt sie auf Deutsch.
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Artikel</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {items.map((item) =>
+            editingId === item.id ? (
+              <MenuItemForm
+                key={item.id}
+                initial={item}
+                submitLabel="Speichern"
+                onSubmit={(input) => update(item, input)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div key={item.id} className="flex flex-wrap items-center gap-4 border-b pb-3">
+                <div className="flex-1">
+                  <p className={item.hidden ? "font-medium line-through opacity-60" : "font-medium"}>{item.title}</p>
+                  <p className="text-sm text-muted-foreground">{formatTags(item)}</p>
+                </div>
+                {missingTranslation(item) && <Badge variant="secondary">EN fehlt</Badge>}
+                <span className="font-bold">{formatPrice(item.priceCents)}</span>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(item.id)}>
+                  Bearbeiten
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => run(() => sendJson(`/api/admin/menu/${item.id}`, "PATCH", { hidden: !item.hidden }))}
+                >
+                  {item.hidden ? "Einblenden" : "Ausblenden"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => {
+                    if (window.confirm(`"${item.title}" wirklich löschen?`)) {
+                      run(() => sendJson(`/api/admin/menu/${item.id}`, "DELETE"))
+                    }
+                  }}
+                >
+                  Löschen
+                </Button>
+              </div>
+            ),
+          )}
+          {items.length === 0 && <p className="text-muted-foreground">Noch keine Artikel in dieser Kategorie.</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Neuer Artikel</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MenuItemForm key={`${categoryId}-${items.length}`} submitLabel="Hinzufügen" onSubmit={create} />
+        </CardContent>
+      </Card>
+
+      {items.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reihenfolge</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DragOrderList
+              key={items.map((item) => item.id).join()}
+              items={items.map((item) => ({
+                id: item.id,
+                title: item.title,
+                subtitle: `${formatServing(item.serving)} ${formatPrice(item.priceCents)}`.trim(),
+              }))}
+              onReorder={reorder}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import type { AdditiveNumber, AllergenCode, Diet, MenuItem, MenuItemInput, VolumeUnit } from "../../types/menu"
+import { parsePrice } from "../../lib/menu"
+import { dietLabels } from "../../lib/allergens"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Switch } from "@/components/lightswind/switch"
+
+interface MenuItemFormProps {
+  initial?: MenuItem
+  submitLabel: string
+  onSubmit: (input: MenuItemInput) => Promise<void>
+  onCancel?: () => void
+}
+
+const units: VolumeUnit[] = ["cl", "ml", "l"]
+
+export default function MenuItemForm({ initial, submitLabel, onSubmit, onCancel }: MenuItemFormProps) {
+  const [title, setTitle] = useState(initial?.title ?? "")
+  const [price, setPrice] = useState(initial ? (initial.priceCents / 100).toFixed(2) : "")
+  const [amount, setAmount] = useState(initial?.serving?.amount?.toString() ?? "")
+  const [unit, setUnit] = useState<VolumeUnit>(initial?.serving?.unit ?? "cl")
+  const [count, setCount] = useState(initial?.serving?.count?.toString() ?? "")
+  const [abv, setAbv] = useState(initial?.abv?.toString() ?? "")
+  // same pipe separated notation the printed card uses
+  const [tags, setTags] = useState(initial?.tags.join(" | ") ?? "")
+  // as on the card: "A, G" and "1, 11"
+  const [allergens, setAllergens] = useState(initial?.allergens?.join(", ") ?? "")
+  const [additives, setAdditives] = useState(initial?.additives?.join(", ") ?? "")
+  const [diet, setDiet] = useState<Diet | "">(initial?.diet ?? "")
+  const [hidden, setHidden] = useState(initial?.hidden ?? false)
+  // for the /en card, see lib/menu.ts localizeMenu()
+  const [titleEn, setTitleEn] = useState(initial?.translations?.en?.title ?? "")
+  const [tagsEn, setTagsEn] = useState(initial?.translations?.en?.tags?.join(" | ") ?? "")
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+
+    const priceCents = parsePrice(price)
+    if (priceCents === null) {
+      setError("Preis bitte als Zahl angeben, z.B. 3,30")
+      return
+    }
+
+    const en = {
+      ...(titleEn.trim() ? { title: titleEn.trim() } : {}),
+      ...(tagsEn.trim() ? { tags: tagsEn.split("|").map((tag) => tag.trim()).filter(Boolean) } : {}),
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await onSubmit({
+        title,
+        priceCents,
+        ...(amount
+          ? { serving: { amount: Number(amount.replace(",", ".")), unit, ...(count ? { count: Number(count) } : {}) } }
+          : {}),
+        ...(abv ? { abv: Number(abv.replace(",", ".")) } : {}),
+        tags: tags.split("|").map((tag) => tag.trim()).filter(Boolean),
+        allergens: allergens
+          .split(/[\s,]+/)
+          .filter(Boolean)
+          .map((code) => code.toUpperCase() as AllergenCode),
+        additives: additives
+          .split(/[\s,]+/)
+          .filter(Boolean)
+          .map((number) => Number(number) as AdditiveNumber),
+        ...(diet ? { diet } : {}),
+        hidden,
+        translations: Object.keys(en).length > 0 ? { en } : {},
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-6 items-end">
+      <div className="md:col-span-2 space-y-1">
+        <Label htmlFor="menu-title">Name</Label>
+        <Input id="menu-title" value={title} onChange={(e) => setTitle(e.target.value)} required />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="menu-price">Preis (Euro)</Label>
+        <Input id="menu-price" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="3,30" required />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="menu-amount">Menge</Label>
+        <div className="flex gap-1">
+          <Input id="menu-amount" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="33" />
+          <select
+            aria-label="Einheit"
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as VolumeUnit)}
+            className="rounded-md border border-gray-300 bg-background px-2"
+          >
+            {units.map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="menu-count">Anzahl</Label>
+        <Input id="menu-count" value={count} onChange={(e) => setCount(e.target.value)} placeholder="1" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="menu-abv">Alkohol (%)</Label>
+        <Input id="menu-abv" value={abv} onChange={(e) => setAbv(e.target.value)} placeholder="4,8" />
+      </div>
+      <div className="md:col-span-4 space-y-1">
+        <Label htmlFor="menu-tags">Beschreibung</Label>
+        <Input id="menu-tags" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="vom Fass | Pils" />
+      </div>
+      <div className="md:col-span-2 space-y-1">
+        <Label htmlFor="menu-title-en">Name (Englisch, optional)</Label>
+        <Input id="menu-title-en" value={titleEn} onChange={(e) => setTitleEn(e.target.value)} placeholder="Tea" />
+      </div>
+      <div className="md:col-span-4 space-y-1">
+        <Label htmlFor="menu-tags-en">Beschreibung (Englisch)</Label>
+        <Input id="menu-tags-en" value={tagsEn} onChange={(e) => setTagsEn(e.target.value)} placeholder="on tap | pilsner" />
+      </div>
+      <div className="md:col-span-2 space-y-1">
+        <Label htmlFor="menu-allergens">Allergene</Label>
+        <Input id="menu-allergens" value={allergens} onChange={(e) => setAllergens(e.target.value)} placeholder="A, G" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="menu-additives">Zusatzstoffe</Label>
+        <Input id="menu-additives" value={additives} onChange={(e) => setAdditives(e.target.value)} placeholder="1, 11" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="menu-diet">Ernährung</Label>
+        <select
+          id="menu-diet"
+          value={diet}
+          onChange={(e) => setDiet(e.target.value as Diet | "")}
+          className="h-10 w-full rounded-md border border-gray-300 bg-background px-2"
+        >
+          <option value="">keine Angabe</option>
+          {(Object.keys(dietLabels) as Diet[]).map((option) => (
+            <option key={option} value={option}>
+              {dietLabels[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id="menu-hidden" checked={hidden} onCheckedChange={setHidden} />
+        <Label htmlFor="menu-hidden">Ausgeblendet</Label>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving}>
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Abbrechen
+          </Button>
+        )}
+      </div>
+      {error && <p className="md:col-span-6 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  )
+}
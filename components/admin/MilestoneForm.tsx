@@ -0,0 +1,87 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import type { Milestone, MilestoneImage, MilestoneInput } from "../../types/history"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Textarea } from "@/components/lightswind/textarea"
+
+interface MilestoneFormProps {
+  initial?: Milestone
+  submitLabel: string
+  onSubmit: (input: MilestoneInput) => Promise<void>
+  onCancel?: () => void
+}
+
+// One image per line as "/Impress01.jpg | Der Tresen"
+function parseImages(text: string): MilestoneImage[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [src, ...alt] = line.split("|")
+      return { src: src.trim(), alt: alt.join("|").trim() }
+    })
+}
+
+export default function MilestoneForm({ initial, submitLabel, onSubmit, onCancel }: MilestoneFormProps) {
+  const [date, setDate] = useState(initial?.date ?? "")
+  const [title, setTitle] = useState(initial?.title ?? "")
+  const [text, setText] = useState(initial?.text ?? "")
+  const [images, setImages] = useState(initial?.images.map((image) => `${image.src} | ${image.alt}`).join("\n") ?? "")
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    try {
+      setSaving(true)
+      setError(null)
+      await onSubmit({ date: date.trim(), title, text, images: parseImages(images) })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-4 items-end">
+      <div className="space-y-1">
+        <Label htmlFor="milestone-date">Datum</Label>
+        <Input id="milestone-date" value={date} onChange={(e) => setDate(e.target.value)} placeholder="2017-09" required />
+      </div>
+      <div className="md:col-span-3 space-y-1">
+        <Label htmlFor="milestone-title">Titel</Label>
+        <Input id="milestone-title" value={title} onChange={(e) => setTitle(e.target.value)} required />
+      </div>
+      <div className="md:col-span-4 space-y-1">
+        <Label htmlFor="milestone-text">Text</Label>
+        <Textarea id="milestone-text" value={text} onChange={(e) => setText(e.target.value)} rows={4} required />
+      </div>
+      <div className="md:col-span-4 space-y-1">
+        <Label htmlFor="milestone-images">Bilder (eine Zeile pro Bild: Pfad | Beschreibung)</Label>
+        <Textarea
+          id="milestone-images"
+          value={images}
+          onChange={(e) => setImages(e.target.value)}
+          rows={2}
+          placeholder="/Impress01.jpg | Der Tresen am Eröffnungsabend"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving}>
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Abbrechen
+          </Button>
+        )}
+      </div>
+      {error && <p className="md:col-span-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { CrewProfile, OwnProfileInput } from "../../types/team"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import CrewProfileForm from "./CrewProfileForm"
+
+// The signed-in crew member's own card on the team page.
+export default function OwnProfile() {
+  const [profile, setProfile] = useState<CrewProfile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      setProfile(await sendJson<CrewProfile>("/api/team/profile", "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const save = async ({ name, photo, bio, favouriteDrink, socials }: OwnProfileInput) => {
+    setSaved(false)
+    setProfile(await sendJson<CrewProfile>("/api/team/profile", "PATCH", { name, photo, bio, favouriteDrink, socials }))
+    setSaved(true)
+  }
+
+  if (!profile) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2">Lade Profil...</span>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {profile.name} · {profile.role}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CrewProfileForm key={profile.id} initial={profile} submitLabel="Speichern" onSubmit={save} />
+        {saved && <p className="text-sm text-green-600">Gespeichert, die Teamseite zeigt jetzt dein neues Profil.</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,193 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { MenuCatalogue } from "../../types/menu"
+import type { PricingRule, PricingRuleInput } from "../../types/pricing"
+import type { PublicEvent } from "../../types/public-event"
+import type { Screening } from "../../types/screening"
+import { findCategory, formatPrice, menuItems } from "../../lib/menu"
+import { describePricingWindow } from "../../lib/pricing"
+import { screeningTitle } from "../../lib/screenings"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import PricingRuleForm from "./PricingRuleForm"
+
+interface PricingData {
+  rules: PricingRule[]
+  catalogue: MenuCatalogue
+  screenings: Screening[]
+  events: PublicEvent[]
+}
+
+// "20 % auf Bier, Wein", "2,50 € für Aperol Spritz"
+function describeRule(rule: PricingRule, data: PricingData): string {
+  const price = rule.priceCents !== undefined ? `${formatPrice(rule.priceCents)} für` : `${rule.percentOff} % auf`
+  const items = menuItems(data.catalogue)
+  const scope = [
+    ...rule.categoryIds.map((id) => findCategory(data.catalogue, id)?.title ?? id),
+    ...rule.itemIds.map((id) => items.find((item) => item.id === id)?.title ?? id),
+  ]
+  return `${price} ${scope.length > 0 ? scope.join(", ") : "die ganze Karte"}`
+}
+
+function describeLink(rule: PricingRule, data: PricingData): string | undefined {
+  const link = rule.link
+  if (link?.kind === "screening") {
+    const screening = data.screenings.find((entry) => entry.matchId === link.matchId)
+    return screening ? `während ${screeningTitle(screening)}` : "während Übertragungen"
+  }
+  if (link?.kind === "event") {
+    const event = data.events.find((entry) => entry.id === link.eventId)
+    return event ? `bei ${event.title}` : "bei Veranstaltungen"
+  }
+  return undefined
+}
+
+export default function PricingAdmin() {
+  const [data, setData] = useState<PricingData | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const [rules, catalogue, screenings, events] = await Promise.all([
+        sendJson<PricingRule[]>("/api/admin/pricing", "GET"),
+        sendJson<MenuCatalogue>("/api/admin/menu", "GET"),
+        sendJson<Screening[]>("/api/admin/screenings", "GET"),
+        sendJson<PublicEvent[]>("/api/admin/public-events", "GET"),
+      ])
+      setData({ rules, catalogue, screenings, events: events.filter((event) => event.published) })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null)
+      await action()
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const create = async (input: PricingRuleInput) => {
+    await sendJson("/api/admin/pricing", "POST", input)
+    await load()
+  }
+
+  // Sends null for the price field the rule no longer uses.
+  const update = async (rule: PricingRule, input: PricingRuleInput) => {
+    await sendJson(`/api/admin/pricing/${rule.id}`, "PATCH", {
+      from: null,
+      to: null,
+      link: null,
+      percentOff: null,
+      priceCents: null,
+      ...input,
+    })
+    setEditingId(null)
+    await load()
+  }
+
+  if (!data) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">Fehler beim Laden der Preisregeln: {error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2">Lade Preisregeln...</span>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Preisregeln</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data.rules.map((rule) =>
+            editingId === rule.id ? (
+              <PricingRuleForm
+                key={rule.id}
+                initial={rule}
+                catalogue={data.catalogue}
+                screenings={data.screenings}
+                events={data.events}
+                submitLabel="Speichern"
+                onSubmit={(input) => update(rule, input)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div key={rule.id} className="flex flex-wrap items-center gap-4 border-b pb-3">
+                <div className="flex-1">
+                  <p className={rule.active ? "font-medium" : "font-medium line-through opacity-60"}>{rule.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {[describePricingWindow(rule), describeLink(rule, data), describeRule(rule, data)]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(rule.id)}>
+                  Bearbeiten
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => run(() => sendJson(`/api/admin/pricing/${rule.id}`, "PATCH", { active: !rule.active }))}
+                >
+                  {rule.active ? "Pausieren" : "Aktivieren"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => {
+                    if (window.confirm(`"${rule.name}" wirklich löschen?`)) {
+                      run(() => sendJson(`/api/admin/pricing/${rule.id}`, "DELETE"))
+                    }
+                  }}
+                >
+                  Löschen
+                </Button>
+              </div>
+            ),
+          )}
+          {data.rules.length === 0 && <p className="text-muted-foreground">Noch keine Preisregeln.</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Neue Preisregel</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PricingRuleForm
+            key={data.rules.length}
+            catalogue={data.catalogue}
+            screenings={data.screenings}
+            events={data.events}
+            submitLabel="Hinzufügen"
+            onSubmit={create}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { X } from "lucide-react"
+import type { MenuCatalogue, MenuCategory } from "../../types/menu"
+import type { PricingLink, PricingRule, PricingRuleInput } from "../../types/pricing"
+import type { PublicEvent } from "../../types/public-event"
+import type { Screening } from "../../types/screening"
+import { formatServing, menuItems, parsePrice } from "../../lib/menu"
+import { weekdayNames } from "../../lib/opening-hours"
+import { screeningTitle } from "../../lib/screenings"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Switch } from "@/components/lightswind/switch"
+
+interface PricingRuleFormProps {
+  initial?: PricingRule
+  catalogue: MenuCatalogue
+  screenings: Screening[]
+  events: PublicEvent[]
+  submitLabel: string
+  onSubmit: (input: PricingRuleInput) => Promise<void>
+  onCancel?: () => void
+}
+
+type LinkKind = PricingLink["kind"] | ""
+
+// Monday first, as on the card
+const weekdayOrder = [1, 2, 3, 4, 5, 6, 0]
+
+function allCategories(categories: MenuCategory[], prefix = ""): { id: string; label: string }[] {
+  return categories.flatMap((category) => {
+    const label = prefix ? `${prefix} › ${category.title}` : category.title
+    return [{ id: category.id, label }, ...allCategories(category.children ?? [], label)]
+  })
+}
+
+export default function PricingRuleForm({
+  initial,
+  catalogue,
+  screenings,
+  events,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: PricingRuleFormProps) {
+  const [name, setName] = useState(initial?.name ?? "")
+  const [weekdays, setWeekdays] = useState<number[]>(initial?.weekdays ?? [])
+  const [from, setFrom] = useState(initial?.from ?? "")
+  const [to, setTo] = useState(initial?.to ?? "")
+  const [linkKind, setLinkKind] = useState<LinkKind>(initial?.link?.kind ?? "")
+  const [linkId, setLinkId] = useState(
+    initial?.link?.kind === "screening" ? String(initial.link.matchId ?? "") : initial?.link?.eventId ?? "",
+  )
+  const [categoryIds, setCategoryIds] = useState<string[]>(initial?.categoryIds ?? [])
+  const [itemIds, setItemIds] = useState<string[]>(initial?.itemIds ?? [])
+  const [mode, setMode] = useState<"percent" | "fixed">(initial?.priceCents !== undefined ? "fixed" : "percent")
+  const [amount, setAmount] = useState(
+    initial?.priceCents !== undefined ? (initial.priceCents / 100).toFixed(2) : initial?.percentOff?.toString() ?? "",
+  )
+  const [active, setActive] = useState(initial?.active ?? true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const categories = allCategories(catalogue.categories)
+  const items = menuItems(catalogue)
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value])
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+
+    let price: Pick<PricingRuleInput, "percentOff" | "priceCents">
+    if (mode === "fixed") {
+      const priceCents = parsePrice(amount)
+      if (priceCents === null) {
+        setError("Festpreis bitte als Zahl angeben, z.B. 2,50")
+        return
+      }
+      price = { priceCents }
+    } else {
+      price = { percentOff: Number(amount.replace(",", ".")) }
+    }
+
+    const link: PricingLink | undefined =
+      linkKind === "screening"
+        ? { kind: "screening", ...(linkId ? { matchId: Number(linkId) } : {}) }
+        : linkKind === "event"
+          ? { kind: "event", ...(linkId ? { eventId: linkId } : {}) }
+          : undefined
+
+    try {
+      setSaving(true)
+      setError(null)
+      await onSubmit({
+        name,
+        weekdays,
+        ...(from ? { from } : {}),
+        ...(to ? { to } : {}),
+        ...(link ? { link } : {}),
+        categoryIds,
+        itemIds,
+        ...price,
+        active,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4 items-end">
+      <div className="md:col-span-2 space-y-1">
+        <Label htmlFor="pricing-name">Name</Label>
+        <Input id="pricing-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Happy Hour" required />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="pricing-from">Von</Label>
+        <Input id="pricing-from" type="time" value={from} onChange={(e) => setFrom(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="pricing-to">Bis</Label>
+        <Input id="pricing-to" type="time" value={to} onChange={(e) => setTo(e.target.value)} />
+      </div>
+
+      <div className="md:col-span-4 space-y-1">
+        <Label>Wochentage (keiner ausgewählt: jeden Tag)</Label>
+        <div className="flex flex-wrap gap-2">
+          {weekdayOrder.map((day) => (
+            <Button
+              key={day}
+              type="button"
+              size="sm"
+              variant={weekdays.includes(day) ? "default" : "outline"}
+              onClick={() => setWeekdays(toggle(weekdays, day))}
+            >
+              {weekdayNames[day]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="pricing-link">Nur während</Label>
+        <select
+          id="pricing-link"
+          value={linkKind}
+          onChange={(e) => {
+            setLinkKind(e.target.value as LinkKind)
+            setLinkId("")
+          }}
+          className="h-10 w-full rounded-md border border-gray-300 bg-background px-2"
+        >
+          <option value="">immer</option>
+          <option value="screening">einer Übertragung</option>
+          <option value="event">einer Veranstaltung</option>
+        </select>
+      </div>
+      {linkKind && (
+        <div className="md:col-span-3 space-y-1">
+          <Label htmlFor="pricing-link-id">{linkKind === "screening" ? "Spiel" : "Veranstaltung"}</Label>
+          <select
+            id="pricing-link-id"
+            value={linkId}
+            onChange={(e) => setLinkId(e.target.value)}
+            className="h-10 w-full rounded-md border border-gray-300 bg-background px-2"
+          >
+            <option value="">{linkKind === "screening" ? "jede Übertragung" : "jede Veranstaltung"}</option>
+            {linkKind === "screening"
+              ? screenings.map((screening) => (
+                  <option key={screening.matchId} value={screening.matchId}>
+                    {screeningTitle(screening)} ({new Date(screening.kickoff).toLocaleDateString("de-DE")})
+                  </option>
+                ))
+              : events.map((event) => (
+                  <option key={event.id} value={event.id}>
+                    {event.title} ({event.recurrence ? `ab ${event.date}` : event.date})
+                  </option>
+                ))}
+          </select>
+        </div>
+      )}
+
+      <div className="md:col-span-4 space-y-1">
+        <Label>Kategorien (weder Kategorie noch Artikel ausgewählt: ganze Karte)</Label>
+        <div className="flex flex-wrap gap-2">
+          {categories.map((category) => (
+            <Button
+              key={category.id}
+              type="button"
+              size="sm"
+              variant={categoryIds.includes(category.id) ? "default" : "outline"}
+              onClick={() => setCategoryIds(toggle(categoryIds, category.id))}
+            >
+              {category.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="md:col-span-4 space-y-1">
+        <Label htmlFor="pricing-item">Einzelne Artikel</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          {itemIds.map((id) => {
+            const item = items.find((entry) => entry.id === id)
+            return (
+              <span key={id} className="flex items-center gap-1 rounded-full border px-3 py-1 text-sm">
+                {item ? `${item.title} ${formatServing(item.serving)}`.trim() : id}
+                <button type="button" aria-label="Entfernen" onClick={() => setItemIds(toggle(itemIds, id))}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )
+          })}
+          <select
+            id="pricing-item"
+            value=""
+            onChange={(e) => e.target.value && setItemIds(toggle(itemIds, e.target.value))}
+            className="h-10 rounded-md border border-gray-300 bg-background px-2"
+          >
+            <option value="">Artikel hinzufügen…</option>
+            {items
+              .filter((item) => !itemIds.includes(item.id))
+              .map((item) => (
+                <option key={item.id} value={item.id}>
+                  {`${item.title} ${formatServing(item.serving)}`.trim()}
+                </option>
+              ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="pricing-mode">Preis</Label>
+        <select
+          id="pricing-mode"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as "percent" | "fixed")}
+          className="h-10 w-full rounded-md border border-gray-300 bg-background px-2"
+        >
+          <option value="percent">Rabatt in Prozent</option>
+          <option value="fixed">Festpreis in Euro</option>
+        </select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="pricing-amount">{mode === "percent" ? "Prozent" : "Euro"}</Label>
+        <Input
+          id="pricing-amount"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={mode === "percent" ? "20" : "2,50"}
+          required
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id="pricing-active" checked={active} onCheckedChange={setActive} />
+        <Label htmlFor="pricing-active">Aktiv</Label>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving}>
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Abbrechen
+          </Button>
+        )}
+      </div>
+      {error && <p className="md:col-span-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  )
+}
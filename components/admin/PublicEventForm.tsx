@@ -0,0 +1,248 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import type {
+  EventAdmission,
+  EventRecurrence,
+  PublicEvent,
+  PublicEventCategory,
+  PublicEventInput,
+} from "../../types/public-event"
+import { parsePrice } from "../../lib/menu"
+import { admissionLabels, categoryLabels } from "../../lib/public-events"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Switch } from "@/components/lightswind/switch"
+import { Textarea } from "@/components/lightswind/textarea"
+
+interface PublicEventFormProps {
+  initial?: PublicEvent
+  submitLabel: string
+  onSubmit: (input: PublicEventInput) => Promise<void>
+  onCancel?: () => void
+}
+
+// "" = once, "weekly" = every n weeks, 1…4 / -1 = that weekday of each month
+type RepeatChoice = "" | "weekly" | "1" | "2" | "3" | "4" | "-1"
+
+const selectClassName = "h-10 w-full rounded-md border border-gray-300 bg-background px-2"
+
+function repeatChoice(recurrence?: EventRecurrence): RepeatChoice {
+  if (!recurrence) return ""
+  return recurrence.kind === "weekly" ? "weekly" : (String(recurrence.week) as RepeatChoice)
+}
+
+export default function PublicEventForm({ initial, submitLabel, onSubmit, onCancel }: PublicEventFormProps) {
+  const [title, setTitle] = useState(initial?.title ?? "")
+  const [description, setDescription] = useState(initial?.description ?? "")
+  const [image, setImage] = useState(initial?.image ?? "")
+  const [category, setCategory] = useState<PublicEventCategory>(initial?.category ?? "quiz")
+  const [date, setDate] = useState(initial?.date ?? "")
+  const [starts, setStarts] = useState(initial?.starts ?? "20:00")
+  const [ends, setEnds] = useState(initial?.ends ?? "")
+  const [repeat, setRepeat] = useState<RepeatChoice>(repeatChoice(initial?.recurrence))
+  const [weekInterval, setWeekInterval] = useState(
+    initial?.recurrence?.kind === "weekly" ? String(initial.recurrence.interval) : "1",
+  )
+  const [until, setUntil] = useState(initial?.recurrence?.until ?? "")
+  const [admission, setAdmission] = useState<EventAdmission>(initial?.admission ?? "free")
+  const [ticketUrl, setTicketUrl] = useState(initial?.ticketUrl ?? "")
+  const [price, setPrice] = useState(initial?.priceCents !== undefined ? (initial.priceCents / 100).toFixed(2) : "")
+  const [published, setPublished] = useState(initial?.published ?? false)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+
+    const priceCents = price.trim() ? parsePrice(price) : undefined
+    if (priceCents === null) {
+      setError("Preis bitte als Zahl angeben, z.B. 5 oder 12,50")
+      return
+    }
+    const series = until ? { until } : {}
+    const recurrence: EventRecurrence | undefined =
+      repeat === ""
+        ? undefined
+        : repeat === "weekly"
+          ? { kind: "weekly", interval: Number(weekInterval), ...series }
+          : { kind: "monthly", week: Number(repeat) as 1 | 2 | 3 | 4 | -1, ...series }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await onSubmit({
+        title,
+        description,
+        ...(image.trim() ? { image } : {}),
+        category,
+        date,
+        starts,
+        ...(ends ? { ends } : {}),
+        ...(recurrence ? { recurrence } : {}),
+        admission,
+        ...(admission === "ticket" && ticketUrl.trim() ? { ticketUrl } : {}),
+        ...(priceCents !== undefined ? { priceCents } : {}),
+        published,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4 items-end">
+      <div className="md:col-span-3 space-y-1">
+        <Label htmlFor="public-event-title">Titel</Label>
+        <Input
+          id="public-event-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Pub-Quiz"
+          required
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="public-event-category">Kategorie</Label>
+        <select
+          id="public-event-category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value as PublicEventCategory)}
+          className={selectClassName}
+        >
+          {(Object.keys(categoryLabels) as PublicEventCategory[]).map((key) => (
+            <option key={key} value={key}>
+              {categoryLabels[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="md:col-span-4 space-y-1">
+        <Label htmlFor="public-event-description">Beschreibung</Label>
+        <Textarea
+          id="public-event-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={4}
+          required
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="public-event-date">{repeat ? "Erster Termin" : "Datum"}</Label>
+        <Input id="public-event-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="public-event-starts">Beginn</Label>
+        <Input
+          id="public-event-starts"
+          type="time"
+          value={starts}
+          onChange={(e) => setStarts(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="public-event-ends">Ende (optional)</Label>
+        <Input id="public-event-ends" type="time" value={ends} onChange={(e) => setEnds(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="public-event-image">Bild (optional)</Label>
+        <Input
+          id="public-event-image"
+          value={image}
+          onChange={(e) => setImage(e.target.value)}
+          placeholder="/Crowdparty.png"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="public-event-repeat">Wiederholung</Label>
+        <select
+          id="public-event-repeat"
+          value={repeat}
+          onChange={(e) => setRepeat(e.target.value as RepeatChoice)}
+          className={selectClassName}
+        >
+          <option value="">einmalig</option>
+          <option value="weekly">wöchentlich</option>
+          <option value="1">jeden ersten Wochentag im Monat</option>
+          <option value="2">jeden zweiten Wochentag im Monat</option>
+          <option value="3">jeden dritten Wochentag im Monat</option>
+          <option value="4">jeden vierten Wochentag im Monat</option>
+          <option value="-1">jeden letzten Wochentag im Monat</option>
+        </select>
+      </div>
+      {repeat === "weekly" && (
+        <div className="space-y-1">
+          <Label htmlFor="public-event-interval">Alle … Wochen</Label>
+          <Input
+            id="public-event-interval"
+            type="number"
+            min={1}
+            max={8}
+            value={weekInterval}
+            onChange={(e) => setWeekInterval(e.target.value)}
+          />
+        </div>
+      )}
+      {repeat && (
+        <div className="space-y-1">
+          <Label htmlFor="public-event-until">Bis (optional)</Label>
+          <Input id="public-event-until" type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+        </div>
+      )}
+
+      <div className="md:col-start-1 space-y-1">
+        <Label htmlFor="public-event-admission">Eintritt</Label>
+        <select
+          id="public-event-admission"
+          value={admission}
+          onChange={(e) => setAdmission(e.target.value as EventAdmission)}
+          className={selectClassName}
+        >
+          {(Object.keys(admissionLabels) as EventAdmission[]).map((key) => (
+            <option key={key} value={key}>
+              {admissionLabels[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="public-event-price">Preis in Euro (optional)</Label>
+        <Input id="public-event-price" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="5" />
+      </div>
+      {admission === "ticket" && (
+        <div className="md:col-span-2 space-y-1">
+          <Label htmlFor="public-event-ticket">Ticket-Link</Label>
+          <Input
+            id="public-event-ticket"
+            value={ticketUrl}
+            onChange={(e) => setTicketUrl(e.target.value)}
+            placeholder="https://"
+          />
+        </div>
+      )}
+
+      <div className="md:col-start-1 flex items-center gap-2">
+        <Switch id="public-event-published" checked={published} onCheckedChange={setPublished} />
+        <Label htmlFor="public-event-published">Veröffentlicht</Label>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving}>
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Abbrechen
+          </Button>
+        )}
+      </div>
+      {error && <p className="md:col-span-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  )
+}
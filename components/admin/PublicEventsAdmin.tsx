@@ -0,0 +1,153 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { PublicEvent, PublicEventInput } from "../../types/public-event"
+import { admissionLabels, categoryLabels, describeRecurrence, formatEventDate } from "../../lib/public-events"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Badge } from "@/components/lightswind/badge"
+import PublicEventForm from "./PublicEventForm"
+
+export default function PublicEventsAdmin() {
+  const [events, setEvents] = useState<PublicEvent[] | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setEvents(await sendJson<PublicEvent[]>("/api/admin/public-events", "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null)
+      await action()
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const create = async (input: PublicEventInput) => {
+    await sendJson("/api/admin/public-events", "POST", input)
+    await load()
+  }
+
+  // Sends null for the optional fields the form left empty.
+  const update = async (event: PublicEvent, input: PublicEventInput) => {
+    await sendJson(`/api/admin/public-events/${event.id}`, "PATCH", {
+      image: null,
+      ends: null,
+      recurrence: null,
+      ticketUrl: null,
+      priceCents: null,
+      ...input,
+    })
+    setEditingId(null)
+    await load()
+  }
+
+  if (!events) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">Fehler beim Laden der Events: {error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2">Lade Events...</span>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Programm</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {events.map((event) =>
+            editingId === event.id ? (
+              <PublicEventForm
+                key={event.id}
+                initial={event}
+                submitLabel="Speichern"
+                onSubmit={(input) => update(event, input)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div key={event.id} className="flex flex-wrap items-center gap-4 border-b pb-3">
+                <div className="flex-1">
+                  <p className="font-medium">
+                    {event.title} <span className="text-muted-foreground">· {categoryLabels[event.category]}</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {[
+                      formatEventDate(event, event.date),
+                      event.recurrence && describeRecurrence(event.recurrence, event.date),
+                      admissionLabels[event.admission],
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <Badge variant={event.published ? "success" : "secondary"}>
+                  {event.published ? "Veröffentlicht" : "Entwurf"}
+                </Badge>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(event.id)}>
+                  Bearbeiten
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() =>
+                    run(() => sendJson(`/api/admin/public-events/${event.id}`, "PATCH", { published: !event.published }))
+                  }
+                >
+                  {event.published ? "Zurückziehen" : "Veröffentlichen"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => {
+                    if (window.confirm(`"${event.title}" wirklich löschen?`)) {
+                      run(() => sendJson(`/api/admin/public-events/${event.id}`, "DELETE"))
+                    }
+                  }}
+                >
+                  Löschen
+                </Button>
+              </div>
+            ),
+          )}
+          {events.length === 0 && <p className="text-muted-foreground">Noch keine Events.</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Neues Event</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PublicEventForm key={events.length} submitLabel="Hinzufügen" onSubmit={create} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
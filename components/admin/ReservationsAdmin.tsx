@@ -0,0 +1,98 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { Reservation, ReservationStatus } from "../../types/reservation"
+import { fromIsoDate } from "../../lib/dates"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Badge } from "@/components/lightswind/badge"
+
+const statusLabels: Record<ReservationStatus, string> = {
+  pending: "Offen",
+  confirmed: "Bestätigt",
+  declined: "Abgelehnt",
+}
+
+const statusVariants: Record<ReservationStatus, "warning" | "success" | "destructive"> = {
+  pending: "warning",
+  confirmed: "success",
+  declined: "destructive",
+}
+
+export default function ReservationsAdmin() {
+  const [reservations, setReservations] = useState<Reservation[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setReservations(await sendJson<Reservation[]>("/api/admin/reservations", "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const setStatus = async (reservation: Reservation, status: ReservationStatus) => {
+    try {
+      setError(null)
+      await sendJson(`/api/admin/reservations/${reservation.id}`, "PATCH", { status })
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const byDate = reservations.reduce<Record<string, Reservation[]>>((groups, reservation) => {
+    ;(groups[reservation.date] ??= []).push(reservation)
+    return groups
+  }, {})
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+      {reservations.length === 0 && <p className="text-white">Keine anstehenden Reservierungen.</p>}
+
+      {Object.entries(byDate).map(([date, entries]) => (
+        <Card key={date}>
+          <CardHeader>
+            <CardTitle>
+              {fromIsoDate(date).toLocaleDateString("de-DE", { weekday: "long", day: "numeric", month: "long" })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {entries.map((reservation) => (
+              <div key={reservation.id} className="flex flex-wrap items-center gap-4 border-b pb-3">
+                <span className="font-bold w-14">{reservation.time}</span>
+                <div className="flex-1">
+                  <p className="font-medium">
+                    {reservation.name} · {reservation.partySize} Pers.
+                    {reservation.tableNumber && ` · Tisch ${reservation.tableNumber}`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {reservation.phone} · {reservation.email}
+                  </p>
+                  {reservation.note && <p className="text-sm italic">{reservation.note}</p>}
+                </div>
+                <Badge variant={statusVariants[reservation.status]}>{statusLabels[reservation.status]}</Badge>
+                {reservation.status !== "confirmed" && (
+                  <Button size="sm" onClick={() => setStatus(reservation, "confirmed")}>
+                    Bestätigen
+                  </Button>
+                )}
+                {reservation.status !== "declined" && (
+                  <Button size="sm" variant="destructive" onClick={() => setStatus(reservation, "declined")}>
+                    Ablehnen
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { Match } from "../../types/bundesliga"
+import type { Screening } from "../../types/screening"
+import { competitions, DEFAULT_COMPETITION } from "../../lib/bundesliga"
+import { BAR_TIME_ZONE } from "../../lib/dates"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Switch } from "@/components/lightswind/switch"
+
+interface ScreeningRowProps {
+  match: Match
+  screening?: Screening
+  onChange: (action: () => Promise<unknown>) => Promise<void>
+}
+
+function ScreeningRow({ match, screening, onChange }: ScreeningRowProps) {
+  const [reservationNeeded, setReservationNeeded] = useState(screening?.reservationNeeded ?? false)
+  const [offer, setOffer] = useState(screening?.offer ?? "")
+  const id = `screening-${match.matchID}`
+
+  const save = (shown: boolean, details = { reservationNeeded, offer }) =>
+    onChange(() =>
+      shown
+        ? sendJson("/api/admin/screenings", "POST", { league: match.leagueShortcut, matchId: match.matchID, ...details })
+        : sendJson(`/api/admin/screenings/${match.matchID}`, "DELETE"),
+    )
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 border-b pb-3">
+      <div className="flex-1 min-w-[220px]">
+        <p className="font-medium">
+          {match.team1.teamName} – {match.team2.teamName}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {new Date(match.matchDateTimeUTC).toLocaleString("de-DE", {
+            timeZone: BAR_TIME_ZONE,
+            weekday: "short",
+            day: "2-digit",
+            month: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}{" "}
+          Uhr
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id={`${id}-shown`} checked={Boolean(screening)} onCheckedChange={(shown) => save(shown)} />
+        <Label htmlFor={`${id}-shown`}>Wird gezeigt</Label>
+      </div>
+      {screening && (
+        <>
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${id}-reservation`}
+              checked={reservationNeeded}
+              onCheckedChange={(checked) => {
+                setReservationNeeded(checked)
+                save(true, { reservationNeeded: checked, offer })
+              }}
+            />
+            <Label htmlFor={`${id}-reservation`}>Reservierung nötig</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Angebot"
+              value={offer}
+              onChange={(e) => setOffer(e.target.value)}
+              placeholder="Angebot, z.B. Pitcher 12 Euro"
+              className="w-64"
+            />
+            <Button size="sm" variant="outline" onClick={() => save(true)} disabled={offer === (screening.offer ?? "")}>
+              Speichern
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function ScreeningsAdmin() {
+  const [league, setLeague] = useState(DEFAULT_COMPETITION)
+  const [matches, setMatches] = useState<Match[] | null>(null)
+  const [screenings, setScreenings] = useState<Screening[]>([])
+  const [round, setRound] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadScreenings = useCallback(async () => {
+    setScreenings(await sendJson<Screening[]>("/api/admin/screenings", "GET"))
+  }, [])
+
+  useEffect(() => {
+    setMatches(null)
+    setRound(null)
+    setError(null)
+    Promise.all([sendJson<Match[]>(`/bundesliga-standings?data=matches&league=${league}`, "GET"), loadScreenings()])
+      .then(([season]) => setMatches(season))
+      .catch((err) => setError(err instanceof Error ? err.message : "An error occurred"))
+  }, [league, loadScreenings])
+
+  // Matchdays or rounds that still have games to come
+  const rounds = useMemo(() => {
+    const names = new Map<number, string>()
+    for (const match of matches ?? []) {
+      if (!match.matchIsFinished) names.set(match.group.groupOrderID, match.group.groupName)
+    }
+    return Array.from(names).sort(([a], [b]) => a - b)
+  }, [matches])
+  const selected = round ?? rounds[0]?.[0]
+  const shown = new Map(screenings.map((screening) => [screening.matchId, screening]))
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null)
+      await action()
+      await loadScreenings()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const switcher = (
+    <div className="flex flex-wrap gap-2">
+      {competitions.map((competition) => (
+        <Button
+          key={competition.shortcut}
+          size="sm"
+          variant={competition.shortcut === league ? "default" : "outline"}
+          onClick={() => setLeague(competition.shortcut)}
+        >
+          {competition.name}
+        </Button>
+      ))}
+    </div>
+  )
+
+  if (!matches) {
+    return (
+      <div className="space-y-6">
+        {switcher}
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            {error ? (
+              <p className="text-red-600 dark:text-red-400">Fehler beim Laden des Spielplans: {error}</p>
+            ) : (
+              <>
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <span className="ml-2">Lade Spielplan...</span>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {switcher}
+
+      <div className="flex flex-wrap gap-2">
+        {rounds.map(([order, name]) => (
+          <Button key={order} size="sm" variant={order === selected ? "default" : "outline"} onClick={() => setRound(order)}>
+            {name}
+          </Button>
+        ))}
+      </div>
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{rounds.find(([order]) => order === selected)?.[1] ?? "Keine offenen Spiele"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {matches
+            .filter((match) => match.group.groupOrderID === selected && !match.matchIsFinished)
+            .map((match) => (
+              <ScreeningRow
+                key={`${match.matchID}-${shown.has(match.matchID)}`}
+                match={match}
+                screening={shown.get(match.matchID)}
+                onChange={run}
+              />
+            ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
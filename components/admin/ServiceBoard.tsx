@@ -0,0 +1,168 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { ServiceRequest, ServiceRequestStatus } from "../../types/table-service"
+import { BAR_TIME_ZONE } from "../../lib/dates"
+import { formatPrice } from "../../lib/menu"
+import { sendJson } from "../../lib/client-api"
+import { nextServiceStatus, orderTotal, serviceKindLabels, serviceStatusLabels } from "../../lib/table-service"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Badge } from "@/components/lightswind/badge"
+import AnimatedNotification, { type NotificationItem } from "@/components/lightswind/animated-notification"
+
+// Incoming requests pop up for this long unless dismissed earlier.
+const ALERT_MS = 10_000
+
+const nextStepLabels: Partial<Record<ServiceRequestStatus, string>> = {
+  acknowledged: "Gesehen",
+  done: "Erledigt",
+}
+
+function toAlert(request: ServiceRequest): NotificationItem {
+  const items = request.lines.map((line) => `${line.quantity} × ${line.title}`).join(", ")
+  return {
+    id: request.id,
+    user: { name: `Tisch ${request.tableNumber}`, initials: String(request.tableNumber), color: "#b45309" },
+    message: items ? `${serviceKindLabels[request.kind]}: ${items}` : serviceKindLabels[request.kind],
+    timestamp: new Date(request.createdAt).toLocaleTimeString("de-DE", {
+      timeZone: BAR_TIME_ZONE,
+      hour: "2-digit",
+      minute: "2-digit",
+    }),
+    priority: request.kind === "order" ? "medium" : "high",
+    type: "info",
+  }
+}
+
+export default function ServiceBoard() {
+  const [requests, setRequests] = useState<ServiceRequest[]>([])
+  const [alerts, setAlerts] = useState<NotificationItem[]>([])
+  const [connected, setConnected] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setRequests(await sendJson<ServiceRequest[]>("/api/admin/service", "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  const dismissAlert = useCallback((id: string) => {
+    setAlerts((current) => current.filter((alert) => alert.id !== id))
+  }, [])
+
+  useEffect(() => {
+    load()
+
+    const source = new EventSource("/api/admin/service/stream")
+    source.onopen = () => {
+      setConnected(true)
+      // whatever came in while the connection was down
+      load()
+    }
+    source.onerror = () => setConnected(false)
+    source.onmessage = (event) => {
+      const request: ServiceRequest = JSON.parse(event.data)
+      setRequests((current) => [
+        ...current.filter((entry) => entry.id !== request.id),
+        ...(request.status === "done" ? [] : [request]),
+      ])
+      if (request.status === "open") {
+        setAlerts((current) => [...current.filter((alert) => alert.id !== request.id), toAlert(request)])
+        setTimeout(() => dismissAlert(request.id), ALERT_MS)
+      } else {
+        dismissAlert(request.id)
+      }
+    }
+
+    return () => source.close()
+  }, [load, dismissAlert])
+
+  const advance = async (request: ServiceRequest, status: ServiceRequestStatus) => {
+    try {
+      setError(null)
+      await sendJson(`/api/admin/service/${request.id}`, "PATCH", { status })
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const tables = Array.from(new Set(requests.map((request) => request.tableNumber))).sort((a, b) => a - b)
+
+  return (
+    <div className="space-y-6">
+      {/* The notification keeps its last list when handed an empty one, so it is remounted instead. */}
+      <AnimatedNotification
+        key={alerts.length > 0 ? "alerts" : "empty"}
+        notifications={alerts}
+        autoGenerate={false}
+        position="top-right"
+        showAvatars
+        onNotificationDismiss={(alert) => dismissAlert(alert.id)}
+      />
+
+      <div className="flex items-center gap-3">
+        <Badge variant={connected ? "success" : "destructive"} withDot>
+          {connected ? "Live verbunden" : "Keine Verbindung, versuche es erneut"}
+        </Badge>
+        {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      {tables.length === 0 && <p className="text-white">Alle Tische sind versorgt.</p>}
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {tables.map((tableNumber) => (
+          <Card key={tableNumber}>
+            <CardHeader>
+              <CardTitle>Tisch {tableNumber}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {requests
+                .filter((request) => request.tableNumber === tableNumber)
+                .map((request) => {
+                  const next = nextServiceStatus(request.status)
+                  return (
+                    <div key={request.id} className="space-y-2 border-b pb-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium">{serviceKindLabels[request.kind]}</p>
+                        <Badge variant={request.status === "open" ? "warning" : "secondary"}>
+                          {serviceStatusLabels[request.status]}
+                        </Badge>
+                      </div>
+                      {request.lines.length > 0 && (
+                        <ul className="text-sm">
+                          {request.lines.map((line) => (
+                            <li key={line.itemId}>
+                              {line.quantity} × {line.title}
+                            </li>
+                          ))}
+                          <li className="font-semibold">{formatPrice(orderTotal(request.lines))}</li>
+                        </ul>
+                      )}
+                      {request.note && <p className="text-sm italic">{request.note}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(request.createdAt).toLocaleTimeString("de-DE", {
+                          timeZone: BAR_TIME_ZONE,
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}{" "}
+                        Uhr
+                      </p>
+                      {next && (
+                        <Button size="sm" onClick={() => advance(request, next)}>
+                          {nextStepLabels[next]}
+                        </Button>
+                      )}
+                    </div>
+                  )
+                })}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,414 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { CalendarPlus, ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import type { PlannedShift, ShiftAssignment, WeekPlan } from "../../types/shift-plan"
+import { addDays, fromIsoDate } from "../../lib/dates"
+import { weekdayNames } from "../../lib/opening-hours"
+import { hasRole } from "../../lib/roles"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Badge } from "@/components/lightswind/badge"
+import { Input } from "@/components/lightswind/input"
+
+const selectClassName = "h-9 rounded-md border border-gray-300 bg-background px-2 text-sm"
+
+function dayLabel(date: string) {
+  return fromIsoDate(date).toLocaleDateString("de-DE", { weekday: "long", day: "numeric", month: "long" })
+}
+
+function shortDay(date: string) {
+  return fromIsoDate(date).toLocaleDateString("de-DE", { weekday: "short", day: "2-digit", month: "2-digit" })
+}
+
+// The duty roster of one week: the captain assigns crew to the shifts the
+// opening hours, screenings and private events call for; the crew enters
+// availability and offers shifts to colleagues.
+export default function ShiftPlanner() {
+  const [from, setFrom] = useState<string | undefined>()
+  const [plan, setPlan] = useState<WeekPlan | null>(null)
+  const [picks, setPicks] = useState<Record<string, string>>({})
+  const [swapping, setSwapping] = useState<{ assignmentId: string; toUserId: string } | null>(null)
+  const [calendarUrl, setCalendarUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setPlan(await sendJson<WeekPlan>(`/api/admin/dienstplan${from ? `?from=${from}` : ""}`, "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [from])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null)
+      await action()
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const showCalendarLink = () =>
+    run(async () => {
+      const { url } = await sendJson<{ url: string }>("/api/admin/dienstplan/calendar", "GET")
+      setCalendarUrl(url)
+    })
+
+  if (!plan) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">Fehler beim Laden des Dienstplans: {error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2">Lade Dienstplan...</span>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { me } = plan
+  const isCaptain = hasRole(me.role, "captain")
+  const isCrew = hasRole(me.role, "staff")
+  const days = Array.from({ length: 7 }, (_, offset) => addDays(plan.from, offset))
+  const nameOf = (userId: string) => plan.crew.find((member) => member.id === userId)?.name ?? "Ehemalige Crew"
+  const availabilityOf = (userId: string, date: string) =>
+    plan.availability.find((entry) => entry.userId === userId && entry.date === date)
+  const pendingSwap = (assignment: ShiftAssignment) =>
+    plan.swaps.find((swap) => swap.assignmentId === assignment.id)
+  const assignmentOf = (assignmentId: string) =>
+    [...plan.shifts.flatMap((shift) => shift.assignments), ...plan.unplanned].find(
+      (assignment) => assignment.id === assignmentId,
+    )
+
+  const assign = (shift: PlannedShift) => {
+    const key = `${shift.date} ${shift.starts}`
+    return run(async () => {
+      await sendJson("/api/admin/dienstplan/assignments", "POST", {
+        userId: picks[key],
+        date: shift.date,
+        starts: shift.starts,
+      })
+      setPicks((current) => ({ ...current, [key]: "" }))
+    })
+  }
+
+  const requestSwap = () =>
+    run(async () => {
+      if (!swapping) return
+      await sendJson("/api/admin/dienstplan/swaps", "POST", swapping)
+      setSwapping(null)
+    })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button size="sm" variant="outline" onClick={() => setFrom(addDays(plan.from, -7))} aria-label="Vorige Woche">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-lg font-medium text-white">
+          {shortDay(plan.from)} – {shortDay(plan.to)}
+        </span>
+        <Button size="sm" variant="outline" onClick={() => setFrom(addDays(plan.from, 7))} aria-label="Nächste Woche">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" className="text-white" onClick={() => setFrom(undefined)}>
+          Diese Woche
+        </Button>
+      </div>
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      {plan.swaps.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Tauschanfragen</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {plan.swaps.map((swap) => {
+              const assignment = assignmentOf(swap.assignmentId)
+              return (
+                <div key={swap.id} className="flex flex-wrap items-center gap-3 border-b pb-3">
+                  <div className="flex-1">
+                    <p className="font-medium">
+                      {nameOf(swap.fromUserId)} → {nameOf(swap.toUserId)}
+                      {assignment && ` · ${shortDay(assignment.date)} ${assignment.starts}–${assignment.ends}`}
+                    </p>
+                    {swap.note && <p className="text-sm italic">{swap.note}</p>}
+                  </div>
+                  {isCaptain && (
+                    <>
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          run(() => sendJson(`/api/admin/dienstplan/swaps/${swap.id}`, "PATCH", { status: "approved" }))
+                        }
+                      >
+                        Genehmigen
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() =>
+                          run(() => sendJson(`/api/admin/dienstplan/swaps/${swap.id}`, "PATCH", { status: "declined" }))
+                        }
+                      >
+                        Ablehnen
+                      </Button>
+                    </>
+                  )}
+                  {swap.fromUserId === me.id && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        run(() => sendJson(`/api/admin/dienstplan/swaps/${swap.id}`, "PATCH", { status: "withdrawn" }))
+                      }
+                    >
+                      Zurückziehen
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {days.map((date) => {
+        const shifts = plan.shifts.filter((shift) => shift.date === date)
+        const unplanned = plan.unplanned.filter((assignment) => assignment.date === date)
+        const mine = availabilityOf(me.id, date)
+        return (
+          <Card key={date}>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3">
+              <CardTitle>{dayLabel(date)}</CardTitle>
+              {isCrew && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Ich kann:</span>
+                  <Button
+                    size="sm"
+                    variant={mine?.available === true ? "default" : "outline"}
+                    onClick={() =>
+                      run(() => sendJson("/api/admin/dienstplan/availability", "PUT", { date, available: true }))
+                    }
+                  >
+                    Ja
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={mine?.available === false ? "destructive" : "outline"}
+                    onClick={() =>
+                      run(() => sendJson("/api/admin/dienstplan/availability", "PUT", { date, available: false }))
+                    }
+                  >
+                    Nein
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {shifts.length === 0 && <p className="text-muted-foreground">Keine Schicht, der Anker bleibt zu.</p>}
+              {unplanned.length > 0 && (
+                <div className="space-y-1 border-b pb-3">
+                  <Badge variant="warning">Eingeteilt, aber die Schicht gibt es nicht mehr</Badge>
+                  <ul className="space-y-1">
+                    {unplanned.map((assignment) => (
+                      <li key={assignment.id} className="flex flex-wrap items-center gap-2">
+                        <span className="w-28 font-bold">
+                          {assignment.starts}–{assignment.ends}
+                        </span>
+                        <span className="flex-1">{nameOf(assignment.userId)}</span>
+                        {isCaptain && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() =>
+                              run(() => sendJson(`/api/admin/dienstplan/assignments/${assignment.id}`, "DELETE"))
+                            }
+                          >
+                            Austragen
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {shifts.map((shift) => {
+                const key = `${shift.date} ${shift.starts}`
+                const assigned = new Set(shift.assignments.map((assignment) => assignment.userId))
+                return (
+                  <div key={key} className="space-y-2 border-b pb-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="w-28 font-bold">
+                        {shift.starts}–{shift.ends}
+                      </span>
+                      <Badge variant={shift.assignments.length >= shift.expectedStaff ? "success" : "warning"}>
+                        {shift.assignments.length} von {shift.expectedStaff}
+                      </Badge>
+                      {shift.reasons.map((reason) => (
+                        <Badge key={reason} variant="secondary">
+                          {reason}
+                        </Badge>
+                      ))}
+                    </div>
+
+                    <ul className="space-y-1">
+                      {shift.assignments.map((assignment) => {
+                        const swap = pendingSwap(assignment)
+                        return (
+                          <li key={assignment.id} className="flex flex-wrap items-center gap-2">
+                            <span className="flex-1">{nameOf(assignment.userId)}</span>
+                            {(assignment.starts !== shift.starts || assignment.ends !== shift.ends) && (
+                              <Badge variant="secondary">
+                                eingeteilt für {assignment.starts}–{assignment.ends}
+                              </Badge>
+                            )}
+                            {swap && <Badge variant="warning">Tausch mit {nameOf(swap.toUserId)} angefragt</Badge>}
+                            {assignment.userId === me.id && !swap && swapping?.assignmentId !== assignment.id && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setSwapping({ assignmentId: assignment.id, toUserId: "" })}
+                              >
+                                Tauschen
+                              </Button>
+                            )}
+                            {swapping?.assignmentId === assignment.id && (
+                              <>
+                                <select
+                                  value={swapping.toUserId}
+                                  onChange={(e) => setSwapping({ ...swapping, toUserId: e.target.value })}
+                                  className={selectClassName}
+                                >
+                                  <option value="">Mit wem?</option>
+                                  {plan.crew
+                                    .filter((member) => !assigned.has(member.id))
+                                    .map((member) => (
+                                      <option
+                                        key={member.id}
+                                        value={member.id}
+                                        disabled={availabilityOf(member.id, date)?.available === false}
+                                      >
+                                        {member.name}
+                                      </option>
+                                    ))}
+                                </select>
+                                <Button size="sm" disabled={!swapping.toUserId} onClick={requestSwap}>
+                                  Anfragen
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setSwapping(null)}>
+                                  Abbrechen
+                                </Button>
+                              </>
+                            )}
+                            {isCaptain && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() =>
+                                  run(() => sendJson(`/api/admin/dienstplan/assignments/${assignment.id}`, "DELETE"))
+                                }
+                              >
+                                Austragen
+                              </Button>
+                            )}
+                          </li>
+                        )
+                      })}
+                    </ul>
+
+                    {isCaptain && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select
+                          value={picks[key] ?? ""}
+                          onChange={(e) => setPicks((current) => ({ ...current, [key]: e.target.value }))}
+                          className={selectClassName}
+                        >
+                          <option value="">Crew-Mitglied wählen</option>
+                          {plan.crew
+                            .filter((member) => !assigned.has(member.id))
+                            .map((member) => {
+                              const availability = availabilityOf(member.id, date)
+                              return (
+                                <option key={member.id} value={member.id} disabled={availability?.available === false}>
+                                  {member.name}
+                                  {availability?.available === true && " ✓ kann"}
+                                  {availability?.available === false && " – kann nicht"}
+                                </option>
+                              )
+                            })}
+                        </select>
+                        <Button size="sm" disabled={!picks[key]} onClick={() => assign(shift)}>
+                          Einteilen
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Wochenvorlage</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          <p className="text-sm text-muted-foreground">
+            Aus den Öffnungszeiten, mit Aufbau und Aufräumen. Spiele in der Sportarena und geschlossene Gesellschaften
+            erhöhen die Besetzung automatisch.
+          </p>
+          {plan.template.map((entry) => (
+            <p key={`${entry.weekday} ${entry.starts}`}>
+              <span className="inline-block w-10 font-bold">{weekdayNames[entry.weekday]}</span>
+              {entry.starts}–{entry.ends} · {entry.expectedStaff} Personen
+            </p>
+          ))}
+        </CardContent>
+      </Card>
+
+      {isCrew && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Mein Kalender</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Abonniere deine Schichten im Handy-Kalender. Der Link ist persönlich, gib ihn nicht weiter.
+            </p>
+            {calendarUrl ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Input readOnly value={calendarUrl} onFocus={(e) => e.target.select()} className="flex-1" />
+                <Button asChild size="sm">
+                  <a href={calendarUrl.replace(/^https?:/, "webcal:")}>
+                    <CalendarPlus className="mr-2 h-4 w-4" />
+                    Abonnieren
+                  </a>
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" variant="outline" onClick={showCalendarLink}>
+                Kalender-Link anzeigen
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { Table } from "../../types/reservation"
+import { Button } from "@/components/lightswind/button"
+import QrCode from "../QrCode"
+
+interface TableQrSheetProps {
+  tables: Table[]
+}
+
+// The links point at the host the sheet is printed from, so a sheet printed
+// on a preview deployment leads to the preview.
+export default function TableQrSheet({ tables }: TableQrSheetProps) {
+  const [origin, setOrigin] = useState<string | null>(null)
+
+  useEffect(() => {
+    setOrigin(window.location.origin)
+  }, [])
+
+  if (!origin) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4 print:hidden">
+        <Button onClick={() => window.print()}>Drucken</Button>
+        <p className="text-sm text-white">Ein Aufsteller pro Tisch, die Codes führen zu {origin}/tisch/…</p>
+      </div>
+      <div className="grid grid-cols-2 gap-6 md:grid-cols-3 print:grid-cols-3 print:gap-4">
+        {tables.map((table) => {
+          const url = `${origin}/tisch/${table.number}`
+          return (
+            <div
+              key={table.number}
+              className="flex flex-col items-center rounded-md bg-white p-4 text-center text-black break-inside-avoid"
+            >
+              <p className="text-2xl font-bold">Tisch {table.number}</p>
+              <p className="text-sm">{table.area}</p>
+              <QrCode value={url} title={`Karte für Tisch ${table.number}`} className="my-3 w-40 h-40" />
+              <p className="text-sm font-medium">Scannen für unsere Karte</p>
+              <p className="text-xs text-gray-500 break-all">{url}</p>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { CrewUser } from "../../types/auth"
+import type { CrewProfile, CrewProfileInput } from "../../types/team"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import CrewProfileForm from "./CrewProfileForm"
+
+type ProfileInput = CrewProfileInput & { userId?: string | null }
+
+export default function TeamAdmin() {
+  const [crew, setCrew] = useState<CrewProfile[] | null>(null)
+  const [users, setUsers] = useState<CrewUser[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const [profiles, accounts] = await Promise.all([
+        sendJson<CrewProfile[]>("/api/admin/team", "GET"),
+        sendJson<CrewUser[]>("/api/admin/users", "GET"),
+      ])
+      setCrew(profiles)
+      setUsers(accounts.filter((user) => user.role !== "fan"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const create = async (input: ProfileInput) => {
+    await sendJson("/api/admin/team", "POST", input)
+    await load()
+  }
+
+  const update = async (profile: CrewProfile, input: ProfileInput) => {
+    await sendJson(`/api/admin/team/${profile.id}`, "PATCH", input)
+    setEditingId(null)
+    await load()
+  }
+
+  const remove = async (profile: CrewProfile) => {
+    if (!window.confirm(`${profile.name} wirklich aus der Crew nehmen?`)) return
+    try {
+      setError(null)
+      await sendJson(`/api/admin/team/${profile.id}`, "DELETE")
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  if (!crew) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          {error ? (
+            <p className="text-red-600 dark:text-red-400">Fehler beim Laden der Crew: {error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2">Lade Crew...</span>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Crew</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {crew.map((profile) =>
+            editingId === profile.id ? (
+              <CrewProfileForm
+                key={profile.id}
+                initial={profile}
+                users={users}
+                submitLabel="Speichern"
+                onSubmit={(input) => update(profile, input)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div key={profile.id} className="flex flex-wrap items-center gap-4 border-b pb-3">
+                <img src={profile.photo} alt="" className="h-12 w-12 rounded-full object-cover" />
+                <div className="flex-1">
+                  <p className="font-medium">
+                    {profile.name} <span className="text-muted-foreground">· {profile.role}</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {users.find((user) => user.id === profile.userId)?.email ?? "kein Zugang verknüpft"}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(profile.id)}>
+                  Bearbeiten
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => remove(profile)}>
+                  Entfernen
+                </Button>
+              </div>
+            ),
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Neues Crew-Mitglied</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CrewProfileForm key={crew.length} users={users} submitLabel="Hinzufügen" onSubmit={create} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { CrewUser, Role } from "../../types/auth"
+import { roleLabels, roles } from "../../lib/roles"
+import { sendJson } from "../../lib/client-api"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import CrewMemberForm, { type CrewMemberValues } from "../auth/CrewMemberForm"
+
+export default function UsersAdmin() {
+  const [users, setUsers] = useState<CrewUser[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setUsers(await sendJson<CrewUser[]>("/api/admin/users", "GET"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const create = async (values: CrewMemberValues) => {
+    await sendJson("/api/admin/users", "POST", values)
+    await load()
+  }
+
+  const changeRole = async (user: CrewUser, role: Role) => {
+    try {
+      setError(null)
+      await sendJson(`/api/admin/users/${user.id}`, "PATCH", { role })
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Crew</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {users.map((user) => (
+            <div key={user.id} className="flex flex-wrap items-center gap-4 border-b pb-3">
+              <div className="flex-1">
+                <p className="font-medium">{user.name}</p>
+                <p className="text-sm text-muted-foreground">{user.email}</p>
+              </div>
+              <select
+                aria-label={`Rolle von ${user.name}`}
+                value={user.role}
+                onChange={(e) => changeRole(user, e.target.value as Role)}
+                className="h-9 rounded-md border border-gray-300 bg-background px-2"
+              >
+                {roles.map((role) => (
+                  <option key={role} value={role}>
+                    {roleLabels[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Neues Crewmitglied</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CrewMemberForm submitLabel="Anheuern" onSubmit={create} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import type { Role } from "../../types/auth"
+import { roleLabels, roles } from "../../lib/roles"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/lightswind/form"
+import { Input } from "@/components/lightswind/input"
+import { Button } from "@/components/lightswind/button"
+import { PasswordStrengthIndicator, type StrengthLevel } from "@/components/lightswind/password-strength-indicator"
+
+export interface CrewMemberValues {
+  name: string
+  email: string
+  password: string
+  role: Role
+}
+
+interface CrewMemberFormProps {
+  submitLabel: string
+  // the first account is always the captain, so setup hides the role choice
+  showRole?: boolean
+  onSubmit: (values: CrewMemberValues) => Promise<void>
+}
+
+export default function CrewMemberForm({ submitLabel, showRole = true, onSubmit }: CrewMemberFormProps) {
+  const form = useForm<CrewMemberValues>({
+    defaultValues: { name: "", email: "", password: "", role: "staff" },
+  })
+  const [strength, setStrength] = useState<StrengthLevel>("empty")
+  const [error, setError] = useState<string | null>(null)
+  // the strength indicator keeps its own input state, remount it on reset
+  const [resetCount, setResetCount] = useState(0)
+
+  const submit = async (values: CrewMemberValues) => {
+    try {
+      setError(null)
+      await onSubmit(values)
+      form.reset()
+      setResetCount((count) => count + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(submit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          rules={{ required: "Bitte Namen angeben" }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="email"
+          rules={{ required: "Bitte E-Mail angeben" }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>E-Mail</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          rules={{
+            required: "Bitte Passwort angeben",
+            minLength: { value: 8, message: "Mindestens 8 Zeichen" },
+            validate: () => strength !== "weak" || "Das Passwort ist zu schwach",
+          }}
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <PasswordStrengthIndicator
+                  key={resetCount}
+                  value={field.value}
+                  label="Passwort"
+                  placeholder="Neues Passwort"
+                  onChange={field.onChange}
+                  onStrengthChange={setStrength}
+                  inputProps={{ autoComplete: "new-password", onBlur: field.onBlur }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {showRole && (
+          <FormField
+            control={form.control}
+            name="role"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rolle</FormLabel>
+                <FormControl>
+                  <select {...field} className="h-10 w-full rounded-md border border-gray-300 bg-background px-3">
+                    {roles.map((role) => (
+                      <option key={role} value={role}>
+                        {roleLabels[role]}
+                      </option>
+                    ))}
+                  </select>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { signIn } from "next-auth/react"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/lightswind/form"
+import { Input } from "@/components/lightswind/input"
+import { Button } from "@/components/lightswind/button"
+
+interface LoginValues {
+  email: string
+  password: string
+}
+
+interface LoginFormProps {
+  onSuccess: () => void
+}
+
+export default function LoginForm({ onSuccess }: LoginFormProps) {
+  const form = useForm<LoginValues>({ defaultValues: { email: "", password: "" } })
+  const [error, setError] = useState<string | null>(null)
+
+  const onSubmit = async ({ email, password }: LoginValues) => {
+    setError(null)
+    const result = await signIn("credentials", { email, password, redirect: false })
+    if (result?.ok) {
+      onSuccess()
+    } else {
+      setError("E-Mail oder Passwort ist falsch")
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          rules={{ required: "Bitte E-Mail angeben" }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>E-Mail</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          rules={{ required: "Bitte Passwort angeben" }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Passwort</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          Anmelden
+        </Button>
+      </form>
+    </Form>
+  )
+}
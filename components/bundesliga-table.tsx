@@ -3,56 +3,115 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Badge } from "../components/ui/badge"
+import Link from "next/link"
 import { Loader2 } from "lucide-react"
+import type { Match, TeamStanding, ZoneColor } from "../types/bundesliga"
+import {
+  currentScore,
+  currentSeason,
+  DEFAULT_COMPETITION,
+  findCompetition,
+  isLive,
+  liveTable,
+  nextRefreshMs,
+  tableRules,
+  zoneFor,
+} from "../lib/bundesliga"
 
-interface TeamStanding {
-  teamName: string
-  teamIconUrl: string
-  points: number
-  opponentGoals: number
-  goals: number
-  matches: number
-  won: number
-  draw: number
-  lost: number
-  goalDiff: number
+// Browsers cap timers at about 24 days; a far-away kick-off is picked up on
+// the next visit anyway.
+const MAX_WAIT_MS = 6 * 60 * 60 * 1000
+
+// After a failed fetch the next try comes after 15 s, doubling up to 5 min,
+// so a network blip during a matchday does not freeze the table.
+const RETRY_MS = 15 * 1000
+const MAX_RETRY_MS = 5 * 60 * 1000
+
+const zoneColors: Record<ZoneColor, string> = {
+  green: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  blue: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  teal: "bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200",
+  amber: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  orange: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  red: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+}
+const neutralColor = "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200"
+
+interface BundesligaTableProps {
+  // OpenLigaDB shortcut of a league competition
+  competition?: string
 }
 
-export default function BundesligaTable() {
+export default function BundesligaTable({ competition = DEFAULT_COMPETITION }: BundesligaTableProps) {
   const [standings, setStandings] = useState<TeamStanding[]>([])
+  const [matches, setMatches] = useState<Match[]>([])
+  const [seasonMatches, setSeasonMatches] = useState<Match[]>([])
+  const [now, setNow] = useState(() => new Date())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancelled = false
+    let failures = 0
+
     const fetchBundesligaTable = async () => {
       try {
-        setLoading(true)
-        // Using OpenLigaDB API for current Bundesliga season
-        const response = await fetch("https://api.openligadb.de/getbltable/bl1/2025")
+        // OpenLigaDB via our cached proxy, which also picks the current season
+        // the whole season is needed for the head-to-head tie-breaker
+        const [tableResponse, matchdayResponse, seasonResponse] = await Promise.all([
+          fetch(`/bundesliga-standings?data=table&league=${competition}`),
+          fetch(`/bundesliga-standings?data=matchday&league=${competition}`),
+          fetch(`/bundesliga-standings?data=matches&league=${competition}`),
+        ])
 
-        if (!response.ok) {
+        if (!tableResponse.ok || !matchdayResponse.ok || !seasonResponse.ok) {
           throw new Error("Failed to fetch Bundesliga table")
         }
 
-        const data = await response.json()
-        setStandings(data)
+        const matchday: Match[] = await matchdayResponse.json()
+        if (cancelled) return
+        setStandings(await tableResponse.json())
+        setMatches(matchday)
+        setSeasonMatches(await seasonResponse.json())
+        setNow(new Date())
+        setError(null)
+        failures = 0
+
+        // poll only while the matchday is on
+        const wait = nextRefreshMs(matchday)
+        if (wait !== null) timer = setTimeout(fetchBundesligaTable, Math.min(wait, MAX_WAIT_MS))
       } catch (err) {
+        if (cancelled) return
         setError(err instanceof Error ? err.message : "An error occurred")
+        timer = setTimeout(fetchBundesligaTable, Math.min(RETRY_MS * 2 ** failures, MAX_RETRY_MS))
+        failures++
       } finally {
-        setLoading(false)
+        if (!cancelled) setLoading(false)
       }
     }
 
+    setLoading(true)
     fetchBundesligaTable()
-  }, [])
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [competition])
+
+  const running = matches.filter((match) => isLive(match, now))
+  const rules = tableRules(competition, currentSeason())
+  const rows = liveTable(standings, matches, rules, seasonMatches, now)
 
   const getPositionColor = (position: number) => {
-    if (position <= 4) return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-    if (position === 5 || position === 6) return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
-    if (position >= 16) return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
-    return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200"
+    const zone = zoneFor(rules, position)
+    return zone ? zoneColors[zone.color] : neutralColor
   }
 
+  // same colours as the table zones: green for climbing, red for dropping
+  const getChangeColor = (change: number) => (change > 0 ? zoneColors.green : zoneColors.red)
+
   if (loading) {
     return (
       <Card>
@@ -64,7 +123,7 @@ export default function BundesligaTable() {
     )
   }
 
-  if (error) {
+  if (error && standings.length === 0) {
     return (
       <Card>
         <CardContent className="py-12">
@@ -81,10 +140,27 @@ export default function BundesligaTable() {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <span className="text-2xl">⚽</span>
-          Aktuelle Bundesliga Tabelle
+          {running.length > 0 ? "Live-Tabelle" : `Aktuelle ${findCompetition(competition)?.name ?? "Bundesliga"} Tabelle`}
+          {running.length > 0 && <Badge className="bg-red-500 text-white animate-pulse">LIVE</Badge>}
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {running.length > 0 && (
+          <div className="mb-6 grid gap-2 sm:grid-cols-2">
+            {running.map((match) => {
+              const score = currentScore(match)
+              return (
+                <div key={match.matchID} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                  <span className="truncate">{match.team1.shortName || match.team1.teamName}</span>
+                  <span className="mx-2 font-bold">
+                    {score.team1}:{score.team2}
+                  </span>
+                  <span className="truncate text-right">{match.team2.shortName || match.team2.teamName}</span>
+                </div>
+              )
+            })}
+          </div>
+        )}
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
@@ -101,14 +177,24 @@ export default function BundesligaTable() {
               </tr>
             </thead>
             <tbody>
-              {standings.map((team, index) => {
-                const position = index + 1
+              {rows.map((team) => {
+                const position = team.position
+                const change = team.previousPosition - position
                 return (
                   <tr key={team.teamName} className="border-b hover:bg-muted/50 transition-colors">
-                    <td className="py-3 px-2">
+                    <td className="py-3 px-2 whitespace-nowrap">
                       <Badge variant="secondary" className={getPositionColor(position)}>
                         {position}
                       </Badge>
+                      {change !== 0 && (
+                        <Badge
+                          variant="secondary"
+                          className={`ml-1 ${getChangeColor(change)}`}
+                          title={`vorher Platz ${team.previousPosition}`}
+                        >
+                          {change > 0 ? `▲${change}` : `▼${-change}`}
+                        </Badge>
+                      )}
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-3">
@@ -119,7 +205,13 @@ export default function BundesligaTable() {
                             className="w-6 h-6 object-contain"
                           />
                         )}
-                        <span className="font-medium">{team.teamName}</span>
+                        <Link
+                          href={`/sportarena/team/${team.teamInfoId}?league=${competition}`}
+                          className="font-medium hover:underline"
+                        >
+                          {team.teamName}
+                        </Link>
+                        {team.playing && <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" title="spielt gerade" />}
                       </div>
                     </td>
                     <td className="text-center py-3 px-2">{team.matches}</td>
@@ -150,18 +242,14 @@ export default function BundesligaTable() {
         </div>
 
         <div className="mt-6 flex flex-wrap gap-4 text-sm text-muted-foreground">
-          <div className="flex items-center gap-2">
-            <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">1-4</Badge>
-            <span>Champions League</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">5-6</Badge>
-            <span>Europa League</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">16-18</Badge>
-            <span>Abstieg</span>
-          </div>
+          {rules.zones.map((zone) => (
+            <div key={zone.from} className="flex items-center gap-2">
+              <Badge className={zoneColors[zone.color]}>
+                {zone.from === zone.to ? zone.from : `${zone.from}-${zone.to}`}
+              </Badge>
+              <span>{zone.label}</span>
+            </div>
+          ))}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,35 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "../components/ui/button"
+import { competitions, DEFAULT_COMPETITION, findCompetition } from "../lib/bundesliga"
+import BundesligaTable from "./bundesliga-table"
+import KnockoutRounds from "./knockout-rounds"
+
+// Table or rounds of any competition the Sportarena screens.
+export default function CompetitionView() {
+  const [shortcut, setShortcut] = useState(DEFAULT_COMPETITION)
+  const competition = findCompetition(shortcut) ?? competitions[0]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {competitions.map((entry) => (
+          <Button
+            key={entry.shortcut}
+            size="sm"
+            variant={entry.shortcut === shortcut ? "default" : "outline"}
+            onClick={() => setShortcut(entry.shortcut)}
+          >
+            {entry.name}
+          </Button>
+        ))}
+      </div>
+      {competition.format === "knockout" ? (
+        <KnockoutRounds competition={competition.shortcut} />
+      ) : (
+        <BundesligaTable competition={competition.shortcut} />
+      )}
+    </div>
+  )
+}
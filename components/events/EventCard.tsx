@@ -0,0 +1,31 @@
+import Link from "next/link"
+import type { EventOccurrence } from "../../types/public-event"
+import { admissionLabels, categoryLabels, formatEventDate } from "../../lib/public-events"
+
+interface EventCardProps {
+  occurrence: EventOccurrence
+  className?: string
+}
+
+// One date of an event, linking to its detail page.
+export default function EventCard({ occurrence, className = "" }: EventCardProps) {
+  const { event, date } = occurrence
+  return (
+    <Link
+      href={`/events/${event.slug}`}
+      className={`group flex flex-col overflow-hidden rounded-2xl border border-amber-500/30 bg-black/40 text-left transition hover:border-amber-500 ${className}`}
+    >
+      <img
+        src={event.image ?? "/Crowdparty.png"}
+        alt=""
+        className="h-40 w-full object-cover transition group-hover:scale-105"
+      />
+      <div className="flex flex-1 flex-col gap-1 p-4">
+        <p className="text-xs uppercase tracking-wide text-amber-400">{categoryLabels[event.category]}</p>
+        <h3 className="text-xl font-bold text-white">{event.title}</h3>
+        <p className="text-sm text-gray-300">{formatEventDate(event, date)}</p>
+        <p className="mt-auto pt-2 text-sm text-gray-400">{admissionLabels[event.admission]}</p>
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import type { CateringWish } from "../../types/event"
+import { addDays, barClock, fromIsoDate } from "../../lib/dates"
+import { cateringLabels, MAX_EVENT_GUESTS } from "../../lib/events"
+import { parsePrice } from "../../lib/menu"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Textarea } from "@/components/lightswind/textarea"
+
+const emptyForm = {
+  date: "",
+  guests: "",
+  occasion: "",
+  catering: "none" as CateringWish,
+  budget: "",
+  name: "",
+  email: "",
+  phone: "",
+  message: "",
+}
+
+export default function EventInquiryForm() {
+  const [form, setForm] = useState(emptyForm)
+  const [error, setError] = useState<string | null>(null)
+  const [sending, setSending] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+
+  const set = (field: keyof typeof emptyForm) => (e: { target: { value: string } }) =>
+    setForm({ ...form, [field]: e.target.value })
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+
+    const budgetCents = form.budget ? parsePrice(form.budget) : null
+    if (form.budget && budgetCents === null) {
+      setError("Budget bitte als Betrag angeben, z.B. 500")
+      return
+    }
+
+    setSending(true)
+    setError(null)
+    const response = await fetch("/api/events", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...form, guests: Number(form.guests), budgetCents }),
+    })
+    setSending(false)
+    if (response.ok) {
+      setSubmitted(true)
+    } else {
+      setError((await response.json()).error)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-2">
+          <p className="text-2xl font-bold">Danke, {form.name}!</p>
+          <p>
+            Deine Anfrage für den {fromIsoDate(form.date).toLocaleDateString("de-DE")} ist bei uns eingegangen. Wir
+            melden uns mit einem Angebot bei Dir.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Geschlossene Gesellschaft anfragen</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={submit} className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="event-date">Datum</Label>
+            <Input
+              id="event-date"
+              type="date"
+              min={addDays(barClock().date, 1)}
+              value={form.date}
+              onChange={set("date")}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="event-guests">Gäste</Label>
+            <Input
+              id="event-guests"
+              type="number"
+              min={1}
+              max={MAX_EVENT_GUESTS}
+              value={form.guests}
+              onChange={set("guests")}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="event-occasion">Anlass</Label>
+            <Input
+              id="event-occasion"
+              value={form.occasion}
+              onChange={set("occasion")}
+              placeholder="Geburtstag, Firmenfeier, ..."
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="event-budget">Budget (Euro, optional)</Label>
+            <Input id="event-budget" value={form.budget} onChange={set("budget")} placeholder="500" />
+          </div>
+          <div className="md:col-span-2 space-y-1">
+            <Label htmlFor="event-catering">Catering</Label>
+            <select
+              id="event-catering"
+              value={form.catering}
+              onChange={set("catering")}
+              className="h-10 w-full rounded-md border border-gray-300 bg-background px-3"
+            >
+              {(Object.keys(cateringLabels) as CateringWish[]).map((wish) => (
+                <option key={wish} value={wish}>
+                  {cateringLabels[wish]}
+                </option>
+              ))}
+            </select>
+            {form.catering === "leckerladen" && (
+              <p className="text-xs text-muted-foreground">
+                Unser Partner Leckerladen stellt Apero-Buffets oder Menüs ganz nach Deinen Wünschen zusammen.
+              </p>
+            )}
+          </div>
+
+          {(["name", "email", "phone"] as const).map((field) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`event-${field}`}>{{ name: "Name", email: "E-Mail", phone: "Telefon" }[field]}</Label>
+              <Input
+                id={`event-${field}`}
+                type={field === "email" ? "email" : field === "phone" ? "tel" : "text"}
+                value={form[field]}
+                onChange={set(field)}
+                required
+              />
+            </div>
+          ))}
+          <div className="md:col-span-2 space-y-1">
+            <Label htmlFor="event-message">Deine Ideen und Wünsche</Label>
+            <Textarea id="event-message" value={form.message} onChange={set("message")} />
+          </div>
+
+          {error && <p className="md:col-span-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <Button type="submit" className="md:col-span-2" disabled={sending}>
+            Anfrage senden
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { useState } from "react"
+import { CalendarPlus } from "lucide-react"
+import type { PublicEventCategory } from "../../types/public-event"
+import { fromIsoDate } from "../../lib/dates"
+import { categoryLabels } from "../../lib/public-events"
+import { useUpcomingEvents } from "@/hooks/use-upcoming-events"
+import { Button } from "@/components/lightswind/button"
+import EventCard from "./EventCard"
+
+// All upcoming event dates on /events, by month, with a filter per category.
+export default function EventList() {
+  const events = useUpcomingEvents()
+  const [category, setCategory] = useState<PublicEventCategory | null>(null)
+
+  const categories = (Object.keys(categoryLabels) as PublicEventCategory[]).filter((key) =>
+    events.some((occurrence) => occurrence.event.category === key),
+  )
+  const shown = category ? events.filter((occurrence) => occurrence.event.category === category) : events
+  const byMonth = shown.reduce<Record<string, typeof shown>>((groups, occurrence) => {
+    ;(groups[occurrence.date.slice(0, 7)] ??= []).push(occurrence)
+    return groups
+  }, {})
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-2">
+        {categories.length > 1 && (
+          <>
+            <Button size="sm" variant={category === null ? "default" : "outline"} onClick={() => setCategory(null)}>
+              Alle
+            </Button>
+            {categories.map((key) => (
+              <Button
+                key={key}
+                size="sm"
+                variant={category === key ? "default" : "outline"}
+                onClick={() => setCategory(key)}
+              >
+                {categoryLabels[key]}
+              </Button>
+            ))}
+          </>
+        )}
+        <a
+          href="/api/public-events/calendar"
+          className="ml-auto flex items-center gap-1 text-sm text-amber-300 hover:underline"
+        >
+          <CalendarPlus className="h-4 w-4" />
+          Alle Events in den Kalender
+        </a>
+      </div>
+
+      {shown.length === 0 && <p className="text-gray-300">Zur Zeit sind keine Events geplant.</p>}
+
+      {Object.entries(byMonth).map(([month, occurrences]) => (
+        <section key={month} className="space-y-4">
+          <h2 className="text-3xl font-bold text-amber-400">
+            {fromIsoDate(`${month}-01`).toLocaleDateString("de-DE", { month: "long", year: "numeric" })}
+          </h2>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {occurrences.map((occurrence) => (
+              <EventCard key={`${occurrence.event.id} ${occurrence.date}`} occurrence={occurrence} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
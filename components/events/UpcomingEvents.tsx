@@ -0,0 +1,43 @@
+"use client"
+
+import Link from "next/link"
+import { CalendarPlus } from "lucide-react"
+import { useUpcomingEvents } from "@/hooks/use-upcoming-events"
+import EventCard from "./EventCard"
+
+// How far ahead and how many dates the home page shows.
+const STRIP_DAYS = 60
+const STRIP_LIMIT = 6
+
+// The next public events as a horizontal strip on the home page; hidden while
+// nothing is planned.
+export default function UpcomingEvents() {
+  const events = useUpcomingEvents(STRIP_DAYS).slice(0, STRIP_LIMIT)
+  if (events.length === 0) return null
+
+  return (
+    <section id="section-upcoming-events" className="relative z-10 mx-auto max-w-7xl px-4 py-12">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <h2 className="headingA text-5xl text-yellow-500">Demnächst im Anker</h2>
+        <div className="flex gap-4 text-sm">
+          <a href="/api/public-events/calendar" className="flex items-center gap-1 text-amber-300 hover:underline">
+            <CalendarPlus className="h-4 w-4" />
+            Kalender
+          </a>
+          <Link href="/events" className="text-amber-300 hover:underline">
+            Alle Events
+          </Link>
+        </div>
+      </div>
+      <div className="flex snap-x gap-4 overflow-x-auto pb-2">
+        {events.map((occurrence) => (
+          <EventCard
+            key={`${occurrence.event.id} ${occurrence.date}`}
+            occurrence={occurrence}
+            className="w-64 shrink-0 snap-start"
+          />
+        ))}
+      </div>
+    </section>
+  )
+}
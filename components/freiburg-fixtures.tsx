@@ -0,0 +1,183 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card"
+import { Badge } from "../components/ui/badge"
+import { Loader2 } from "lucide-react"
+import type { Fixture, Match, MatchOutcome } from "../types/bundesliga"
+import { competitions, findCompetition, nextFixture, recentForm, teamFixtures } from "../lib/bundesliga"
+import { BAR_TIME_ZONE } from "../lib/dates"
+
+const outcomeLabels: Record<MatchOutcome, string> = { win: "S", draw: "U", loss: "N" }
+
+const outcomeColors: Record<MatchOutcome, string> = {
+  win: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  draw: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  loss: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+}
+
+function kickOff(match: Match): string {
+  return new Date(match.matchDateTimeUTC).toLocaleString("de-DE", {
+    timeZone: BAR_TIME_ZONE,
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+function FixtureRow({ fixture }: { fixture: Fixture }) {
+  return (
+    <tr className="border-b hover:bg-muted/50 transition-colors">
+      <td className="py-2 px-2 text-muted-foreground whitespace-nowrap">
+        {findCompetition(fixture.match.leagueShortcut ?? "")?.name ?? ""} · {fixture.match.group.groupName}
+      </td>
+      <td className="py-2 px-2 whitespace-nowrap">{kickOff(fixture.match)}</td>
+      <td className="py-2 px-2 text-center">{fixture.home ? "H" : "A"}</td>
+      <td className="py-2 px-4">
+        <div className="flex items-center gap-3">
+          {fixture.opponent.teamIconUrl && (
+            <img
+              src={fixture.opponent.teamIconUrl}
+              alt={`${fixture.opponent.teamName} logo`}
+              className="w-6 h-6 object-contain"
+            />
+          )}
+          <span className="font-medium">{fixture.opponent.teamName}</span>
+        </div>
+      </td>
+      <td className="py-2 px-2 text-center">
+        {fixture.outcome ? (
+          <Badge variant="secondary" className={outcomeColors[fixture.outcome]}>
+            {fixture.goalsFor}:{fixture.goalsAgainst}
+          </Badge>
+        ) : (
+          <span className="text-muted-foreground">-:-</span>
+        )}
+      </td>
+    </tr>
+  )
+}
+
+export default function FreiburgFixtures() {
+  const [fixtures, setFixtures] = useState<Fixture[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchFixtures = async () => {
+      try {
+        setLoading(true)
+        // league, cup and European games; a competition Freiburg is not in
+        // this season simply has no matches for us
+        const results = await Promise.allSettled(
+          competitions
+            .filter((competition) => competition.freiburg)
+            .map(async (competition) => {
+              const response = await fetch(`/bundesliga-standings?data=matches&league=${competition.shortcut}`)
+              if (!response.ok) throw new Error("Failed to fetch fixtures")
+              return (await response.json()) as Match[]
+            }),
+        )
+
+        const loaded = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []))
+        if (loaded.length === 0) {
+          throw new Error("Failed to fetch fixtures")
+        }
+        setFixtures(teamFixtures(loaded.flat()))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchFixtures()
+  }, [])
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <span className="ml-2">Lade Spielplan...</span>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center text-red-600 dark:text-red-400">
+            <p>Fehler beim Laden des Spielplans: {error}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const next = nextFixture(fixtures)
+  const form = recentForm(fixtures)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <span className="text-2xl">⚽</span>
+          SC Freiburg Spielplan
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {next && (
+          <div className="rounded-lg border p-4">
+            <p className="text-sm text-muted-foreground">
+              Nächstes Spiel · {findCompetition(next.match.leagueShortcut ?? "")?.name} · {next.match.group.groupName}
+            </p>
+            <p className="text-xl font-bold">
+              {next.home ? `SC Freiburg – ${next.opponent.teamName}` : `${next.opponent.teamName} – SC Freiburg`}
+            </p>
+            <p>{kickOff(next.match)} Uhr · live im Rettungsanker</p>
+          </div>
+        )}
+
+        {form.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-semibold">Form:</span>
+            {form.map((fixture) => (
+              <Badge
+                key={fixture.match.matchID}
+                variant="secondary"
+                className={outcomeColors[fixture.outcome!]}
+                title={`${fixture.opponent.teamName} ${fixture.goalsFor}:${fixture.goalsAgainst}`}
+              >
+                {outcomeLabels[fixture.outcome!]}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-3 px-2 font-semibold">Wettbewerb</th>
+                <th className="text-left py-3 px-2 font-semibold">Anstoß</th>
+                <th className="text-center py-3 px-2 font-semibold">H/A</th>
+                <th className="text-left py-3 px-4 font-semibold">Gegner</th>
+                <th className="text-center py-3 px-2 font-semibold">Ergebnis</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fixtures.map((fixture) => (
+                <FixtureRow key={fixture.match.matchID} fixture={fixture} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
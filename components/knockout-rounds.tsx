@@ -0,0 +1,135 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card"
+import { Badge } from "../components/ui/badge"
+import { Loader2 } from "lucide-react"
+import type { Match, MatchGroup } from "../types/bundesliga"
+import { currentScore, findCompetition, isFreiburg, isLive } from "../lib/bundesliga"
+import { BAR_TIME_ZONE } from "../lib/dates"
+
+interface KnockoutRoundsProps {
+  // OpenLigaDB shortcut of a knockout competition, e.g. "dfb"
+  competition: string
+}
+
+function MatchCard({ match }: { match: Match }) {
+  const score = currentScore(match)
+  const played = match.matchIsFinished || isLive(match)
+  const ours = isFreiburg(match.team1) || isFreiburg(match.team2)
+  const winner = match.matchIsFinished ? (score.team1 > score.team2 ? 1 : score.team2 > score.team1 ? 2 : 0) : 0
+
+  return (
+    <div className={`rounded-md border p-2 text-sm ${ours ? "border-amber-500" : ""}`}>
+      {[match.team1, match.team2].map((team, index) => (
+        <div key={team.teamId} className="flex items-center justify-between gap-2">
+          <span className={`truncate ${winner === index + 1 ? "font-bold" : ""}`}>{team.teamName}</span>
+          {played && <span className="font-mono">{index === 0 ? score.team1 : score.team2}</span>}
+        </div>
+      ))}
+      {!played && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          {new Date(match.matchDateTimeUTC).toLocaleString("de-DE", {
+            timeZone: BAR_TIME_ZONE,
+            day: "2-digit",
+            month: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}{" "}
+          Uhr
+        </p>
+      )}
+      {isLive(match) && <Badge className="mt-1 bg-red-500 text-white animate-pulse">LIVE</Badge>}
+    </div>
+  )
+}
+
+// Cup competitions as one column per round instead of a table.
+export default function KnockoutRounds({ competition }: KnockoutRoundsProps) {
+  const [matches, setMatches] = useState<Match[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchRounds = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/bundesliga-standings?data=matches&league=${competition}`)
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch rounds")
+        }
+
+        const data: Match[] = await response.json()
+        if (!cancelled) setMatches(data)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "An error occurred")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchRounds()
+    return () => {
+      cancelled = true
+    }
+  }, [competition])
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <span className="ml-2">Lade Spielrunden...</span>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center text-red-600 dark:text-red-400">
+            <p>Fehler beim Laden der Spielrunden: {error}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const rounds = new Map<number, { group: MatchGroup; matches: Match[] }>()
+  for (const match of matches) {
+    const round = rounds.get(match.group.groupOrderID) ?? { group: match.group, matches: [] }
+    round.matches.push(match)
+    rounds.set(match.group.groupOrderID, round)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <span className="text-2xl">🏆</span>
+          {findCompetition(competition)?.name ?? competition}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rounds.size === 0 && <p className="text-muted-foreground">Noch keine Spiele angesetzt.</p>}
+        <div className="flex gap-4 overflow-x-auto">
+          {Array.from(rounds.values())
+            .sort((a, b) => a.group.groupOrderID - b.group.groupOrderID)
+            .map(({ group, matches: roundMatches }) => (
+              <div key={group.groupOrderID} className="min-w-[200px] space-y-2">
+                <h3 className="font-semibold">{group.groupName}</h3>
+                {roundMatches.map((match) => (
+                  <MatchCard key={match.matchID} match={match} />
+                ))}
+              </div>
+            ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
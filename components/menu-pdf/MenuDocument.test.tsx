@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest"
+import { renderToBuffer } from "@react-pdf/renderer"
+import { menu, visibleMenu } from "../../lib/menu"
+import MenuDocument from "./MenuDocument"
+
+// Renders the real card the way app/menu.pdf does, so a renderer that does
+// not work with the installed React fails here instead of in production.
+describe("MenuDocument", () => {
+  it.each(["a4", "tent"] as const)("renders the %s layout to a PDF", async (layout) => {
+    const pdf = await renderToBuffer(<MenuDocument catalogue={visibleMenu(menu)} layout={layout} printedAt="19.10.2026" />)
+    expect(pdf.subarray(0, 5).toString("latin1")).toBe("%PDF-")
+  }, 30_000)
+})
@@ -0,0 +1,132 @@
+import path from "path"
+import { Document, Image, Page, StyleSheet, Text, View } from "@react-pdf/renderer"
+import type { MenuCatalogue, MenuCategory, MenuItem, MenuPdfLayout } from "../../types/menu"
+import { formatPrice, formatServing, menuItems } from "../../lib/menu"
+import { itemMarkers, menuLegend } from "../../lib/allergens"
+
+// Rendered on the server by app/menu.pdf, never shipped to the browser.
+
+const LOGO = path.join(process.cwd(), "public", "LogoAlt.png")
+
+const PRICE_NOTE = "Alle Preise in Euro inkl. MwSt."
+
+const styles = StyleSheet.create({
+  page: { padding: 36, paddingBottom: 72, fontFamily: "Helvetica", fontSize: 10, color: "#1c1917" },
+  logo: { width: 90, alignSelf: "center", marginBottom: 12 },
+  category: { marginBottom: 14 },
+  categoryTitle: { fontFamily: "Helvetica-Bold", fontSize: 18, color: "#b45309", marginBottom: 6 },
+  subTitle: { fontFamily: "Helvetica-Bold", fontSize: 12, marginTop: 6, marginBottom: 4 },
+  item: { flexDirection: "row", alignItems: "flex-end", marginBottom: 3 },
+  itemTitle: { fontFamily: "Helvetica-Bold" },
+  markers: { fontSize: 6, color: "#57534e" },
+  itemDetails: { flex: 1, color: "#57534e", marginLeft: 4 },
+  price: { marginLeft: 8 },
+  footer: { position: "absolute", bottom: 20, left: 36, right: 36, fontSize: 7, color: "#78716c" },
+  tentPage: { fontFamily: "Helvetica", fontSize: 10, color: "#1c1917" },
+  tentFace: { height: "50%", padding: 28, justifyContent: "center" },
+  tentFaceUpsideDown: { transform: "rotate(180deg)" },
+})
+
+function Item({ item }: { item: MenuItem }) {
+  const details = [...item.tags, formatServing(item.serving)].filter(Boolean).join(" · ")
+  return (
+    <View style={styles.item} wrap={false}>
+      <Text style={styles.itemTitle}>
+        {item.title}
+        {itemMarkers(item) && <Text style={styles.markers}> {itemMarkers(item)}</Text>}
+      </Text>
+      <Text style={styles.itemDetails}>{details}</Text>
+      <Text style={styles.price}>{formatPrice(item.priceCents)}</Text>
+    </View>
+  )
+}
+
+function Category({ category, depth = 0 }: { category: MenuCategory; depth?: number }) {
+  const items = category.items ?? []
+  const children = category.children ?? []
+  // every item of it may be hidden
+  if (items.length === 0 && children.length === 0) return null
+  return (
+    <View style={depth === 0 ? styles.category : undefined}>
+      <Text style={depth === 0 ? styles.categoryTitle : styles.subTitle} minPresenceAhead={40}>
+        {category.title}
+      </Text>
+      {items.map((item) => (
+        <Item key={item.id} item={item} />
+      ))}
+      {children.map((child) => (
+        <Category key={child.id} category={child} depth={depth + 1} />
+      ))}
+    </View>
+  )
+}
+
+// Footnotes for the markers on the given categories.
+function Legend({ categories }: { categories: MenuCategory[] }) {
+  const { additives, allergens } = menuLegend(menuItems({ categories }))
+  return (
+    <>
+      {additives.length > 0 && <Text>{additives.map(({ number, label }) => `${number} ${label}`).join(" · ")}</Text>}
+      {allergens.length > 0 && (
+        <Text>Allergene: {allergens.map(({ code, label }) => `${code} ${label}`).join(" · ")}</Text>
+      )}
+      <Text>{PRICE_NOTE}</Text>
+    </>
+  )
+}
+
+function Footer({ catalogue, printedAt }: { catalogue: MenuCatalogue; printedAt: string }) {
+  return (
+    <View style={styles.footer} fixed>
+      <Legend categories={catalogue.categories} />
+      <Text render={({ pageNumber, totalPages }) => `Stand ${printedAt} · Seite ${pageNumber} von ${totalPages}`} />
+    </View>
+  )
+}
+
+// Both halves show the same category. The top one is upside down, so it
+// reads upright from the other side once the sheet is folded.
+function TableTent({ category, printedAt }: { category: MenuCategory; printedAt: string }) {
+  const face = (
+    <>
+      <Category category={category} />
+      <View style={{ fontSize: 7, color: "#78716c", marginTop: 8 }}>
+        <Legend categories={[category]} />
+        <Text>Stand {printedAt}</Text>
+      </View>
+    </>
+  )
+  return (
+    <Page size="A4" orientation="landscape" style={styles.tentPage}>
+      <View style={[styles.tentFace, styles.tentFaceUpsideDown]}>{face}</View>
+      <View style={styles.tentFace}>{face}</View>
+    </Page>
+  )
+}
+
+interface MenuDocumentProps {
+  catalogue: MenuCatalogue
+  layout: MenuPdfLayout
+  // e.g. "19.10.2026", so staff can tell an outdated print
+  printedAt: string
+}
+
+export default function MenuDocument({ catalogue, layout, printedAt }: MenuDocumentProps) {
+  return (
+    <Document title="Rettungsanker Getränkekarte" author="Rettungsanker">
+      {layout === "tent" ? (
+        catalogue.categories.map((category) => (
+          <TableTent key={category.id} category={category} printedAt={printedAt} />
+        ))
+      ) : (
+        <Page size="A4" style={styles.page}>
+          <Image src={LOGO} style={styles.logo} />
+          {catalogue.categories.map((category) => (
+            <Category key={category.id} category={category} />
+          ))}
+          <Footer catalogue={catalogue} printedAt={printedAt} />
+        </Page>
+      )}
+    </Document>
+  )
+}
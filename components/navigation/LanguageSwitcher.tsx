@@ -0,0 +1,38 @@
+"use client"
+
+import { usePathname } from "next/navigation"
+import { isTranslated, localeNames, localePath, locales, splitLocale, translate } from "../../lib/i18n"
+import { useLocale, useTranslations } from "@/hooks/use-locale"
+
+// Plain links instead of next/link: the root layout only picks up the new
+// locale on a full page load. German-only pages offer the English menu,
+// labelled in English for the guests looking for it.
+export default function LanguageSwitcher({ className = "" }: { className?: string }) {
+  const locale = useLocale()
+  const t = useTranslations()
+  const { path } = splitLocale(usePathname() ?? "/")
+  const translated = isTranslated(path)
+
+  return (
+    <nav aria-label={t("language.switch")} className={`flex items-center gap-2 text-xl uppercase ${className}`}>
+      {locales.map((option) =>
+        option === locale ? (
+          <span key={option} aria-current="true" className="font-bold text-amber-500">
+            {option}
+          </span>
+        ) : (
+          <a
+            key={option}
+            href={localePath(option, translated ? path : "/karte")}
+            hrefLang={option}
+            lang={option}
+            title={translated ? localeNames[option] : translate(option, "language.onlyMenu")}
+            className="text-white hover:text-amber-500"
+          >
+            {option}
+          </a>
+        ),
+      )}
+    </nav>
+  )
+}
@@ -16,53 +16,59 @@ import {
   navigationMenuTriggerStyle,
 } from "@/components/ui/navigation-menu"
 import { cn } from "@/lib/utils"
+import { useLocale, useTranslations } from "@/hooks/use-locale"
+import type { MessageKey } from "../../data/messages/de"
+import { localePath } from "../../lib/i18n"
+import LanguageSwitcher from "./LanguageSwitcher"
 import LogoNeu from "../../public/LogoNeu.png";
 import Bulleye from "../../public/Bulleye.svg"
 
-const aboutItems = [
+// Titles and descriptions are keys of the message catalogue, data/messages.
+interface NavItem {
+  title: MessageKey
+  href: string
+  description: MessageKey
+}
+
+const aboutItems: NavItem[] = [
   {
-    title: "Rettungsanker-Story",
+    title: "nav.story",
     href: "/about/history",
-    description: "Die Story des Rettungsankers seit 2017",
+    description: "nav.storyDescription",
   },
   {
-    title: "Team",
+    title: "nav.team",
     href: "/about/team",
-    description: "Das Rettungsakerteamstellt sich vor",
+    description: "nav.teamDescription",
   },
 
 ]
 
-const drinksSnacksItems = [
+const drinksSnacksItems: NavItem[] = [
   {
-    title: "Drinks",
+    title: "nav.drinks",
     href: "/menu/drinks",
-    description: "Refreshing beverages for every taste",
-  },
-  {
-    title: "Snacks",
-    href: "/menu/snacks",
-    description: "Delicious snacks to fuel your day",
+    description: "nav.drinksDescription",
   },
   {
-    title: "Weine",
+    title: "nav.wines",
     href: "/menu/weine",
-    description: "Special combo deals",
+    description: "nav.winesDescription",
   },
   {
-    title: "Cocktails. & Longdrinks",
+    title: "nav.cocktails",
     href: "/menu/cocktails",
-    description: "Internanationale Cocktails & Longdrinks",
+    description: "nav.cocktailsDescription",
   },
   {
-    title: "Softdrinks",
+    title: "nav.softdrinks",
     href: "/menu/softdrinks",
-    description: "Erfrischungsgetränke ohne Alkohol",
+    description: "nav.softdrinksDescription",
   },
   {
-    title: "Snacks",
+    title: "nav.snacks",
     href: "/menu/snacks",
-    description: "Frische,köstliche Flammkuchen",
+    description: "nav.snacksDescription",
   },
 ]
 
@@ -93,6 +99,9 @@ export default function Navigation() {
   const [open, setOpen] = React.useState(false)
   const [aboutDropdown, setAboutDropdown] = React.useState(false)
   const [drinksDropdown, setDrinksDropdown] = React.useState(false)
+  const locale = useLocale()
+  const t = useTranslations()
+  const href = (path: string) => localePath(locale, path)
   
   React.useEffect(() => {
     console.log("Mobile menu open state changed:", open)
@@ -110,7 +119,7 @@ export default function Navigation() {
     <header className="sticky top-0 z-50 w-full border-b border-border bg-wood">
       <div className="container flex h-36 items-center justify-between px-4">
         {/* Logo */}
-        <Link href="/" className="flex items-center space-x-2">
+        <Link href={href("/")} className="flex items-center space-x-2">
           <Image src={LogoNeu} alt="Logo" width={120} height={80} className="text-2l uppercase text-white font-bold" />
         </Link>
 
@@ -118,10 +127,10 @@ export default function Navigation() {
         <NavigationMenu className="hidden md:flex">
           <NavigationMenuList>
             <NavigationMenuItem>
-              <Link href="/" legacyBehavior passHref>
+              <Link href={href("/")} legacyBehavior passHref>
                 <NavigationMenuLink className={cn(navigationMenuTriggerStyle(), "text-2xl text-white hover:bg-amber-500 uppercase flex items-center gap-2")}>
                   <Image src={Bulleye} alt="" width={100} height={100} className="w-20 h-20" />
-                  Home
+                  {t("nav.home")}
                 </NavigationMenuLink>
               </Link>
             </NavigationMenuItem>
@@ -129,13 +138,13 @@ export default function Navigation() {
             <NavigationMenuItem>
               <NavigationMenuTrigger className="text-white uppercase text-2xl flex items-center gap-5 w-60">
                 <Image src={Bulleye} alt="" width={100} height={100} className="w-20 h-20" />
-                About
+                {t("nav.about")}
               </NavigationMenuTrigger>
               <NavigationMenuContent>
                 <ul className="grid w-[400px] gap-3 p-4 md:w-[500px] md:grid-cols-2 lg:w-[600px] bg-yellow-500">
                   {aboutItems.map((item) => (
-                    <ListItem key={item.title} title={item.title} href={item.href} className="hover:bg-emerald-300">
-                      {item.description}
+                    <ListItem key={item.href} title={t(item.title)} href={href(item.href)} className="hover:bg-emerald-300">
+                      {t(item.description)}
                     </ListItem>
                   ))}
                 </ul>
@@ -145,13 +154,13 @@ export default function Navigation() {
             <NavigationMenuItem>
               <NavigationMenuTrigger className="text-white uppercase text-2xl flex items-center gap-5 w-60 ">
                 <Image src={Bulleye} alt="" width={100} height={100} className="w-20 h-20" />
-                Drinks & Snacks
+                {t("nav.drinksSnacks")}
               </NavigationMenuTrigger>
               <NavigationMenuContent>
                 <ul className="grid w-[400px] gap-3 p-4 md:w-[500px] md:grid-cols-2 lg:w-[600px] bg-yellow-500">
                   {drinksSnacksItems.map((item) => (
-                    <ListItem key={item.title} title={item.title} href={item.href}>
-                      {item.description}
+                    <ListItem key={item.href} title={t(item.title)} href={href(item.href)}>
+                      {t(item.description)}
                     </ListItem>
                   ))}
                 </ul>
@@ -159,25 +168,27 @@ export default function Navigation() {
             </NavigationMenuItem>
 
             <NavigationMenuItem>
-              <Link href="/sportarena" legacyBehavior passHref>
+              <Link href={href("/sportarena")} legacyBehavior passHref>
                 <NavigationMenuLink className={cn(navigationMenuTriggerStyle(), "text-white uppercase text-2xl flex items-center gap-5 w-60")}>
                   <Image src={Bulleye} alt="" width={100} height={100} className="w-20 h-20" />
-                  Sportarena
+                  {t("nav.sportarena")}
                 </NavigationMenuLink>
               </Link>
             </NavigationMenuItem>
 
             <NavigationMenuItem>
-              <Link href="/wohin" legacyBehavior passHref>
+              <Link href={href("/wohin")} legacyBehavior passHref>
                 <NavigationMenuLink className={cn(navigationMenuTriggerStyle(), "flex items-center gap-2 text-2xl text-white uppercase w-60 hover:bg-yellow-500")}>
                   <Image src={Bulleye} alt="" width={100} height={100} className="w-20 h-20" />
-                  Wohin?
+                  {t("nav.whereTo")}
                 </NavigationMenuLink>
               </Link>
             </NavigationMenuItem>
           </NavigationMenuList>
         </NavigationMenu>
 
+        <LanguageSwitcher />
+
         {/* Mobile Navigation */}
         <div className="md:hidden flex items-center gap-2">
           {/* Debug indicator */}
@@ -208,7 +219,7 @@ export default function Navigation() {
               >
                 {/* Close button */}
                 <button
-                  aria-label="Close menu"
+                  aria-label={t("nav.closeMenu")}
                   className="absolute top-4 right-4 text-black hover:text-gray-700 hover:bg-red-500 rounded-full p-2 transition-colors"
                   onClick={() => setOpen(false)}
                 >
@@ -217,12 +228,12 @@ export default function Navigation() {
 
                 <nav className="mt-[12vh] flex flex-col gap-4">
                   <Link
-                    href="/"
+                    href={href("/")}
                     className="text-4xl font-medium hover:text-blue-600 transition-colors flex items-center gap-2 text-black"
                     onClick={() => setOpen(false)}
                   >
                     <Image src={Bulleye} alt="" width={100} height={100} className="w-12 h-12" />
-                    Home
+                    {t("nav.home")}
                   </Link>
 
                   <div className="flex flex-col gap-2">
@@ -232,7 +243,7 @@ export default function Navigation() {
                     >
                       <div className="flex items-center gap-2">
                         <Image src={Bulleye} alt="" width={100} height={100} className="w-12 h-12" />
-                        About
+                        {t("nav.about")}
                       </div>
                       <ChevronDown 
                         className={`h-6 w-6 transition-transform duration-200 ${
@@ -244,12 +255,12 @@ export default function Navigation() {
                       <div className="flex flex-col gap-2 ml-4 mt-2">
                         {aboutItems.map((item) => (
                           <Link
-                            key={item.title}
-                            href={item.href}
+                            key={item.href}
+                            href={href(item.href)}
                             className="text-xl text-gray-600 hover:text-blue-600 hover:bg-yellow-600 p-2 rounded transition-colors"
                             onClick={() => setOpen(false)}
                           >
-                            {item.title}
+                            {t(item.title)}
                           </Link>
                         ))}
                       </div>
@@ -263,7 +274,7 @@ export default function Navigation() {
                     >
                       <div className="flex items-center gap-2">
                         <Image src={Bulleye} alt="" width={100} height={100} className="w-12 h-12" />
-                        Drinks & Snacks
+                        {t("nav.drinksSnacks")}
                       </div>
                       <ChevronDown 
                         className={`h-6 w-6 transition-transform duration-200 ${
@@ -275,12 +286,12 @@ export default function Navigation() {
                       <div className="flex flex-col gap-2 ml-4 mt-2">
                         {drinksSnacksItems.map((item) => (
                           <Link
-                            key={item.title}
-                            href={item.href}
+                            key={item.href}
+                            href={href(item.href)}
                             className="text-xl text-gray-600 hover:text-blue-600 hover:bg-gray-100 p-2 rounded transition-colors"
                             onClick={() => setOpen(false)}
                           >
-                            {item.title}
+                            {t(item.title)}
                           </Link>
                         ))}
                       </div>
@@ -288,21 +299,21 @@ export default function Navigation() {
                   </div>
 
                   <Link
-                    href="/sportarena"
+                    href={href("/sportarena")}
                     className="text-4xl font-medium hover:text-blue-600 transition-colors flex items-center gap-2 text-black"
                     onClick={() => setOpen(false)}
                   >
                     <Image src={Bulleye} alt="" width={100} height={100} className="w-12 h-12" />
-                    Sportarena
+                    {t("nav.sportarena")}
                   </Link>
 
                   <Link
-                    href="/wohin"
+                    href={href("/wohin")}
                     className="text-4xl font-medium hover:text-blue-600 hover:bg-slate-300 transition-colors flex items-center gap-2 text-black"
                     onClick={() => setOpen(false)}
                   >
                     <Image src={Bulleye} alt="" width={100} height={100} className="w-12 h-12" />
-                    Wohin?
+                    {t("nav.whereTo")}
                   </Link>
                 </nav>
               </div>
@@ -0,0 +1,198 @@
+"use client"
+
+import { useEffect, useMemo, useState, type FormEvent } from "react"
+import Link from "next/link"
+import { Loader2 } from "lucide-react"
+import type { ReservationDay } from "../../types/reservation"
+import { addDays, barClock, fromIsoDate, toIsoDate } from "../../lib/dates"
+import { BOOKING_HORIZON_DAYS, maxPartySize } from "../../lib/reservations"
+import Calendar from "@/components/lightswind/calendar"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Label } from "@/components/lightswind/label"
+import { Textarea } from "@/components/lightswind/textarea"
+
+function monthRange(month: Date): { from: string; to: string } {
+  const today = barClock().date
+  const first = toIsoDate(new Date(month.getFullYear(), month.getMonth(), 1))
+  const last = toIsoDate(new Date(month.getFullYear(), month.getMonth() + 1, 0))
+  return { from: first < today ? today : first, to: last }
+}
+
+export default function ReservationForm() {
+  const [partySize, setPartySize] = useState(2)
+  const [month, setMonth] = useState(() => fromIsoDate(barClock().date))
+  const [days, setDays] = useState<ReservationDay[]>([])
+  const [loading, setLoading] = useState(true)
+  const [date, setDate] = useState<string | null>(null)
+  const [time, setTime] = useState<string | null>(null)
+  const [contact, setContact] = useState({ name: "", email: "", phone: "", note: "" })
+  const [error, setError] = useState<string | null>(null)
+  const [submitted, setSubmitted] = useState(false)
+
+  useEffect(() => {
+    const { from, to } = monthRange(month)
+    let cancelled = false
+    setLoading(true)
+
+    fetch(`/api/reservations/availability?from=${from}&to=${to}&partySize=${partySize}`)
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to fetch availability")
+        return response.json()
+      })
+      .then((data: { days: ReservationDay[] }) => {
+        if (!cancelled) setDays(data.days)
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : "An error occurred"))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [month, partySize])
+
+  const bookableDates = useMemo(
+    () => new Set(days.filter((day) => day.slots.some((slot) => slot.available)).map((day) => day.date)),
+    [days],
+  )
+  const slots = days.find((day) => day.date === date)?.slots ?? []
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!date || !time) return
+
+    setError(null)
+    const response = await fetch("/api/reservations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ date, time, partySize, ...contact }),
+    })
+    if (response.ok) {
+      setSubmitted(true)
+    } else {
+      setError((await response.json()).error)
+      // someone else may have taken the slot, reload the month
+      setMonth(new Date(month))
+    }
+  }
+
+  if (submitted) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-2">
+          <p className="text-2xl font-bold">Danke, {contact.name}!</p>
+          <p>
+            Deine Anfrage für {partySize} Personen am {fromIsoDate(date!).toLocaleDateString("de-DE")} um {time} Uhr
+            ist bei uns eingegangen. Die Crew bestätigt sie Dir so schnell wie möglich.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tisch reservieren</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={submit} className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="party-size">Personen</Label>
+              <select
+                id="party-size"
+                value={partySize}
+                onChange={(e) => {
+                  setPartySize(Number(e.target.value))
+                  setTime(null)
+                }}
+                className="h-10 w-full rounded-md border border-gray-300 bg-background px-3"
+              >
+                {Array.from({ length: maxPartySize }, (_, i) => i + 1).map((size) => (
+                  <option key={size} value={size}>
+                    {size} {size === 1 ? "Person" : "Personen"}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Mehr als {maxPartySize} Gäste? Frag uns nach einer{" "}
+                <Link href="/event-anfrage" className="underline">
+                  geschlossenen Gesellschaft
+                </Link>
+                .
+              </p>
+            </div>
+
+            <Calendar
+              selected={date ? fromIsoDate(date) : undefined}
+              onSelect={(picked) => {
+                setDate(picked ? toIsoDate(picked) : null)
+                setTime(null)
+              }}
+              onMonthChange={setMonth}
+              toDate={fromIsoDate(addDays(barClock().date, BOOKING_HORIZON_DAYS))}
+              disabled={(day: Date) => loading || !bookableDates.has(toIsoDate(day))}
+            />
+            {loading && (
+              <p className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin mr-2" /> Lade freie Tische...
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            {date && (
+              <div className="space-y-2">
+                <Label>Uhrzeit</Label>
+                <div className="flex flex-wrap gap-2">
+                  {slots.map((slot) => (
+                    <Button
+                      key={slot.time}
+                      type="button"
+                      size="sm"
+                      variant={slot.time === time ? "default" : "outline"}
+                      disabled={!slot.available}
+                      onClick={() => setTime(slot.time)}
+                    >
+                      {slot.time}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {(["name", "email", "phone"] as const).map((field) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`reservation-${field}`}>
+                  {{ name: "Name", email: "E-Mail", phone: "Telefon" }[field]}
+                </Label>
+                <Input
+                  id={`reservation-${field}`}
+                  type={field === "email" ? "email" : field === "phone" ? "tel" : "text"}
+                  value={contact[field]}
+                  onChange={(e) => setContact({ ...contact, [field]: e.target.value })}
+                  required
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="reservation-note">Anmerkung</Label>
+              <Textarea
+                id="reservation-note"
+                value={contact.note}
+                onChange={(e) => setContact({ ...contact, note: e.target.value })}
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <Button type="submit" className="w-full" disabled={!date || !time}>
+              Reservierung anfragen
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card"
+import { Badge } from "../components/ui/badge"
+import { Loader2 } from "lucide-react"
+import type { Screening } from "../types/screening"
+import { BAR_TIME_ZONE } from "../lib/dates"
+import { screeningRound, screeningTitle } from "../lib/screenings"
+
+interface ScreeningScheduleProps {
+  // show only the next few screenings, e.g. in the home page section
+  limit?: number
+}
+
+export default function ScreeningSchedule({ limit }: ScreeningScheduleProps) {
+  const [screenings, setScreenings] = useState<Screening[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchScreenings = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch("/api/screenings")
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch screenings")
+        }
+
+        setScreenings(await response.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchScreenings()
+  }, [])
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <span className="ml-2">Lade Übertragungen...</span>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center text-red-600 dark:text-red-400">
+            <p>Fehler beim Laden der Übertragungen: {error}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const shown = limit ? screenings.slice(0, limit) : screenings
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <span className="text-2xl">📺</span>
+          Live im Rettungsanker
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shown.length === 0 && <p className="text-muted-foreground">Zur Zeit sind keine Übertragungen geplant.</p>}
+        {shown.map((screening) => (
+          <div key={screening.matchId} className="flex flex-wrap items-center gap-3 border-b pb-3">
+            <div className="flex-1 min-w-[200px]">
+              <p className="font-medium">{screeningTitle(screening)}</p>
+              <p className="text-sm text-muted-foreground">
+                {new Date(screening.kickoff).toLocaleString("de-DE", {
+                  timeZone: BAR_TIME_ZONE,
+                  weekday: "long",
+                  day: "2-digit",
+                  month: "2-digit",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}{" "}
+                Uhr · {screeningRound(screening)}
+              </p>
+            </div>
+            {screening.offer && <Badge className="bg-amber-100 text-amber-800">{screening.offer}</Badge>}
+            {screening.reservationNeeded && (
+              <Link href="/reservierung" className="text-sm font-semibold underline">
+                Tisch reservieren
+              </Link>
+            )}
+            <a href={`/api/screenings/calendar?match=${screening.matchId}`} className="text-sm underline">
+              In den Kalender
+            </a>
+          </div>
+        ))}
+        {screenings.length > 0 && (
+          <a href="/api/screenings/calendar" className="inline-block text-sm underline">
+            Alle Übertragungen als Kalender (.ics)
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
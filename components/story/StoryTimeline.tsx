@@ -0,0 +1,133 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState, type TouchEvent } from "react"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import type { Milestone } from "../../types/history"
+import { formatMilestoneDate } from "../../lib/history"
+import { useStory } from "@/hooks/use-story"
+import { ScrollTimeline, type TimelineEvent } from "@/components/lightswind/scroll-timeline"
+import { Button } from "@/components/lightswind/button"
+
+// Shortest horizontal swipe that turns to the next or previous chapter.
+const SWIPE_PX = 60
+
+function toTimelineEvent(milestone: Milestone): TimelineEvent {
+  return {
+    id: milestone.id,
+    year: formatMilestoneDate(milestone.date),
+    title: milestone.title,
+    description: milestone.text,
+    images: milestone.images,
+  }
+}
+
+// The story as a scroll timeline. Besides scrolling, the arrow keys (← →,
+// Home, End), a swipe sideways and the year bar move from chapter to chapter.
+export default function StoryTimeline() {
+  const story = useStory()
+  const events = useMemo(() => story.map(toTimelineEvent), [story])
+  const containerRef = useRef<HTMLDivElement>(null)
+  const touchStart = useRef<{ x: number; y: number } | null>(null)
+  const [current, setCurrent] = useState(0)
+
+  const goTo = useCallback(
+    (index: number) => {
+      const target = Math.max(0, Math.min(events.length - 1, index))
+      const element = containerRef.current?.querySelector<HTMLElement>(`[data-timeline-index="${target}"]`)
+      if (!element) return
+      setCurrent(target)
+      element.scrollIntoView({ behavior: "smooth", block: "center" })
+      element.focus({ preventScroll: true })
+    },
+    [events.length],
+  )
+
+  // Keeps the year bar in step with plain scrolling.
+  useEffect(() => {
+    const elements = containerRef.current?.querySelectorAll<HTMLElement>("[data-timeline-index]")
+    if (!elements?.length) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries.find((entry) => entry.isIntersecting)
+        if (visible) setCurrent(Number((visible.target as HTMLElement).dataset.timelineIndex))
+      },
+      { rootMargin: "-45% 0px -45% 0px" },
+    )
+    elements.forEach((element) => observer.observe(element))
+    return () => observer.disconnect()
+  }, [events])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target?.closest("input, textarea, select, [contenteditable]")) return
+      const moves: Record<string, number> = {
+        ArrowRight: current + 1,
+        ArrowLeft: current - 1,
+        Home: 0,
+        End: events.length - 1,
+      }
+      if (!(event.key in moves)) return
+      event.preventDefault()
+      goTo(moves[event.key])
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [current, events.length, goTo])
+
+  const handleTouchStart = (event: TouchEvent) => {
+    const touch = event.touches[0]
+    touchStart.current = { x: touch.clientX, y: touch.clientY }
+  }
+
+  // Only clearly sideways swipes count, vertical ones keep scrolling.
+  const handleTouchEnd = (event: TouchEvent) => {
+    const start = touchStart.current
+    touchStart.current = null
+    if (!start) return
+    const touch = event.changedTouches[0]
+    const dx = touch.clientX - start.x
+    const dy = touch.clientY - start.y
+    if (Math.abs(dx) < SWIPE_PX || Math.abs(dx) < 2 * Math.abs(dy)) return
+    goTo(dx < 0 ? current + 1 : current - 1)
+  }
+
+  return (
+    <div ref={containerRef} onTouchStart={handleTouchStart} onTouchEnd={handleTouchEnd}>
+      <nav
+        aria-label="Kapitel"
+        className="sticky top-0 z-40 flex items-center gap-2 overflow-x-auto bg-black/80 px-4 py-2 backdrop-blur"
+      >
+        <Button size="sm" variant="ghost" aria-label="Vorheriges Kapitel" onClick={() => goTo(current - 1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        {events.map((event, index) => (
+          <Button
+            key={event.id}
+            size="sm"
+            variant={index === current ? "default" : "outline"}
+            aria-current={index === current ? "step" : undefined}
+            className="shrink-0"
+            onClick={() => goTo(index)}
+          >
+            {event.year}
+          </Button>
+        ))}
+        <Button size="sm" variant="ghost" aria-label="Nächstes Kapitel" onClick={() => goTo(current + 1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </nav>
+      {/* ScrollTimeline runs hooks per event, so it remounts when chapters come or go */}
+      <ScrollTimeline
+        key={events.length}
+        events={events}
+        title="Die Story des Rettungsankers"
+        subtitle="Seit 2017 ein Stück St. Pauli in Freiburg"
+        cardAlignment="alternating"
+        revealAnimation="fade"
+        parallaxIntensity={0.1}
+        darkMode
+      />
+    </div>
+  )
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Filter, Plus, Search } from "lucide-react"
+import type { AllergenCode, Diet, MenuCategory, MenuItem } from "../../types/menu"
+import type { OrderLine } from "../../types/table-service"
+import { findCategory, formatPrice, formatTags, menuItems, searchMenu } from "../../lib/menu"
+import { allergenCodes, allergenLabels, dietLabels, filterMenuByDiet, itemMarkers, menuLegend } from "../../lib/allergens"
+import { useMenu } from "@/hooks/use-menu"
+import { useTranslations } from "@/hooks/use-locale"
+import { Input } from "@/components/lightswind/input"
+import { Button } from "@/components/lightswind/button"
+import TableOrderBar from "./TableOrderBar"
+
+interface TableMenuProps {
+  // set when opened through the QR code on a table
+  tableNumber?: number
+}
+
+// Only offered at a table, where the crew knows where to bring the order.
+type AddToOrder = ((item: MenuItem) => void) | undefined
+
+function ItemRow({ item, onAdd }: { item: MenuItem; onAdd: AddToOrder }) {
+  const t = useTranslations()
+  return (
+    <div className="flex items-baseline gap-3 border-b border-white/10 py-3">
+      <div className="flex-1">
+        <p className="font-medium text-amber-200">
+          {item.title}
+          {itemMarkers(item) && <sup className="ml-1 text-xs text-gray-400">{itemMarkers(item)}</sup>}
+        </p>
+        <p className="text-sm text-gray-400">{formatTags(item)}</p>
+      </div>
+      <span className="whitespace-nowrap text-right">
+        {item.regularPriceCents !== undefined && (
+          <span className="mr-2 text-sm text-gray-500 line-through">{formatPrice(item.regularPriceCents)}</span>
+        )}
+        <span className="font-semibold text-white">{formatPrice(item.priceCents)}</span>
+        {item.priceRule && <span className="block text-xs text-amber-400">{item.priceRule}</span>}
+      </span>
+      {onAdd && (
+        <Button size="sm" variant="outline" aria-label={t("menu.order", { item: item.title })} onClick={() => onAdd(item)}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+interface CategorySectionProps {
+  category: MenuCategory
+  nested?: boolean
+  onAdd: AddToOrder
+}
+
+function CategorySection({ category, nested = false, onAdd }: CategorySectionProps) {
+  return (
+    <section id={`kategorie-${category.id}`} className="scroll-mt-36">
+      <h2 className={nested ? "mt-6 text-lg font-semibold text-white" : "mt-8 text-2xl headingA uppercase text-amber-500"}>
+        {category.title}
+      </h2>
+      {(category.items ?? []).map((item) => (
+        <ItemRow key={item.id} item={item} onAdd={onAdd} />
+      ))}
+      {(category.children ?? []).map((child) => (
+        <CategorySection key={child.id} category={child} nested onAdd={onAdd} />
+      ))}
+    </section>
+  )
+}
+
+// Mobile-first card: the top level categories are tabs, their sub-categories
+// sections below. A search looks through the whole card regardless of tab,
+// allergen and diet filters narrow down both.
+export default function TableMenu({ tableNumber }: TableMenuProps) {
+  const menu = useMenu()
+  const t = useTranslations()
+  const [query, setQuery] = useState("")
+  const [tabId, setTabId] = useState<string | null>(null)
+  const [order, setOrder] = useState<OrderLine[]>([])
+  const [filterOpen, setFilterOpen] = useState(false)
+  const [without, setWithout] = useState<AllergenCode[]>([])
+  const [diet, setDiet] = useState<Diet | undefined>()
+
+  const filtered = useMemo(() => filterMenuByDiet(menu, { without, diet }), [menu, without, diet])
+  const activeTab = filtered.categories.find((category) => category.id === tabId) ?? filtered.categories[0]
+  const results = useMemo(() => searchMenu(filtered, query), [filtered, query])
+  const searching = query.trim() !== ""
+  const shown = searching ? results.categories : activeTab ? [activeTab] : []
+  const legend = menuLegend(menuItems({ categories: shown }))
+  const filtering = without.length > 0 || diet !== undefined
+
+  // Links from the menu search end in #kategorie-<id>: open the tab holding
+  // that category and scroll to it.
+  useEffect(() => {
+    const openHash = () => {
+      const id = window.location.hash.replace(/^#kategorie-/, "")
+      const tab = menu.categories.find((category) => findCategory({ categories: [category] }, id))
+      if (!tab) return
+      setQuery("")
+      setTabId(tab.id)
+      requestAnimationFrame(() => document.getElementById(`kategorie-${id}`)?.scrollIntoView())
+    }
+    openHash()
+    window.addEventListener("hashchange", openHash)
+    return () => window.removeEventListener("hashchange", openHash)
+  }, [menu])
+
+  const toggleAllergen = (code: AllergenCode) =>
+    setWithout((codes) => (codes.includes(code) ? codes.filter((c) => c !== code) : [...codes, code]))
+
+  const setQuantity = (itemId: string, quantity: number) =>
+    setOrder((lines) =>
+      quantity > 0
+        ? lines.map((line) => (line.itemId === itemId ? { ...line, quantity } : line))
+        : lines.filter((line) => line.itemId !== itemId),
+    )
+
+  const addToOrder = (item: MenuItem) =>
+    setOrder((lines) =>
+      lines.some((line) => line.itemId === item.id)
+        ? lines.map((line) => (line.itemId === item.id ? { ...line, quantity: line.quantity + 1 } : line))
+        : [...lines, { itemId: item.id, title: item.title, priceCents: item.priceCents, quantity: 1 }],
+    )
+
+  return (
+    <div className={tableNumber ? "mx-auto w-full max-w-2xl pb-24" : "mx-auto w-full max-w-2xl"}>
+      <div className="sticky top-0 z-10 -mx-4 space-y-3 bg-black/90 px-4 py-3 backdrop-blur">
+        {tableNumber && <p className="text-sm text-amber-200">{t("menu.table", { number: tableNumber })}</p>}
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              type="search"
+              aria-label={t("menu.search")}
+              placeholder={t("menu.searchPlaceholder")}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Button
+            variant={filtering ? "default" : "outline"}
+            aria-label={t("menu.filter")}
+            aria-expanded={filterOpen}
+            onClick={() => setFilterOpen((open) => !open)}
+          >
+            <Filter className="h-4 w-4" />
+          </Button>
+        </div>
+        {filterOpen && (
+          <div className="space-y-2 text-sm">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(dietLabels) as Diet[]).map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={diet === option ? "default" : "outline"}
+                  onClick={() => setDiet((current) => (current === option ? undefined : option))}
+                >
+                  {dietLabels[option]}
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {allergenCodes.map((code) => (
+                <Button
+                  key={code}
+                  size="sm"
+                  variant={without.includes(code) ? "default" : "outline"}
+                  onClick={() => toggleAllergen(code)}
+                >
+                  {t("menu.without", { allergen: allergenLabels[code] })}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+        <nav aria-label={t("menu.categories")} className="flex gap-2 overflow-x-auto pb-1">
+          {filtered.categories.map((category) => (
+            <Button
+              key={category.id}
+              size="sm"
+              variant={!searching && category.id === activeTab?.id ? "default" : "outline"}
+              className="shrink-0"
+              onClick={() => {
+                setQuery("")
+                setTabId(category.id)
+                window.scrollTo({ top: 0 })
+              }}
+            >
+              {category.title}
+            </Button>
+          ))}
+        </nav>
+        {!searching && (activeTab?.children?.length ?? 0) > 1 && (
+          <nav aria-label={t("menu.subcategories")} className="flex gap-3 overflow-x-auto text-sm">
+            {activeTab?.children?.map((child) => (
+              <a key={child.id} href={`#kategorie-${child.id}`} className="shrink-0 text-gray-300 underline">
+                {child.title}
+              </a>
+            ))}
+          </nav>
+        )}
+      </div>
+
+      {shown.map((category) => (
+        <CategorySection key={category.id} category={category} onAdd={tableNumber ? addToOrder : undefined} />
+      ))}
+      {searching && shown.length === 0 && <p className="mt-8 text-gray-300">{t("menu.nothingFound", { query })}</p>}
+      {!searching && shown.length === 0 && filtering && (
+        <p className="mt-8 text-gray-300">{t("menu.nothingMatches")}</p>
+      )}
+
+      {(legend.additives.length > 0 || legend.allergens.length > 0) && (
+        <div className="mt-8 space-y-1 text-xs text-gray-400">
+          {legend.additives.length > 0 && (
+            <p>{legend.additives.map(({ number, label }) => `${number} ${label}`).join(" · ")}</p>
+          )}
+          {legend.allergens.length > 0 && (
+            <p>
+              {t("menu.allergens", {
+                list: legend.allergens.map(({ code, label }) => `${code} ${label}`).join(" · "),
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {tableNumber && (
+        <TableOrderBar tableNumber={tableNumber} lines={order} onQuantityChange={setQuantity} onSent={() => setOrder([])} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Bell, Receipt } from "lucide-react"
+import type { OrderLine, ServiceRequestInput } from "../../types/table-service"
+import { formatPrice } from "../../lib/menu"
+import { sendJson } from "../../lib/client-api"
+import { orderTotal, serviceKindLabels } from "../../lib/table-service"
+import { toast } from "@/components/hooks/use-toast"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Toaster } from "@/components/lightswind/toaster"
+
+interface TableOrderBarProps {
+  tableNumber: number
+  lines: OrderLine[]
+  onQuantityChange: (itemId: string, quantity: number) => void
+  onSent: () => void
+}
+
+// Bottom bar of the table menu: the order in progress plus the two calls
+// that need no order.
+export default function TableOrderBar({ tableNumber, lines, onQuantityChange, onSent }: TableOrderBarProps) {
+  const [open, setOpen] = useState(false)
+  const [note, setNote] = useState("")
+  const [sending, setSending] = useState(false)
+  const count = lines.reduce((sum, line) => sum + line.quantity, 0)
+
+  const send = async (input: ServiceRequestInput) => {
+    try {
+      setSending(true)
+      await sendJson(`/api/tables/${tableNumber}/requests`, "POST", input)
+      toast.success({
+        title: input.kind === "order" ? "Bestellung ist unterwegs" : serviceKindLabels[input.kind],
+        description: "Die Crew hat Bescheid bekommen und kommt gleich zu euch.",
+      })
+      if (input.kind === "order") {
+        setOpen(false)
+        setNote("")
+        onSent()
+      }
+    } catch (err) {
+      toast.destructive({
+        title: "Das hat nicht geklappt",
+        description: err instanceof Error ? err.message : "Bitte nochmal versuchen oder an der Bar bestellen.",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-20 border-t border-white/10 bg-black/95 px-4 py-3 backdrop-blur">
+      <Toaster />
+      <div className="mx-auto max-w-2xl space-y-3">
+        {open && lines.length > 0 && (
+          <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {lines.map((line) => (
+              <div key={line.itemId} className="flex items-center gap-2 text-white">
+                <Button size="sm" variant="outline" onClick={() => onQuantityChange(line.itemId, line.quantity - 1)}>
+                  −
+                </Button>
+                <span className="w-6 text-center">{line.quantity}</span>
+                <Button size="sm" variant="outline" onClick={() => onQuantityChange(line.itemId, line.quantity + 1)}>
+                  +
+                </Button>
+                <span className="flex-1">{line.title}</span>
+                <span className="whitespace-nowrap">{formatPrice(line.priceCents * line.quantity)}</span>
+              </div>
+            ))}
+            <Input
+              aria-label="Notiz zur Bestellung"
+              placeholder="Notiz, z.B. ohne Eis"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="outline" disabled={sending} onClick={() => send({ kind: "waiter" })}>
+            <Bell className="mr-1 h-4 w-4" />
+            {serviceKindLabels.waiter}
+          </Button>
+          <Button size="sm" variant="outline" disabled={sending} onClick={() => send({ kind: "bill" })}>
+            <Receipt className="mr-1 h-4 w-4" />
+            {serviceKindLabels.bill}
+          </Button>
+          {count > 0 &&
+            (open ? (
+              <Button
+                size="sm"
+                className="ml-auto"
+                disabled={sending}
+                onClick={() =>
+                  send({
+                    kind: "order",
+                    lines: lines.map(({ itemId, quantity }) => ({ itemId, quantity })),
+                    ...(note.trim() ? { note } : {}),
+                  })
+                }
+              >
+                Jetzt bestellen · {formatPrice(orderTotal(lines))}
+              </Button>
+            ) : (
+              <Button size="sm" className="ml-auto" onClick={() => setOpen(true)}>
+                {count} Artikel · {formatPrice(orderTotal(lines))}
+              </Button>
+            ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+
+import Link from "next/link"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card"
+import { Badge } from "../components/ui/badge"
+import { Loader2 } from "lucide-react"
+import type { Fixture, MatchOutcome, TeamSplit } from "../types/bundesliga"
+import { DEFAULT_COMPETITION, findCompetition, nextFixture, pointsProgress, recentForm, teamSplit } from "../lib/bundesliga"
+import { BAR_TIME_ZONE } from "../lib/dates"
+import { useTeamSeason } from "@/hooks/use-team-season"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/lightswind/chart"
+
+interface TeamDetailProps {
+  teamId: number
+  competition?: string
+}
+
+const outcomeColors: Record<MatchOutcome, string> = {
+  win: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  draw: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  loss: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+}
+
+const chartConfig: ChartConfig = {
+  points: { label: "Punkte", color: "#f59e0b" },
+}
+
+function kickOff(fixture: Fixture): string {
+  return new Date(fixture.match.matchDateTimeUTC).toLocaleString("de-DE", {
+    timeZone: BAR_TIME_ZONE,
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+function FixtureLine({ fixture }: { fixture: Fixture }) {
+  return (
+    <div className="flex items-center justify-between gap-3 border-b py-2 text-sm">
+      <span className="text-muted-foreground whitespace-nowrap">{fixture.match.group.groupOrderID}.</span>
+      <span className="flex-1 truncate">
+        {fixture.home ? "vs." : "@"} {fixture.opponent.teamName}
+      </span>
+      {fixture.outcome ? (
+        <Badge variant="secondary" className={outcomeColors[fixture.outcome]}>
+          {fixture.goalsFor}:{fixture.goalsAgainst}
+        </Badge>
+      ) : (
+        <span className="whitespace-nowrap text-muted-foreground">{kickOff(fixture)}</span>
+      )}
+    </div>
+  )
+}
+
+function SplitColumn({ title, split }: { title: string; split: TeamSplit }) {
+  return (
+    <div className="rounded-md border p-3 text-sm">
+      <p className="font-semibold">{title}</p>
+      <p>
+        {split.played} Spiele · {split.points} Punkte
+      </p>
+      <p className="text-muted-foreground">
+        {split.won} S · {split.draw} U · {split.lost} N · {split.goalsFor}:{split.goalsAgainst} Tore
+      </p>
+    </div>
+  )
+}
+
+export default function TeamDetail({ teamId, competition = DEFAULT_COMPETITION }: TeamDetailProps) {
+  const { season, loading, error } = useTeamSeason(competition, teamId)
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <span className="ml-2">Lade Vereinsdaten...</span>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error || !season) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center text-red-600 dark:text-red-400">
+            <p>Fehler beim Laden der Vereinsdaten: {error}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { standing, position, fixtures } = season
+  const next = nextFixture(fixtures)
+  const upcoming = fixtures.filter((fixture) => !fixture.outcome).slice(0, 5)
+  const progress = pointsProgress(fixtures)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3">
+            {standing.teamIconUrl && (
+              <img src={standing.teamIconUrl} alt={`${standing.teamName} logo`} className="w-10 h-10 object-contain" />
+            )}
+            {standing.teamName}
+            <Badge variant="secondary">
+              Platz {position} · {findCompetition(competition)?.name}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4 text-center">
+          <div>
+            <p className="text-3xl font-bold">{standing.points}</p>
+            <p className="text-sm text-muted-foreground">Punkte</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold">{standing.matches}</p>
+            <p className="text-sm text-muted-foreground">Spiele</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold">
+              {standing.won}/{standing.draw}/{standing.lost}
+            </p>
+            <p className="text-sm text-muted-foreground">S/U/N</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold">
+              {standing.goals}:{standing.opponentGoals}
+            </p>
+            <p className="text-sm text-muted-foreground">Tore</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {progress.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Punkte pro Spieltag</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="max-h-72 w-full">
+              <LineChart data={progress} margin={{ left: 0, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="matchday" tickLine={false} axisLine={false} />
+                <YAxis width={32} tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.matchday}. Spieltag`} />} />
+                <Line dataKey="points" type="monotone" stroke="var(--color-points)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Letzte Spiele</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentForm(fixtures)
+              .reverse()
+              .map((fixture) => (
+                <FixtureLine key={fixture.match.matchID} fixture={fixture} />
+              ))}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Nächste Spiele</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {upcoming.map((fixture) => (
+              <FixtureLine key={fixture.match.matchID} fixture={fixture} />
+            ))}
+            {!next && <p className="text-muted-foreground text-sm">Keine Spiele mehr in dieser Saison.</p>}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Heim und Auswärts</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <SplitColumn title="Heim" split={teamSplit(fixtures, true)} />
+          <SplitColumn title="Auswärts" split={teamSplit(fixtures, false)} />
+        </CardContent>
+      </Card>
+
+      <Link href="/sportarena" className="inline-block text-amber-500 underline">
+        Zurück zur Sportarena
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import Image from "next/image"
+import { Facebook, Instagram, Linkedin, Music2, Twitter, type LucideIcon } from "lucide-react"
+import type { CrewProfile, SocialNetwork } from "../../types/team"
+import { socialLabels } from "../../lib/team"
+import { useTeam } from "@/hooks/use-team"
+import { TeamCarousel } from "@/components/lightswind/team-carousel"
+
+const socialIcons: Record<SocialNetwork, LucideIcon> = {
+  instagram: Instagram,
+  facebook: Facebook,
+  tiktok: Music2,
+  linkedin: Linkedin,
+  x: Twitter,
+}
+
+function CrewCard({ profile }: { profile: CrewProfile }) {
+  return (
+    <li>
+      <div className="space-y-6">
+        <img
+          className="lg:border-5 mx-auto h-40 w-40 rounded-full object-cover lg:border-yellow-500 xl:h-56 xl:w-56"
+          src={profile.photo}
+          width="200"
+          height="200"
+          alt={profile.name}
+        />
+        <div className="space-y-2">
+          <div className="space-y-1 rounded-2xl p-1 text-3xl text-blue-100 font-black leading-6 lg:bg-black/10">
+            <h3>{profile.name}</h3>
+            <p className="text-yellow-600">{profile.role}</p>
+          </div>
+          {profile.bio && <p className="text-gray-300">{profile.bio}</p>}
+          {profile.favouriteDrink && (
+            <p className="text-sm text-gray-400">
+              Lieblingsgetränk: <span className="text-amber-200">{profile.favouriteDrink}</span>
+            </p>
+          )}
+          {profile.socials.length > 0 && (
+            <ul role="list" className="flex justify-center space-x-5">
+              {profile.socials.map((link) => {
+                const Icon = socialIcons[link.network]
+                return (
+                  <li key={link.network}>
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-gray-500"
+                    >
+                      <span className="sr-only">
+                        {profile.name} auf {socialLabels[link.network]}
+                      </span>
+                      <Icon className="h-5 w-5" aria-hidden="true" />
+                    </a>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </li>
+  )
+}
+
+interface TeamRosterProps {
+  // the full profiles in a grid, or a compact carousel for the start page
+  layout?: "grid" | "carousel"
+  className?: string
+}
+
+// The crew on the start page and on /about/team, both from the profiles at
+// /api/team.
+export default function TeamRoster({ layout = "grid", className = "" }: TeamRosterProps) {
+  const team = useTeam()
+
+  return (
+    <section id="section-team" className={`bg-gradient-to-b from-[#1A232E] to-[#1A232E] ${className}`}>
+      <div className="mx-auto max-w-7xl px-4 text-center sm:px-6 lg:px-8 lg:py-20">
+        <div className="space-y-5 sm:space-y-1">
+          <div className="space-y-3 sm:mx-auto sm:max-w-xl lg:max-w-5xl">
+            <div className="flex flex-row items-start justify-center gap-x-5">
+              <h2 className="headingA text-6xl font-extrabold tracking-tight text-yellow-600 sm:text-7xl">Das Team</h2>
+              <img src="/matroseimseil.png" width="60" height="auto" alt="" />
+            </div>
+            <div className="flex flex-col items-center justify-center">
+              <Image src="/LogoAlt.png" width="200" height="20" alt="LogoAlt" />
+            </div>
+          </div>
+          <p className="text-xl text-gray-100">Unser Team stellt sich vor</p>
+        </div>
+
+        {layout === "carousel" ? (
+          <TeamCarousel
+            key={team.length}
+            members={team.map((profile) => ({
+              id: profile.id,
+              name: profile.name,
+              role: profile.role,
+              image: profile.photo,
+              ...(profile.bio ? { bio: profile.bio } : {}),
+            }))}
+            title=""
+            background="transparent"
+            infoTextColor="rgb(219, 234, 254)"
+            className="mt-6"
+          />
+        ) : (
+          <ul
+            role="list"
+            className="mx-auto mt-10 space-y-16 sm:grid sm:grid-cols-2 sm:gap-16 sm:space-y-0 lg:max-w-5xl lg:grid-cols-3"
+          >
+            {team.map((profile) => (
+              <CrewCard key={profile.id} profile={profile} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { LeaderboardEntry } from "../../types/tipprunde"
+import { sendJson } from "../../lib/client-api"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/lightswind/table"
+
+interface LeaderboardProps {
+  // without a matchday the season ranking
+  matchday?: number
+  // bumped after a tip was saved or results came in
+  refreshKey?: number
+}
+
+export default function Leaderboard({ matchday, refreshKey }: LeaderboardProps) {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const query = matchday ? `?matchday=${matchday}` : ""
+    sendJson<LeaderboardEntry[]>(`/api/tipprunde/leaderboard${query}`, "GET")
+      .then((loaded) => {
+        setEntries(loaded)
+        setError(null)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "An error occurred"))
+  }, [matchday, refreshKey])
+
+  if (error) return <p className="text-red-600 dark:text-red-400">Fehler beim Laden der Tabelle: {error}</p>
+  if (!entries) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+  if (entries.length === 0) {
+    return <p className="text-muted-foreground">Noch keine ausgewerteten Tipps.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-center">Tipps</TableHead>
+          <TableHead className="text-center">Volltreffer</TableHead>
+          <TableHead className="text-center">Punkte</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.userId}>
+            <TableCell className="font-medium">{entry.rank}</TableCell>
+            <TableCell>{entry.name}</TableCell>
+            <TableCell className="text-center">{entry.tips}</TableCell>
+            <TableCell className="text-center">{entry.exact}</TableCell>
+            <TableCell className="text-center font-bold">{entry.points}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
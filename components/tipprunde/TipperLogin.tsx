@@ -0,0 +1,42 @@
+"use client"
+
+import { signIn } from "next-auth/react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/lightswind/tabs"
+import LoginForm from "../auth/LoginForm"
+import CrewMemberForm, { type CrewMemberValues } from "../auth/CrewMemberForm"
+import { sendJson } from "../../lib/client-api"
+
+interface TipperLoginProps {
+  onSuccess: () => void
+}
+
+export default function TipperLogin({ onSuccess }: TipperLoginProps) {
+  const register = async ({ name, email, password }: CrewMemberValues) => {
+    await sendJson("/api/tipprunde/register", "POST", { name, email, password })
+    await signIn("credentials", { email, password, redirect: false })
+    onSuccess()
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Mittippen</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="login">
+          <TabsList className="mb-4">
+            <TabsTrigger value="login">Anmelden</TabsTrigger>
+            <TabsTrigger value="register">Neu dabei</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login">
+            <LoginForm onSuccess={onSuccess} />
+          </TabsContent>
+          <TabsContent value="register">
+            <CrewMemberForm submitLabel="Konto anlegen" showRole={false} onSubmit={register} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
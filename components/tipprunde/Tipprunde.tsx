@@ -0,0 +1,239 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { signOut } from "next-auth/react"
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import type { Match } from "../../types/bundesliga"
+import type { Tip } from "../../types/tipprunde"
+import { findCompetition, finalResult } from "../../lib/bundesliga"
+import { BAR_TIME_ZONE } from "../../lib/dates"
+import { sendJson } from "../../lib/client-api"
+import { isTipLocked, MAX_TIP_GOALS, TIPPRUNDE_LEAGUE, tipOutcomeLabels, tipPoints } from "../../lib/tipprunde"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/lightswind/card"
+import { Button } from "@/components/lightswind/button"
+import { Input } from "@/components/lightswind/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/lightswind/tabs"
+import Leaderboard from "./Leaderboard"
+import TipperLogin from "./TipperLogin"
+
+const rounds = findCompetition(TIPPRUNDE_LEAGUE)?.rounds ?? 34
+
+interface TipRowProps {
+  match: Match
+  tip?: Tip
+  onSave: (match: Match, goals1: number, goals2: number) => Promise<void>
+}
+
+function TipRow({ match, tip, onSave }: TipRowProps) {
+  const [goals1, setGoals1] = useState(tip?.goals1.toString() ?? "")
+  const [goals2, setGoals2] = useState(tip?.goals2.toString() ?? "")
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const locked = isTipLocked(match)
+  const result = match.matchIsFinished ? finalResult(match) : undefined
+  const changed = goals1 !== (tip?.goals1.toString() ?? "") || goals2 !== (tip?.goals2.toString() ?? "")
+
+  const save = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      await onSave(match, Number(goals1), Number(goals2))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 border-b pb-3">
+      <div className="flex-1 min-w-[220px]">
+        <p className="font-medium">
+          {match.team1.teamName} – {match.team2.teamName}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {new Date(match.matchDateTimeUTC).toLocaleString("de-DE", {
+            timeZone: BAR_TIME_ZONE,
+            weekday: "short",
+            day: "2-digit",
+            month: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}{" "}
+          Uhr
+          {result && ` · Ergebnis ${result.pointsTeam1}:${result.pointsTeam2}`}
+        </p>
+      </div>
+      {locked ? (
+        <p className="text-sm">
+          {tip ? `Dein Tipp ${tip.goals1}:${tip.goals2}` : "Kein Tipp"}
+          {tip?.outcome && ` · ${tipOutcomeLabels[tip.outcome]}, ${tip.points} Punkte`}
+        </p>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Input
+            aria-label={`Tore ${match.team1.teamName}`}
+            type="number"
+            min={0}
+            max={MAX_TIP_GOALS}
+            value={goals1}
+            onChange={(e) => setGoals1(e.target.value)}
+            className="w-16 text-center"
+          />
+          <span>:</span>
+          <Input
+            aria-label={`Tore ${match.team2.teamName}`}
+            type="number"
+            min={0}
+            max={MAX_TIP_GOALS}
+            value={goals2}
+            onChange={(e) => setGoals2(e.target.value)}
+            className="w-16 text-center"
+          />
+          <Button size="sm" onClick={save} disabled={saving || !changed || goals1 === "" || goals2 === ""}>
+            Tippen
+          </Button>
+        </div>
+      )}
+      {error && <p className="w-full text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
+
+export default function Tipprunde() {
+  const [tips, setTips] = useState<Tip[] | null>(null)
+  const [signedIn, setSignedIn] = useState<boolean | null>(null)
+  const [matchday, setMatchday] = useState<number | null>(null)
+  const [matches, setMatches] = useState<Match[] | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTips = useCallback(async () => {
+    const response = await fetch("/api/tipprunde/tips")
+    if (response.status === 401) {
+      setSignedIn(false)
+      return
+    }
+    if (!response.ok) throw new Error((await response.json()).error)
+    setTips(await response.json())
+    setSignedIn(true)
+  }, [])
+
+  useEffect(() => {
+    loadTips().catch((err) => setError(err instanceof Error ? err.message : "An error occurred"))
+  }, [loadTips])
+
+  // Without a matchday OpenLigaDB answers with the current one.
+  useEffect(() => {
+    const query = matchday ? `&matchday=${matchday}` : ""
+    setMatches(null)
+    sendJson<Match[]>(`/bundesliga-standings?data=matchday&league=${TIPPRUNDE_LEAGUE}${query}`, "GET")
+      .then((loaded) => {
+        setMatches(loaded)
+        if (!matchday && loaded[0]) setMatchday(loaded[0].group.groupOrderID)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "An error occurred"))
+  }, [matchday])
+
+  const saveTip = async (match: Match, goals1: number, goals2: number) => {
+    await sendJson("/api/tipprunde/tips", "POST", { matchId: match.matchID, goals1, goals2 })
+    await loadTips()
+  }
+
+  const signedInAgain = async () => {
+    await loadTips()
+    setRefreshKey((key) => key + 1)
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <p className="text-center text-red-600 dark:text-red-400">Fehler beim Laden der Tipprunde: {error}</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {signedIn === false && (
+        <div className="flex justify-center">
+          <TipperLogin onSuccess={signedInAgain} />
+        </div>
+      )}
+
+      {signedIn && (
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+            <CardTitle>{matchday ? `${matchday}. Spieltag` : "Spieltag"}</CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                aria-label="Vorheriger Spieltag"
+                disabled={!matchday || matchday <= 1}
+                onClick={() => setMatchday((current) => (current ?? 1) - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                aria-label="Nächster Spieltag"
+                disabled={!matchday || matchday >= rounds}
+                onClick={() => setMatchday((current) => (current ?? 1) + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => signOut({ redirect: false }).then(() => setSignedIn(false))}>
+                Abmelden
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!matches || !tips ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
+                <span className="ml-2">Lade Spieltag...</span>
+              </div>
+            ) : (
+              matches.map((match) => (
+                <TipRow
+                  key={match.matchID}
+                  match={match}
+                  tip={tips.find((tip) => tip.matchId === match.matchID)}
+                  onSave={saveTip}
+                />
+              ))
+            )}
+            <p className="text-sm text-muted-foreground">
+              Volltreffer {tipPoints.exact} Punkte, richtige Tordifferenz {tipPoints.difference}, richtige Tendenz{" "}
+              {tipPoints.tendency}. Tipps sind bis zum Anpfiff änderbar.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tabelle</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="season">
+            <TabsList className="mb-4">
+              <TabsTrigger value="season">Saison</TabsTrigger>
+              <TabsTrigger value="matchday">{matchday ? `${matchday}. Spieltag` : "Spieltag"}</TabsTrigger>
+            </TabsList>
+            <TabsContent value="season">
+              <Leaderboard refreshKey={refreshKey} />
+            </TabsContent>
+            <TabsContent value="matchday">
+              {matchday && <Leaderboard matchday={matchday} refreshKey={refreshKey} />}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -48,6 +48,18 @@ export const newFeatures = [
     subtitle:
         'Echtzeit Tabelle der Bundesliga',
   },
+  {
+    href: '/sportarena',
+    title: '2. Liga & Frauen-Bundesliga',
+    subtitle:
+        'Tabellen und Spieltage',
+  },
+  {
+    href: '/sportarena',
+    title: 'Pokal & Europapokal',
+    subtitle:
+        'DFB-Pokal, Champions League, Europa League und Conference League',
+  },
 ];
 
 export const insights = [
@@ -0,0 +1,70 @@
+import type { Competition, TieBreaker } from '../types/bundesliga';
+
+// DFL order: points, goal difference, goals, then the direct encounters,
+// then away goals over the whole season.
+const dflTieBreakers: TieBreaker[] = ['points', 'goalDiff', 'goals', 'headToHead', 'awayGoals'];
+
+// Everything the Sportarena screens. Shortcuts are OpenLigaDB's league
+// shortcuts; the first entry is the default competition.
+const competitions: Competition[] = [
+  {
+    shortcut: 'bl1',
+    name: 'Bundesliga',
+    format: 'league',
+    rounds: 34,
+    freiburg: true,
+    rules: {
+      zones: [
+        { from: 1, to: 4, label: 'Champions League', color: 'green' },
+        { from: 5, to: 5, label: 'Europa League', color: 'blue' },
+        { from: 6, to: 6, label: 'Conference League Quali', color: 'teal' },
+        { from: 16, to: 16, label: 'Relegation', color: 'orange' },
+        { from: 17, to: 18, label: 'Abstieg', color: 'red' },
+      ],
+      tieBreakers: dflTieBreakers,
+    },
+  },
+  {
+    shortcut: 'bl2',
+    name: '2. Bundesliga',
+    format: 'league',
+    rounds: 34,
+    rules: {
+      zones: [
+        { from: 1, to: 2, label: 'Aufstieg', color: 'green' },
+        { from: 3, to: 3, label: 'Relegation Aufstieg', color: 'amber' },
+        { from: 16, to: 16, label: 'Relegation Abstieg', color: 'orange' },
+        { from: 17, to: 18, label: 'Abstieg', color: 'red' },
+      ],
+      tieBreakers: dflTieBreakers,
+    },
+  },
+  {
+    shortcut: 'fbl1',
+    name: 'Frauen-Bundesliga',
+    format: 'league',
+    rounds: 26,
+    rules: {
+      zones: [
+        { from: 1, to: 3, label: 'Champions League', color: 'green' },
+        { from: 13, to: 14, label: 'Abstieg', color: 'red' },
+      ],
+      tieBreakers: dflTieBreakers,
+    },
+    // the league was expanded to 14 teams from 2025/26
+    seasonRules: {
+      2024: {
+        zones: [
+          { from: 1, to: 3, label: 'Champions League', color: 'green' },
+          { from: 11, to: 12, label: 'Abstieg', color: 'red' },
+        ],
+      },
+    },
+  },
+  { shortcut: 'dfb', name: 'DFB-Pokal', format: 'knockout', rounds: 6, freiburg: true },
+  { shortcut: 'ucl', name: 'Champions League', format: 'knockout', rounds: 17, freiburg: true },
+  { shortcut: 'uel', name: 'Europa League', format: 'knockout', rounds: 17, freiburg: true },
+  { shortcut: 'uecl', name: 'Conference League', format: 'knockout', rounds: 17, freiburg: true },
+];
+
+export default competitions;
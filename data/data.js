@@ -1,366 +0,0 @@
-import images from './images';
-
-const biereOffen = [
-    {
-      title: 'Flensburger Pils',
-      price: 'Euro 3.30',
-      tags: 'vom Fass| 33cl',
-    },
-    {
-        title: 'Flensburger Pils',
-        price: 'Euro 3.90',
-        tags: 'vom Fass| 40cl',
-    },
-    {
-        title: 'Flensburger Pils',
-         price: 'Euro 3.30',
-        tags: 'vom Fass| 33cl',
-    },
-
-    {
-        title: 'Flensburger Pils',
-        price: 'Euro 3.90',
-        tags: 'vom Fass| 40cl',
-    },
-    {
-        title: 'Waldhaus ohne Filter',
-        price: 'Euro 3.30',
-        tags: 'vom Fass| 30cl',
-    },
-        
-    {
-        title: 'Waldhaus ohne Filter',
-        price: 'Euro 3.90',
-        tags: 'vom Fass| 40cl',
-    },
-    {
-        title: 'Ganter Weizen hell',
-        price: 'Euro 3.30',
-        tags: 'vom Fass| 30cl',
-    },
-    
-    {
-        title: 'Treibholz',
-        price: 'Euro 17.00',
-        tags: 'Bier nach Wahl| 6 x 30cl',
-    },
-  ];
-
-  const flaschenPost = [
-    {
-      title: 'Astra',
-      price: 'Euro 3.30',
-      tags: 'Flasche | das Kultbier | 33cl',
-    },
-    {
-        title: 'Ketterer',
-        price: 'Euro 3.30',
-        tags: 'Zwickel | Pils | 33cl',
-      },
-    {
-        title: 'Magisch dunkel',
-        price: 'Euro 3.30',
-        tags: 'Flasche | 33cl',
-      },
-      {
-        title: 'Augustiner hell',
-        price: 'Euro 4.30',
-        tags: 'Flasche | 50cl',
-      },
-      {
-        title: 'Augustiner Edelstoff',
-        price: 'Euro 4.30',
-        tags: 'Flasche | 50cl',
-      },
-      {
-        title: 'Badisch hell',
-        price: 'Euro 4.30',
-        tags: 'Flasche | 50cl',
-      },
-      {
-        title: 'Badisch hell',
-        price: 'Euro 4.30',
-        tags: 'Flasche | 50cl',
-      },
-      {
-        title: 'Weizen dunkel',
-        price: 'Euro 3.30',
-        tags: 'Flasche | 50cl',
-      },
-      {
-        title: 'Kristallweizen',
-        price: 'Euro 4.30',
-        tags: 'Flasche | 33cl',
-      },
-      {
-        title: 'Flens Frei',
-        price: 'Euro 3.30',
-        tags: 'Flasche | 33cl',
-      },
-      {
-        title: 'Weizen alkoholfrei',
-        price: 'Euro 4.30',
-        tags: 'Flasche | 50cl',
-      },
-      {
-        title: 'Radler',
-        price: 'Euro 3.90',
-        tags: 'Bier | Zitronenlimo   | 40cl',
-      },
-      
- 
-  ];
-
-const weineWeiss = [
-  {
-    title: 'Gutedel',
-    price: 'Euro 4.50',
-    tags: 'offen| 25 cl',
-  },
-  
-  {
-    title: 'Weisser Burgunder',
-    price: 'Euro 5.30',
-    tags: 'offen | 25cl',
-  },
-  {
-    title: 'Grauer Bugunder',
-    price: 'Euro 5.30',
-    tags: 'offen | 25cl',
-  },
-  {
-    title: 'Weinschorle',
-    price: 'Euro 3.30',
-    tags: 'Gutedel-Mineralwasser | 25cl',
-  },
-  {
-    title: 'Weisburgunder Sekt',
-    price: 'Euro 3.90',
-    tags: 'Schaumwein | 10cl'
-  },
-];
-
-const weineRot = [
-  {
-    title: 'Gutedel rot',
-    price: 'Euro 4.50',
-    tags: 'offen| 25 cl',
-  },
-  {
-    title: 'Spätburgunder Rose',
-    price: 'Euro 5.50',
-    tags: 'offen | 25cl',
-  },
-  
-  ];
-
-const longDrinks = [
-  {
-    title: 'Aperol Sprtiz',
-    price: '$20',
-    tags: 'Aperol | Villa Marchesi prosecco | soda | 30 ml',
-  },
-  {
-    title: "Dark 'N' Stormy",
-    price: '$16',
-    tags: 'Dark rum | Ginger beer | Slice of lime',
-  },
-  {
-    title: 'Daiquiri',
-    price: '$10',
-    tags: 'Rum | Citrus juice | Sugar',
-  },
-  {
-    title: 'Old Fashioned',
-    price: '$31',
-    tags: 'Bourbon | Brown sugar | Angostura Bitters',
-  },
-  {
-    title: 'Negroni',
-    price: '$26',
-    tags: 'Gin | Sweet Vermouth | Campari | Orange garnish',
-  },
-];
-
-const cocktails = [
-    {
-      title: 'Aperol Sprtiz',
-      price: '$20',
-      tags: 'Aperol | Villa Marchesi prosecco | soda | 30 ml',
-    },
-    {
-      title: "Dark 'N' Stormy",
-      price: '$16',
-      tags: 'Dark rum | Ginger beer | Slice of lime',
-    },
-    {
-      title: 'Daiquiri',
-      price: '$10',
-      tags: 'Rum | Citrus juice | Sugar',
-    },
-    {
-      title: 'Old Fashioned',
-      price: '$31',
-      tags: 'Bourbon | Brown sugar | Angostura Bitters',
-    },
-    {
-      title: 'Negroni',
-      price: '$26',
-      tags: 'Gin | Sweet Vermouth | Campari | Orange garnish',
-    },
-  ];
-
-  const softDrinks = [
-    {
-      title: 'Aperol Sprtiz',
-      price: '$20',
-      tags: 'Aperol | Villa Marchesi prosecco | soda | 30 ml',
-    },
-    {
-      title: "Dark 'N' Stormy",
-      price: '$16',
-      tags: 'Dark rum | Ginger beer | Slice of lime',
-    },
-    {
-      title: 'Daiquiri',
-      price: '$10',
-      tags: 'Rum | Citrus juice | Sugar',
-    },
-    {
-      title: 'Old Fashioned',
-      price: '$31',
-      tags: 'Bourbon | Brown sugar | Angostura Bitters',
-    },
-    {
-      title: 'Negroni',
-      price: '$26',
-      tags: 'Gin | Sweet Vermouth | Campari | Orange garnish',
-    },
-  ];
-
-  const kurze = [
-    {
-      title: 'Aperol Sprtiz',
-      price: '$20',
-      tags: 'Aperol | Villa Marchesi prosecco | soda | 30 ml',
-    },
-    {
-      title: "Dark 'N' Stormy",
-      price: '$16',
-      tags: 'Dark rum | Ginger beer | Slice of lime',
-    },
-    {
-      title: 'Daiquiri',
-      price: '$10',
-      tags: 'Rum | Citrus juice | Sugar',
-    },
-    {
-      title: 'Old Fashioned',
-      price: '$31',
-      tags: 'Bourbon | Brown sugar | Angostura Bitters',
-    },
-    {
-      title: 'Negroni',
-      price: '$26',
-      tags: 'Gin | Sweet Vermouth | Campari | Orange garnish',
-    },
-  ];
-
-  const likoere = [
-    {
-      title: 'Aperol Sprtiz',
-      price: '$20',
-      tags: 'Aperol | Villa Marchesi prosecco | soda | 30 ml',
-    },
-    {
-      title: "Dark 'N' Stormy",
-      price: '$16',
-      tags: 'Dark rum | Ginger beer | Slice of lime',
-    },
-    {
-      title: 'Daiquiri',
-      price: '$10',
-      tags: 'Rum | Citrus juice | Sugar',
-    },
-    {
-      title: 'Old Fashioned',
-      price: '$31',
-      tags: 'Bourbon | Brown sugar | Angostura Bitters',
-    },
-    {
-      title: 'Negroni',
-      price: '$26',
-      tags: 'Gin | Sweet Vermouth | Campari | Orange garnish',
-    },
-  ];
-
-  const snacks = [
-    {
-      title: 'Elsässer Flammkuchen klassisch',
-      price: 'Euro 7.50',
-      tags: ' | Zwiebeln | Speck | Creme fraiche',
-    },
-    {
-        title: 'Elsässer Flammkuchen waterkant',
-        price: 'Euro 7.90',
-        tags: ' | Zwiebeln | Lachs | Creme fraiche',
-    },
-    {
-        title: 'Elsässer Flammkuchen vegetarisch',
-        price: 'Euro 7.50',
-        tags: ' | Zwiebeln | Zucchini | Creme fraiche',
-    },
-    
- 
-  ];
- 
-  const warmgetränke = [
-    {
-      title: 'Cafe Creme',
-      price: 'Euro 3.50',
-      tags: ' | Tasse | ',
-    },
-    {
-        title: 'Capuccino',
-        price: 'Euro 3.90',
-        tags: ' | Tasse ',
-    },
-    {
-        title: 'Espresso',
-        price: 'Euro 2.50',
-        tags: ' | Tasse',
-    },
-    {
-      title: 'Tee',
-      price: 'Euro 2.90',
-      tags: ' | Tasse  | Earl Gray  | Minze ',
-  },
-    
- 
-  ];
-
-
-const awards = [
-  {
-    imgUrl: images.award02,
-    title: 'Bib Gourmond',
-    subtitle: 'Lorem ipsum dolor sit amet, consectetur.',
-  },
-  {
-    imgUrl: images.award01,
-    title: 'Rising Star',
-    subtitle: 'Lorem ipsum dolor sit amet, consectetur.',
-  },
-  {
-    imgUrl: images.award05,
-    title: 'AA Hospitality',
-    subtitle: 'Lorem ipsum dolor sit amet, consectetur.',
-  },
-  {
-    imgUrl: images.award03,
-    title: 'Outstanding Chef',
-    subtitle: 'Lorem ipsum dolor sit amet, consectetur.',
-  },
-];
-
-export default { biereOffen, flaschenPost, weineWeiss, weineRot, cocktails, longDrinks, softDrinks, kurze, snacks, likoere, warmgetränke };
@@ -0,0 +1,16 @@
+import type { Milestone } from '../types/history';
+
+// Starting point of a fresh database; the crew continues the story through
+// /admin/history.
+const milestones: Milestone[] = [
+  {
+    id: 'eroeffnung',
+    date: '2017',
+    title: 'Ein Stück St. Pauli in Freiburg',
+    text:
+      'In Hommage an eine typische Kiez-Kneipe auf St. Pauli eröffnet mitten in der Freiburger Altstadt der Rettungsanker, ausgebaut im Stile eines Schiffsrumpfes.',
+    images: [{ src: '/Impress01.jpg', alt: 'Der Rettungsanker von innen' }],
+  },
+];
+
+export default milestones;
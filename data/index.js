@@ -1,4 +1,4 @@
 import images from './images';
-import data from './data';
+import menu from './menu';
 
-export { images, data };
\ No newline at end of file
+export { images, menu };
@@ -0,0 +1,620 @@
+import type { MenuCatalogue } from '../types/menu';
+
+const menuCatalogue: MenuCatalogue = {
+  categories: [
+    {
+      id: 'biere',
+      title: 'Biere',
+      children: [
+        {
+          id: 'fassbier',
+          title: 'Fassbier',
+          items: [
+            {
+              id: 'flensburger-pils-33',
+              title: 'Flensburger Pils',
+              priceCents: 330,
+              serving: { amount: 33, unit: 'cl' },
+              abv: 4.8,
+              tags: ['vom Fass'],
+              translations: { en: { tags: ['on tap'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'flensburger-pils-40',
+              title: 'Flensburger Pils',
+              priceCents: 390,
+              serving: { amount: 40, unit: 'cl' },
+              abv: 4.8,
+              tags: ['vom Fass'],
+              translations: { en: { tags: ['on tap'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'waldhaus-ohne-filter-30',
+              title: 'Waldhaus ohne Filter',
+              priceCents: 330,
+              serving: { amount: 30, unit: 'cl' },
+              abv: 5.6,
+              tags: ['vom Fass'],
+              translations: { en: { tags: ['on tap'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'waldhaus-ohne-filter-40',
+              title: 'Waldhaus ohne Filter',
+              priceCents: 390,
+              serving: { amount: 40, unit: 'cl' },
+              abv: 5.6,
+              tags: ['vom Fass'],
+              translations: { en: { tags: ['on tap'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'ganter-weizen-hell-30',
+              title: 'Ganter Weizen hell',
+              priceCents: 330,
+              serving: { amount: 30, unit: 'cl' },
+              tags: ['vom Fass'],
+              translations: { en: { tags: ['on tap'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'treibholz',
+              title: 'Treibholz',
+              priceCents: 1700,
+              serving: { count: 6, amount: 30, unit: 'cl' },
+              tags: ['Bier nach Wahl'],
+              translations: { en: { tags: ['beer of your choice'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+          ],
+        },
+        {
+          id: 'flaschenpost',
+          title: 'Flaschenpost',
+          items: [
+            {
+              id: 'astra',
+              title: 'Astra',
+              priceCents: 330,
+              serving: { amount: 33, unit: 'cl' },
+              abv: 4.9,
+              tags: ['Flasche', 'das Kultbier'],
+              translations: { en: { tags: ['bottle', 'the cult beer'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'ketterer',
+              title: 'Ketterer',
+              priceCents: 330,
+              serving: { amount: 33, unit: 'cl' },
+              tags: ['Zwickel', 'Pils'],
+              translations: { en: { tags: ['unfiltered lager', 'pilsner'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'magisch-dunkel',
+              title: 'Magisch dunkel',
+              priceCents: 330,
+              serving: { amount: 33, unit: 'cl' },
+              tags: ['Flasche'],
+              translations: { en: { tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'augustiner-hell',
+              title: 'Augustiner hell',
+              priceCents: 430,
+              serving: { amount: 50, unit: 'cl' },
+              abv: 5.2,
+              tags: ['Flasche'],
+              translations: { en: { tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'augustiner-edelstoff',
+              title: 'Augustiner Edelstoff',
+              priceCents: 430,
+              serving: { amount: 50, unit: 'cl' },
+              abv: 5.6,
+              tags: ['Flasche'],
+              translations: { en: { tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'badisch-hell',
+              title: 'Badisch hell',
+              priceCents: 430,
+              serving: { amount: 50, unit: 'cl' },
+              tags: ['Flasche'],
+              translations: { en: { tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'weizen-dunkel',
+              title: 'Weizen dunkel',
+              priceCents: 330,
+              serving: { amount: 50, unit: 'cl' },
+              tags: ['Flasche'],
+              translations: { en: { title: 'Dark wheat beer', tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'kristallweizen',
+              title: 'Kristallweizen',
+              priceCents: 430,
+              serving: { amount: 33, unit: 'cl' },
+              tags: ['Flasche'],
+              translations: { en: { tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'flens-frei',
+              title: 'Flens Frei',
+              priceCents: 330,
+              serving: { amount: 33, unit: 'cl' },
+              abv: 0,
+              tags: ['Flasche'],
+              translations: { en: { tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'weizen-alkoholfrei',
+              title: 'Weizen alkoholfrei',
+              priceCents: 430,
+              serving: { amount: 50, unit: 'cl' },
+              abv: 0,
+              tags: ['Flasche'],
+              translations: { en: { title: 'Alcohol-free wheat beer', tags: ['bottle'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+            {
+              id: 'radler',
+              title: 'Radler',
+              priceCents: 390,
+              serving: { amount: 40, unit: 'cl' },
+              tags: ['Bier', 'Zitronenlimo'],
+              translations: { en: { tags: ['beer', 'lemonade'] } },
+              allergens: ['A'],
+              diet: 'vegan',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'weine',
+      title: 'Weine',
+      children: [
+        {
+          id: 'weine-weiss',
+          title: 'Weine weiss',
+          items: [
+            {
+              id: 'gutedel',
+              title: 'Gutedel',
+              priceCents: 450,
+              serving: { amount: 25, unit: 'cl' },
+              tags: ['offen'],
+              translations: { en: { tags: ['by the glass'] } },
+              allergens: ['O'],
+            },
+            {
+              id: 'weisser-burgunder',
+              title: 'Weisser Burgunder',
+              priceCents: 530,
+              serving: { amount: 25, unit: 'cl' },
+              tags: ['offen'],
+              translations: { en: { tags: ['by the glass'] } },
+              allergens: ['O'],
+            },
+            {
+              id: 'grauer-burgunder',
+              title: 'Grauer Bugunder',
+              priceCents: 530,
+              serving: { amount: 25, unit: 'cl' },
+              tags: ['offen'],
+              translations: { en: { tags: ['by the glass'] } },
+              allergens: ['O'],
+            },
+            {
+              id: 'weinschorle',
+              title: 'Weinschorle',
+              priceCents: 330,
+              serving: { amount: 25, unit: 'cl' },
+              tags: ['Gutedel-Mineralwasser'],
+              translations: { en: { title: 'Wine spritzer', tags: ['Gutedel and sparkling water'] } },
+              allergens: ['O'],
+            },
+            {
+              id: 'weissburgunder-sekt',
+              title: 'Weisburgunder Sekt',
+              priceCents: 390,
+              serving: { amount: 10, unit: 'cl' },
+              tags: ['Schaumwein'],
+              translations: { en: { tags: ['sparkling wine'] } },
+              allergens: ['O'],
+            },
+          ],
+        },
+        {
+          id: 'weine-rot',
+          title: 'Weine Rot',
+          items: [
+            {
+              id: 'gutedel-rot',
+              title: 'Gutedel rot',
+              priceCents: 450,
+              serving: { amount: 25, unit: 'cl' },
+              tags: ['offen'],
+              translations: { en: { tags: ['by the glass'] } },
+              allergens: ['O'],
+            },
+            {
+              id: 'spaetburgunder-rose',
+              title: 'Spätburgunder Rose',
+              priceCents: 550,
+              serving: { amount: 25, unit: 'cl' },
+              tags: ['offen'],
+              translations: { en: { tags: ['by the glass'] } },
+              allergens: ['O'],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'longdrinks-cocktails',
+      title: 'Longdrinks & Cocktails',
+      children: [
+        {
+          id: 'longdrinks',
+          title: 'Longdrinks',
+          items: [
+            {
+              id: 'longdrink-aperol-spritz',
+              title: 'Aperol Sprtiz',
+              priceCents: 2000,
+              serving: { amount: 30, unit: 'ml' },
+              tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'],
+              translations: { en: { tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'] } },
+              allergens: ['O'],
+              additives: [1],
+            },
+            {
+              id: 'longdrink-dark-n-stormy',
+              title: "Dark 'N' Stormy",
+              priceCents: 1600,
+              tags: ['Dark rum', 'Ginger beer', 'Slice of lime'],
+              translations: { en: { tags: ['dark rum', 'ginger beer', 'slice of lime'] } },
+            },
+            {
+              id: 'longdrink-daiquiri',
+              title: 'Daiquiri',
+              priceCents: 1000,
+              tags: ['Rum', 'Citrus juice', 'Sugar'],
+              translations: { en: { tags: ['rum', 'citrus juice', 'sugar'] } },
+            },
+            {
+              id: 'longdrink-old-fashioned',
+              title: 'Old Fashioned',
+              priceCents: 3100,
+              tags: ['Bourbon', 'Brown sugar', 'Angostura Bitters'],
+              translations: { en: { tags: ['Bourbon', 'brown sugar', 'Angostura bitters'] } },
+            },
+            {
+              id: 'longdrink-negroni',
+              title: 'Negroni',
+              priceCents: 2600,
+              tags: ['Gin', 'Sweet Vermouth', 'Campari', 'Orange garnish'],
+              translations: { en: { tags: ['gin', 'sweet vermouth', 'Campari', 'orange garnish'] } },
+              additives: [1],
+            },
+          ],
+        },
+        {
+          id: 'cocktails',
+          title: 'Cocktails',
+          items: [
+            {
+              id: 'cocktail-aperol-spritz',
+              title: 'Aperol Sprtiz',
+              priceCents: 2000,
+              serving: { amount: 30, unit: 'ml' },
+              tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'],
+              translations: { en: { tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'] } },
+              allergens: ['O'],
+              additives: [1],
+            },
+            {
+              id: 'cocktail-dark-n-stormy',
+              title: "Dark 'N' Stormy",
+              priceCents: 1600,
+              tags: ['Dark rum', 'Ginger beer', 'Slice of lime'],
+              translations: { en: { tags: ['dark rum', 'ginger beer', 'slice of lime'] } },
+            },
+            {
+              id: 'cocktail-daiquiri',
+              title: 'Daiquiri',
+              priceCents: 1000,
+              tags: ['Rum', 'Citrus juice', 'Sugar'],
+              translations: { en: { tags: ['rum', 'citrus juice', 'sugar'] } },
+            },
+            {
+              id: 'cocktail-old-fashioned',
+              title: 'Old Fashioned',
+              priceCents: 3100,
+              tags: ['Bourbon', 'Brown sugar', 'Angostura Bitters'],
+              translations: { en: { tags: ['Bourbon', 'brown sugar', 'Angostura bitters'] } },
+            },
+            {
+              id: 'cocktail-negroni',
+              title: 'Negroni',
+              priceCents: 2600,
+              tags: ['Gin', 'Sweet Vermouth', 'Campari', 'Orange garnish'],
+              translations: { en: { tags: ['gin', 'sweet vermouth', 'Campari', 'orange garnish'] } },
+              additives: [1],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'kurze-likoere',
+      title: 'Kurze & Liköre',
+      children: [
+        {
+          id: 'likoere',
+          title: 'Liköre',
+          items: [
+            {
+              id: 'likoer-aperol-spritz',
+              title: 'Aperol Sprtiz',
+              priceCents: 2000,
+              serving: { amount: 30, unit: 'ml' },
+              tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'],
+              translations: { en: { tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'] } },
+              allergens: ['O'],
+              additives: [1],
+            },
+            {
+              id: 'likoer-dark-n-stormy',
+              title: "Dark 'N' Stormy",
+              priceCents: 1600,
+              tags: ['Dark rum', 'Ginger beer', 'Slice of lime'],
+              translations: { en: { tags: ['dark rum', 'ginger beer', 'slice of lime'] } },
+            },
+            {
+              id: 'likoer-daiquiri',
+              title: 'Daiquiri',
+              priceCents: 1000,
+              tags: ['Rum', 'Citrus juice', 'Sugar'],
+              translations: { en: { tags: ['rum', 'citrus juice', 'sugar'] } },
+            },
+            {
+              id: 'likoer-old-fashioned',
+              title: 'Old Fashioned',
+              priceCents: 3100,
+              tags: ['Bourbon', 'Brown sugar', 'Angostura Bitters'],
+              translations: { en: { tags: ['Bourbon', 'brown sugar', 'Angostura bitters'] } },
+            },
+            {
+              id: 'likoer-negroni',
+              title: 'Negroni',
+              priceCents: 2600,
+              tags: ['Gin', 'Sweet Vermouth', 'Campari', 'Orange garnish'],
+              translations: { en: { tags: ['gin', 'sweet vermouth', 'Campari', 'orange garnish'] } },
+              additives: [1],
+            },
+          ],
+        },
+        {
+          id: 'kurze',
+          title: 'Kurze',
+          items: [
+            {
+              id: 'kurzer-aperol-spritz',
+              title: 'Aperol Sprtiz',
+              priceCents: 2000,
+              serving: { amount: 30, unit: 'ml' },
+              tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'],
+              translations: { en: { tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'] } },
+              allergens: ['O'],
+              additives: [1],
+            },
+            {
+              id: 'kurzer-dark-n-stormy',
+              title: "Dark 'N' Stormy",
+              priceCents: 1600,
+              tags: ['Dark rum', 'Ginger beer', 'Slice of lime'],
+              translations: { en: { tags: ['dark rum', 'ginger beer', 'slice of lime'] } },
+            },
+            {
+              id: 'kurzer-daiquiri',
+              title: 'Daiquiri',
+              priceCents: 1000,
+              tags: ['Rum', 'Citrus juice', 'Sugar'],
+              translations: { en: { tags: ['rum', 'citrus juice', 'sugar'] } },
+            },
+            {
+              id: 'kurzer-old-fashioned',
+              title: 'Old Fashioned',
+              priceCents: 3100,
+              tags: ['Bourbon', 'Brown sugar', 'Angostura Bitters'],
+              translations: { en: { tags: ['Bourbon', 'brown sugar', 'Angostura bitters'] } },
+            },
+            {
+              id: 'kurzer-negroni',
+              title: 'Negroni',
+              priceCents: 2600,
+              tags: ['Gin', 'Sweet Vermouth', 'Campari', 'Orange garnish'],
+              translations: { en: { tags: ['gin', 'sweet vermouth', 'Campari', 'orange garnish'] } },
+              additives: [1],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'alkoholfrei',
+      title: 'Soft Drinks',
+      children: [
+        {
+          id: 'softdrinks',
+          title: 'Limonaden',
+          items: [
+            {
+              id: 'softdrink-aperol-spritz',
+              title: 'Aperol Sprtiz',
+              priceCents: 2000,
+              serving: { amount: 30, unit: 'ml' },
+              tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'],
+              translations: { en: { tags: ['Aperol', 'Villa Marchesi prosecco', 'soda'] } },
+              allergens: ['O'],
+              additives: [1],
+            },
+            {
+              id: 'softdrink-dark-n-stormy',
+              title: "Dark 'N' Stormy",
+              priceCents: 1600,
+              tags: ['Dark rum', 'Ginger beer', 'Slice of lime'],
+              translations: { en: { tags: ['dark rum', 'ginger beer', 'slice of lime'] } },
+            },
+            {
+              id: 'softdrink-daiquiri',
+              title: 'Daiquiri',
+              priceCents: 1000,
+              tags: ['Rum', 'Citrus juice', 'Sugar'],
+              translations: { en: { tags: ['rum', 'citrus juice', 'sugar'] } },
+            },
+            {
+              id: 'softdrink-old-fashioned',
+              title: 'Old Fashioned',
+              priceCents: 3100,
+              tags: ['Bourbon', 'Brown sugar', 'Angostura Bitters'],
+              translations: { en: { tags: ['Bourbon', 'brown sugar', 'Angostura bitters'] } },
+            },
+            {
+              id: 'softdrink-negroni',
+              title: 'Negroni',
+              priceCents: 2600,
+              tags: ['Gin', 'Sweet Vermouth', 'Campari', 'Orange garnish'],
+              translations: { en: { tags: ['gin', 'sweet vermouth', 'Campari', 'orange garnish'] } },
+              additives: [1],
+            },
+          ],
+        },
+        {
+          id: 'warmgetraenke',
+          title: 'Cafe und Tee',
+          items: [
+            {
+              id: 'cafe-creme',
+              title: 'Cafe Creme',
+              priceCents: 350,
+              tags: ['Tasse'],
+              translations: { en: { tags: ['cup'] } },
+            },
+            {
+              id: 'capuccino',
+              title: 'Capuccino',
+              priceCents: 390,
+              tags: ['Tasse'],
+              translations: { en: { tags: ['cup'] } },
+              allergens: ['G'],
+              diet: 'vegetarian',
+            },
+            {
+              id: 'espresso',
+              title: 'Espresso',
+              priceCents: 250,
+              tags: ['Tasse'],
+              translations: { en: { tags: ['cup'] } },
+              diet: 'vegan',
+            },
+            {
+              id: 'tee',
+              title: 'Tee',
+              priceCents: 290,
+              tags: ['Tasse', 'Earl Gray', 'Minze'],
+              translations: { en: { title: 'Tea', tags: ['cup', 'Earl Grey', 'mint'] } },
+              diet: 'vegan',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'snacks',
+      title: 'Snacks',
+      children: [
+        {
+          id: 'flammkuchen',
+          title: 'Flammkuchen',
+          items: [
+            {
+              id: 'flammkuchen-klassisch',
+              title: 'Elsässer Flammkuchen klassisch',
+              priceCents: 750,
+              tags: ['Zwiebeln', 'Speck', 'Creme fraiche'],
+              translations: {
+                en: {
+                  title: 'Alsatian tarte flambée, classic',
+                  tags: ['onions', 'bacon', 'crème fraîche'],
+                },
+              },
+              allergens: ['A', 'G'],
+              additives: [2, 3],
+            },
+            {
+              id: 'flammkuchen-waterkant',
+              title: 'Elsässer Flammkuchen waterkant',
+              priceCents: 790,
+              tags: ['Zwiebeln', 'Lachs', 'Creme fraiche'],
+              translations: {
+                en: {
+                  title: 'Alsatian tarte flambée, waterkant',
+                  tags: ['onions', 'salmon', 'crème fraîche'],
+                },
+              },
+              allergens: ['A', 'D', 'G'],
+            },
+            {
+              id: 'flammkuchen-vegetarisch',
+              title: 'Elsässer Flammkuchen vegetarisch',
+              priceCents: 750,
+              tags: ['Zwiebeln', 'Zucchini', 'Creme fraiche'],
+              translations: {
+                en: {
+                  title: 'Alsatian tarte flambée, vegetarian',
+                  tags: ['onions', 'courgette', 'crème fraîche'],
+                },
+              },
+              allergens: ['A', 'G'],
+              diet: 'vegetarian',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+export default menuCatalogue;
@@ -0,0 +1,47 @@
+// German UI strings, the source every other catalogue is checked against.
+// Keys are "<area>.<what>"; {name} placeholders are filled in by t().
+const de = {
+  'language.switch': 'Sprache',
+  'language.onlyMenu': 'Auf Englisch gibt es nur die Karte',
+
+  'nav.home': 'Home',
+  'nav.about': 'Über uns',
+  'nav.drinksSnacks': 'Drinks & Snacks',
+  'nav.sportarena': 'Sportarena',
+  'nav.whereTo': 'Wohin?',
+  'nav.closeMenu': 'Menü schließen',
+  'nav.story': 'Rettungsanker-Story',
+  'nav.storyDescription': 'Die Story des Rettungsankers seit 2017',
+  'nav.team': 'Team',
+  'nav.teamDescription': 'Das Rettungsanker-Team stellt sich vor',
+  'nav.drinks': 'Drinks',
+  'nav.drinksDescription': 'Erfrischendes für jeden Geschmack',
+  'nav.snacks': 'Snacks',
+  'nav.snacksDescription': 'Frischer, knuspriger Flammkuchen',
+  'nav.wines': 'Weine',
+  'nav.winesDescription': 'Badische Weine, offen und als Schorle',
+  'nav.cocktails': 'Cocktails & Longdrinks',
+  'nav.cocktailsDescription': 'Internationale Cocktails & Longdrinks',
+  'nav.softdrinks': 'Softdrinks',
+  'nav.softdrinksDescription': 'Erfrischungsgetränke ohne Alkohol',
+
+  'menu.table': 'Tisch {number}',
+  'menu.search': 'Karte durchsuchen',
+  'menu.searchPlaceholder': 'Suchen, z.B. Weizen',
+  'menu.filter': 'Filter',
+  'menu.without': 'ohne {allergen}',
+  'menu.categories': 'Kategorien',
+  'menu.subcategories': 'Unterkategorien',
+  'menu.order': '{item} bestellen',
+  'menu.nothingFound': 'Nichts gefunden für „{query}“.',
+  'menu.nothingMatches': 'Nichts auf der Karte passt zu diesem Filter.',
+  'menu.allergens': 'Allergene: {list}',
+};
+
+export type MessageKey = keyof typeof de;
+
+// What every other catalogue has to provide: leaving out a key fails the
+// type-check, so `next build` flags missing translations.
+export type Messages = Record<MessageKey, string>;
+
+export default de;
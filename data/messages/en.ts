@@ -0,0 +1,41 @@
+import type { Messages } from './de';
+
+const en: Messages = {
+  'language.switch': 'Language',
+  'language.onlyMenu': 'Only the menu is available in English',
+
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.drinksSnacks': 'Drinks & Snacks',
+  'nav.sportarena': 'Sports arena',
+  'nav.whereTo': 'Find us',
+  'nav.closeMenu': 'Close menu',
+  'nav.story': 'Our story',
+  'nav.storyDescription': 'The Rettungsanker story since 2017',
+  'nav.team': 'Team',
+  'nav.teamDescription': 'Meet the Rettungsanker crew',
+  'nav.drinks': 'Drinks',
+  'nav.drinksDescription': 'Refreshing beverages for every taste',
+  'nav.snacks': 'Snacks',
+  'nav.snacksDescription': 'Fresh, crispy tarte flambée',
+  'nav.wines': 'Wines',
+  'nav.winesDescription': 'Wines from Baden, by the glass and as spritzers',
+  'nav.cocktails': 'Cocktails & Long drinks',
+  'nav.cocktailsDescription': 'International cocktails & long drinks',
+  'nav.softdrinks': 'Soft drinks',
+  'nav.softdrinksDescription': 'Refreshments without alcohol',
+
+  'menu.table': 'Table {number}',
+  'menu.search': 'Search the menu',
+  'menu.searchPlaceholder': 'Search, e.g. wheat beer',
+  'menu.filter': 'Filter',
+  'menu.without': 'without {allergen}',
+  'menu.categories': 'Categories',
+  'menu.subcategories': 'Subcategories',
+  'menu.order': 'Order {item}',
+  'menu.nothingFound': 'Nothing found for “{query}”.',
+  'menu.nothingMatches': 'Nothing on the menu matches this filter.',
+  'menu.allergens': 'Allergens: {list}',
+};
+
+export default en;
@@ -0,0 +1,22 @@
+import type { OpeningException, OpeningShift } from '../types/opening-hours';
+
+// Montag bis Donnerstag 18-24 Uhr, Freitag und Samstag 15-03 Uhr,
+// Sonntag geschlossen.
+const weeklyHours: OpeningShift[] = [
+  { weekday: 1, opens: '18:00', closes: '24:00' },
+  { weekday: 2, opens: '18:00', closes: '24:00' },
+  { weekday: 3, opens: '18:00', closes: '24:00' },
+  { weekday: 4, opens: '18:00', closes: '24:00' },
+  { weekday: 5, opens: '15:00', closes: '03:00' },
+  { weekday: 6, opens: '15:00', closes: '03:00' },
+];
+
+// Holidays and special days. Confirmed private events are added from the
+// database on top of these.
+export const openingExceptions: OpeningException[] = [
+  { date: '2026-12-24', reason: 'Heiligabend', closed: true },
+  { date: '2026-12-25', reason: '1. Weihnachtstag', closed: true },
+  { date: '2026-12-31', reason: 'Silvester', opens: '18:00', closes: '05:00' },
+];
+
+export default weeklyHours;
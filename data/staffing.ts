@@ -0,0 +1,24 @@
+// How many hands a shift needs. The duty roster starts from the opening hours
+// in data/opening-hours.ts and adds the crew for screenings and private events
+// on top.
+
+// The crew comes in before the doors open and stays to clean up.
+export const SET_UP_MINUTES = 30;
+export const CLEAN_UP_MINUTES = 30;
+
+// Regular crew per shift by weekday (0 = Sunday); Friday and Saturday are
+// the busy nights.
+export const baseStaff: Record<number, number> = { 0: 2, 1: 2, 2: 2, 3: 2, 4: 2, 5: 3, 6: 3 };
+
+// One more behind the bar while a match is on the screens.
+export const SCREENING_EXTRA_STAFF = 1;
+
+// A private event books the whole bar and needs service at the tables.
+export const EVENT_EXTRA_STAFF = 2;
+
+// Screenings on days the bar is normally closed get their own shift around
+// the match, starting this long before kick-off.
+export const SCREENING_LEAD_MINUTES = 60;
+
+// Private events on days without regular hours.
+export const eventShift = { opens: '18:00', closes: '01:00' };
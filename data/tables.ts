@@ -0,0 +1,18 @@
+import type { Table } from '../types/reservation';
+
+const tables: Table[] = [
+  { number: 1, seats: 2, area: 'Bar' },
+  { number: 2, seats: 2, area: 'Bar' },
+  { number: 3, seats: 2, area: 'Bar' },
+  { number: 4, seats: 4, area: 'Bar' },
+  { number: 5, seats: 4, area: 'Bar' },
+  { number: 6, seats: 4, area: 'Kajüte' },
+  { number: 7, seats: 4, area: 'Kajüte' },
+  { number: 8, seats: 6, area: 'Kajüte' },
+  { number: 9, seats: 6, area: 'Sportarena' },
+  { number: 10, seats: 6, area: 'Sportarena' },
+  { number: 11, seats: 8, area: 'Sportarena' },
+  { number: 12, seats: 10, area: 'Stammtisch' },
+];
+
+export default tables;
@@ -0,0 +1,14 @@
+import type { CrewProfile } from '../types/team';
+
+// Starting point of a fresh database; profiles are kept up to date through
+// /admin/team and by every crew member at /admin/profil.
+const crew: CrewProfile[] = [
+  { id: 'mick', name: 'Mick', role: 'Captain', photo: '/portraitmick.png', socials: [] },
+  { id: 'simon', name: 'Simon', role: 'Obermaat', photo: '/Matrose.png', socials: [] },
+  { id: 'anne', name: 'Anne', role: 'I. Offizierin', photo: '/Offizier-weiblich.png', socials: [] },
+  { id: 'kalim', name: 'Kalim', role: 'Maat', photo: '/ancerIcon.svg', socials: [] },
+  { id: 'theo', name: 'Theo', role: 'Smutje', photo: '/ancerIcon.svg', socials: [] },
+  { id: 'james', name: 'James', role: 'Funker', photo: '/ancerIcon.svg', socials: [] },
+];
+
+export default crew;
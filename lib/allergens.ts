@@ -0,0 +1,100 @@
+import type { AdditiveNumber, AllergenCode, Diet, MenuCatalogue, MenuCategory, MenuItem } from '../types/menu';
+
+export const allergenLabels: Record<AllergenCode, string> = {
+  A: 'Glutenhaltiges Getreide',
+  B: 'Krebstiere',
+  C: 'Eier',
+  D: 'Fisch',
+  E: 'Erdnüsse',
+  F: 'Soja',
+  G: 'Milch und Laktose',
+  H: 'Schalenfrüchte',
+  L: 'Sellerie',
+  M: 'Senf',
+  N: 'Sesam',
+  O: 'Schwefeldioxid und Sulfite',
+  P: 'Lupinen',
+  R: 'Weichtiere',
+};
+
+export const additiveLabels: Record<AdditiveNumber, string> = {
+  1: 'mit Farbstoff',
+  2: 'mit Konservierungsstoff',
+  3: 'mit Antioxidationsmittel',
+  4: 'mit Geschmacksverstärker',
+  5: 'geschwefelt',
+  6: 'geschwärzt',
+  7: 'gewachst',
+  8: 'mit Phosphat',
+  9: 'mit Süßungsmittel',
+  10: 'enthält eine Phenylalaninquelle',
+  11: 'koffeinhaltig',
+  12: 'chininhaltig',
+};
+
+export const dietLabels: Record<Diet, string> = {
+  vegetarian: 'vegetarisch',
+  vegan: 'vegan',
+};
+
+export const allergenCodes = Object.keys(allergenLabels) as AllergenCode[];
+export const additiveNumbers = Object.keys(additiveLabels).map(Number) as AdditiveNumber[];
+export const diets = Object.keys(dietLabels) as Diet[];
+
+export function isAllergenCode(value: unknown): value is AllergenCode {
+  return allergenCodes.includes(value as AllergenCode);
+}
+
+export function isAdditiveNumber(value: unknown): value is AdditiveNumber {
+  return additiveNumbers.includes(value as AdditiveNumber);
+}
+
+// Footnote markers as printed next to the item: additives first, then
+// allergens, e.g. "1,11,A,G".
+export function itemMarkers(item: Pick<MenuItem, 'allergens' | 'additives'>): string {
+  const additives = [...(item.additives ?? [])].sort((a, b) => a - b);
+  const allergens = [...(item.allergens ?? [])].sort();
+  return [...additives, ...allergens].join(',');
+}
+
+export interface MenuLegend {
+  additives: { number: AdditiveNumber; label: string }[];
+  allergens: { code: AllergenCode; label: string }[];
+}
+
+// Only the markers that occur on the given items, so each menu page
+// explains what it shows and nothing else.
+export function menuLegend(items: Pick<MenuItem, 'allergens' | 'additives'>[]): MenuLegend {
+  const additives = new Set(items.flatMap((item) => item.additives ?? []));
+  const allergens = new Set(items.flatMap((item) => item.allergens ?? []));
+  return {
+    additives: additiveNumbers.filter((n) => additives.has(n)).map((n) => ({ number: n, label: additiveLabels[n] })),
+    allergens: allergenCodes.filter((c) => allergens.has(c)).map((c) => ({ code: c, label: allergenLabels[c] })),
+  };
+}
+
+export interface DietaryFilter {
+  // allergens the guest cannot have
+  without: AllergenCode[];
+  diet?: Diet;
+}
+
+// Vegan items count as vegetarian, items without a diet count as neither.
+export function matchesDietaryFilter(item: MenuItem, filter: DietaryFilter): boolean {
+  if (filter.without.some((code) => item.allergens?.includes(code))) return false;
+  if (filter.diet === 'vegan') return item.diet === 'vegan';
+  if (filter.diet === 'vegetarian') return item.diet === 'vegetarian' || item.diet === 'vegan';
+  return true;
+}
+
+export function filterMenuByDiet(catalogue: MenuCatalogue, filter: DietaryFilter): MenuCatalogue {
+  if (filter.without.length === 0 && !filter.diet) return catalogue;
+  const keep = (categories: MenuCategory[]): MenuCategory[] =>
+    categories.flatMap((category) => {
+      const items = category.items?.filter((item) => matchesDietaryFilter(item, filter)) ?? [];
+      const children = keep(category.children ?? []);
+      if (items.length === 0 && children.length === 0) return [];
+      return [{ ...category, items, children }];
+    });
+  return { categories: keep(catalogue.categories) };
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+
+// Thrown for input the caller should see instead of a 500: validation
+// problems, unknown ids (404) and conflicts (409).
+export class InputError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = "InputError"
+  }
+}
+
+// Errors that carry an HTTP status (InputError, AuthError, ...) are for the
+// caller; everything else is logged and answered with a generic 500.
+export function errorResponse(error: unknown, message: string) {
+  const status = (error as { status?: unknown } | null)?.status
+  if (error instanceof Error && typeof status === "number") {
+    return NextResponse.json({ error: error.message }, { status })
+  }
+  console.error(`${message}:`, error)
+  return NextResponse.json({ error: message }, { status: 500 })
+}
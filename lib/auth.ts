@@ -0,0 +1,58 @@
+import type { NextAuthOptions, Session } from "next-auth"
+import { getServerSession } from "next-auth/next"
+import CredentialsProvider from "next-auth/providers/credentials"
+import type { Role } from "../types/auth"
+import { hasRole } from "./roles"
+import { findUser, verifyCredentials } from "./users"
+
+export const authOptions: NextAuthOptions = {
+  // Credentials logins cannot use database sessions, the role travels in the JWT.
+  session: { strategy: "jwt" },
+  pages: { signIn: "/login" },
+  providers: [
+    CredentialsProvider({
+      name: "Crew Login",
+      credentials: {
+        email: { label: "E-Mail", type: "email" },
+        password: { label: "Passwort", type: "password" },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials.password) return null
+        return verifyCredentials(credentials.email, credentials.password)
+      },
+    }),
+  ],
+  callbacks: {
+    // The role is read again on every session lookup, so a demotion or a
+    // removed account takes effect at once instead of when the token
+    // expires. A removed account keeps a token without id and role.
+    async jwt({ token, user }) {
+      const current = user ?? (token.id ? await findUser(token.id) : null)
+      token.id = current?.id
+      token.role = current?.role
+      return token
+    },
+    async session({ session, token }) {
+      if (token.id && token.role) {
+        session.user = { ...session.user, id: token.id, role: token.role }
+      }
+      return session
+    },
+  },
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message)
+    this.name = "AuthError"
+  }
+}
+
+// Route handler guard: resolves to the session or throws an AuthError that
+// errorResponse turns into a 401 or 403.
+export async function requireRole(required: Role): Promise<Session> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.role) throw new AuthError("Anmeldung erforderlich", 401)
+  if (!hasRole(session.user.role, required)) throw new AuthError("Keine Berechtigung", 403)
+  return session
+}
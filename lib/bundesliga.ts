@@ -0,0 +1,282 @@
+import type {
+  Competition,
+  Fixture,
+  LiveStanding,
+  Match,
+  MatchResult,
+  PointsProgress,
+  TableRules,
+  TableZone,
+  Team,
+  TeamSplit,
+  TeamStanding,
+  TieBreaker,
+} from '../types/bundesliga';
+import competitions from '../data/competitions';
+import { barClock } from './dates';
+
+export { competitions };
+
+export const DEFAULT_COMPETITION = competitions[0].shortcut;
+
+export function findCompetition(shortcut: string): Competition | undefined {
+  return competitions.find((competition) => competition.shortcut === shortcut);
+}
+
+// Used for competitions without rules of their own.
+const defaultRules: TableRules = { zones: [], tieBreakers: ['points', 'goalDiff', 'goals'] };
+
+// The competition's table rules, with the changes for `season` applied.
+export function tableRules(shortcut: string, season: number): TableRules {
+  const competition = findCompetition(shortcut);
+  return { ...defaultRules, ...competition?.rules, ...competition?.seasonRules?.[season] };
+}
+
+export function zoneFor(rules: TableRules, position: number): TableZone | undefined {
+  return rules.zones.find((zone) => position >= zone.from && position <= zone.to);
+}
+
+// A match is treated as running from kick-off until it is marked finished,
+// but no longer than this, in case OpenLigaDB is late with the flag.
+export const MATCH_WINDOW_MINUTES = 150;
+
+// OpenLigaDB's id for SC Freiburg, the same in every competition.
+export const FREIBURG_TEAM_ID = 112;
+
+export function isFreiburg(team: Pick<Team, 'teamId'>): boolean {
+  return team.teamId === FREIBURG_TEAM_ID;
+}
+
+export function byTeamId(teamId: number): (team: Pick<Team, 'teamId'>) => boolean {
+  return (team) => team.teamId === teamId;
+}
+
+// OpenLigaDB names a season after the year it starts in. The new season's
+// fixtures are published over the summer, so from July on we look ahead.
+export function currentSeason(now: Date = new Date()): number {
+  const [year, month] = barClock(now).date.split('-').map(Number);
+  return month >= 7 ? year : year - 1;
+}
+
+// The final score: OpenLigaDB lists the half-time result too, the end result
+// has resultTypeID 2.
+export function finalResult(match: Match): MatchResult | undefined {
+  return match.matchResults.find((result) => result.resultTypeID === 2) ?? match.matchResults[0];
+}
+
+// The matchday of the latest match that has kicked off, or the first one
+// before the season starts. Taken from the match's `group` rather than its
+// position in the list, which OpenLigaDB does not guarantee.
+export function currentMatchday(matches: Match[], now: Date = new Date()): number {
+  return matches
+    .filter((match) => new Date(match.matchDateTimeUTC) <= now)
+    .reduce((latest, match) => Math.max(latest, match.group.groupOrderID), 1);
+}
+
+// The club's matches in kick-off order, with scores and outcome once played.
+export function teamFixtures(matches: Match[], isTeam: (team: Pick<Team, 'teamId'>) => boolean = isFreiburg): Fixture[] {
+  return matches
+    .filter((match) => isTeam(match.team1) || isTeam(match.team2))
+    .sort((a, b) => a.matchDateTimeUTC.localeCompare(b.matchDateTimeUTC))
+    .map((match) => {
+      const home = isTeam(match.team1);
+      const fixture: Fixture = { match, home, opponent: home ? match.team2 : match.team1 };
+      const result = finalResult(match);
+      if (!match.matchIsFinished || !result) return fixture;
+
+      const goalsFor = home ? result.pointsTeam1 : result.pointsTeam2;
+      const goalsAgainst = home ? result.pointsTeam2 : result.pointsTeam1;
+      const outcome = goalsFor > goalsAgainst ? 'win' : goalsFor < goalsAgainst ? 'loss' : 'draw';
+      return { ...fixture, goalsFor, goalsAgainst, outcome };
+    });
+}
+
+// Outcomes of the last `count` finished matches, oldest first.
+export function recentForm(fixtures: Fixture[], count = 5): Fixture[] {
+  return fixtures.filter((fixture) => fixture.outcome).slice(-count);
+}
+
+// The first match not finished yet, which may be running right now.
+export function nextFixture(fixtures: Fixture[]): Fixture | undefined {
+  return fixtures.find((fixture) => !fixture.match.matchIsFinished);
+}
+
+export function isLive(match: Match, now: Date = new Date()): boolean {
+  const kickoff = new Date(match.matchDateTimeUTC).getTime();
+  return !match.matchIsFinished && kickoff <= now.getTime() && now.getTime() < kickoff + MATCH_WINDOW_MINUTES * 60_000;
+}
+
+// The score right now: the latest goal while running, the final result after.
+export function currentScore(match: Match): { team1: number; team2: number } {
+  const goals = match.goals ?? [];
+  if (goals.length > 0) {
+    const last = goals.reduce((latest, goal) =>
+      goal.scoreTeam1 + goal.scoreTeam2 >= latest.scoreTeam1 + latest.scoreTeam2 ? goal : latest,
+    );
+    return { team1: last.scoreTeam1, team2: last.scoreTeam2 };
+  }
+  const result = finalResult(match);
+  return { team1: result?.pointsTeam1 ?? 0, team2: result?.pointsTeam2 ?? 0 };
+}
+
+type Key = number[];
+
+function compareKeys(a: Key, b: Key): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return b[i] - a[i];
+  }
+  return 0;
+}
+
+// Points, goal difference and away goals of the matches among `teamIds`.
+function headToHeadKeys(teamIds: number[], matches: Match[]): Map<number, Key> {
+  const ids = new Set(teamIds);
+  const keys = new Map(teamIds.map((id) => [id, [0, 0, 0]]));
+  for (const match of matches) {
+    if (!match.matchIsFinished || !ids.has(match.team1.teamId) || !ids.has(match.team2.teamId)) continue;
+    const score = currentScore(match);
+    const home = keys.get(match.team1.teamId)!;
+    const away = keys.get(match.team2.teamId)!;
+    home[0] += score.team1 > score.team2 ? 3 : score.team1 === score.team2 ? 1 : 0;
+    away[0] += score.team2 > score.team1 ? 3 : score.team1 === score.team2 ? 1 : 0;
+    home[1] += score.team1 - score.team2;
+    away[1] += score.team2 - score.team1;
+    away[2] += score.team2;
+  }
+  return keys;
+}
+
+function awayGoals(teamId: number, matches: Match[]): number {
+  return matches
+    .filter((match) => match.matchIsFinished && match.team2.teamId === teamId)
+    .reduce((sum, match) => sum + currentScore(match).team2, 0);
+}
+
+// Orders the table by the competition's tie-breakers. Each criterion only
+// separates teams that are level on all criteria before it, which is what
+// makes the head-to-head comparison work on the right group of teams.
+export function rankStandings<T extends TeamStanding>(
+  rows: T[],
+  matches: Match[],
+  tieBreakers: TieBreaker[],
+): T[] {
+  const [criterion, ...rest] = tieBreakers;
+  if (!criterion || rows.length < 2) return rows;
+
+  const h2h = criterion === 'headToHead' ? headToHeadKeys(rows.map((row) => row.teamInfoId), matches) : undefined;
+  const keyOf = (row: T): Key => {
+    switch (criterion) {
+      case 'points':
+        return [row.points];
+      case 'goalDiff':
+        return [row.goalDiff];
+      case 'goals':
+        return [row.goals];
+      case 'awayGoals':
+        return [awayGoals(row.teamInfoId, matches)];
+      case 'headToHead':
+        return h2h!.get(row.teamInfoId)!;
+    }
+  };
+
+  const groups: { key: Key; rows: T[] }[] = [];
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.find((entry) => compareKeys(entry.key, key) === 0);
+    if (group) group.rows.push(row);
+    else groups.push({ key, rows: [row] });
+  }
+  return groups
+    .sort((a, b) => compareKeys(a.key, b.key))
+    .flatMap((group) => rankStandings(group.rows, matches, rest));
+}
+
+// The official table with the running matches counted as if they ended with
+// the current score. `seasonMatches` feeds the head-to-head and away goal
+// tie-breakers.
+export function liveTable(
+  standings: TeamStanding[],
+  matches: Match[],
+  rules: TableRules = defaultRules,
+  seasonMatches: Match[] = [],
+  now: Date = new Date(),
+): LiveStanding[] {
+  const official = rankStandings(standings, seasonMatches, rules.tieBreakers);
+  const rows = new Map(
+    official.map((team, index) => [
+      team.teamInfoId,
+      { ...team, position: index + 1, previousPosition: index + 1, playing: false },
+    ]),
+  );
+
+  for (const match of matches.filter((entry) => isLive(entry, now))) {
+    const score = currentScore(match);
+    const sides = [
+      { team: match.team1, goals: score.team1, against: score.team2 },
+      { team: match.team2, goals: score.team2, against: score.team1 },
+    ];
+    for (const side of sides) {
+      const row = rows.get(side.team.teamId);
+      if (!row) continue;
+      row.playing = true;
+      row.matches += 1;
+      row.goals += side.goals;
+      row.opponentGoals += side.against;
+      row.goalDiff = row.goals - row.opponentGoals;
+      if (side.goals > side.against) {
+        row.won += 1;
+        row.points += 3;
+      } else if (side.goals === side.against) {
+        row.draw += 1;
+        row.points += 1;
+      } else {
+        row.lost += 1;
+      }
+    }
+  }
+
+  return rankStandings(Array.from(rows.values()), seasonMatches, rules.tieBreakers).map((row, index) => ({
+    ...row,
+    position: index + 1,
+  }));
+}
+
+// When to look at the scores again: soon while matches run, at the next
+// kick-off otherwise, or never if the matchday is over.
+export function nextRefreshMs(matches: Match[], now: Date = new Date(), liveIntervalMs = 60_000): number | null {
+  if (matches.some((match) => isLive(match, now))) return liveIntervalMs;
+  const upcoming = matches
+    .filter((match) => !match.matchIsFinished)
+    .map((match) => new Date(match.matchDateTimeUTC).getTime())
+    .filter((kickoff) => kickoff > now.getTime());
+  return upcoming.length > 0 ? Math.min(...upcoming) - now.getTime() : null;
+}
+
+const outcomePoints = { win: 3, draw: 1, loss: 0 };
+
+export function teamSplit(fixtures: Fixture[], home: boolean): TeamSplit {
+  const split: TeamSplit = { played: 0, won: 0, draw: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0 };
+  for (const fixture of fixtures) {
+    if (fixture.home !== home || !fixture.outcome) continue;
+    split.played += 1;
+    split.goalsFor += fixture.goalsFor ?? 0;
+    split.goalsAgainst += fixture.goalsAgainst ?? 0;
+    split.points += outcomePoints[fixture.outcome];
+    if (fixture.outcome === 'win') split.won += 1;
+    else if (fixture.outcome === 'draw') split.draw += 1;
+    else split.lost += 1;
+  }
+  return split;
+}
+
+// Points total after each played matchday, for the season chart.
+export function pointsProgress(fixtures: Fixture[]): PointsProgress[] {
+  let points = 0;
+  return fixtures
+    .filter((fixture) => fixture.outcome)
+    .sort((a, b) => a.match.group.groupOrderID - b.match.group.groupOrderID)
+    .map((fixture) => {
+      points += outcomePoints[fixture.outcome!];
+      return { matchday: fixture.match.group.groupOrderID, points };
+    });
+}
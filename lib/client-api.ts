@@ -0,0 +1,14 @@
+// fetch wrapper for the admin screens: sends JSON and turns the
+// `{ error }` body of a failed response into a thrown Error.
+export async function sendJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }))
+    throw new Error(error)
+  }
+  return response.status === 204 ? (undefined as T) : response.json()
+}
@@ -0,0 +1,70 @@
+// Calendar dates travel as "YYYY-MM-DD" strings and times of day as "HH:MM",
+// both in the bar's local time. That keeps bookings independent of the time
+// zone the server or the guest's browser runs in.
+
+export const BAR_TIME_ZONE = "Europe/Berlin"
+
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Local midnight of the given day, for date pickers.
+export function fromIsoDate(iso: string): Date {
+  const [year, month, day] = iso.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && toIsoDate(fromIsoDate(value)) === value
+}
+
+export function addDays(iso: string, days: number): string {
+  const date = fromIsoDate(iso)
+  date.setDate(date.getDate() + days)
+  return toIsoDate(date)
+}
+
+// Whole days from `from` to `to`, negative when `to` is earlier.
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number)
+  const [toYear, toMonth, toDay] = to.split("-").map(Number)
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86_400_000)
+}
+
+// 0 = Sunday, like Date#getDay
+export function weekdayOf(iso: string): number {
+  return fromIsoDate(iso).getDay()
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+export function minutesToTime(minutes: number): string {
+  const wrapped = ((minutes % 1440) + 1440) % 1440
+  return `${String(Math.floor(wrapped / 60)).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`
+}
+
+// The bar's wall clock at the given instant.
+export function barClock(now: Date = new Date()): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: BAR_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  )
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  }
+}
@@ -0,0 +1,117 @@
+import type { CateringWish, EventInquiry, EventInquiryRequest, EventStatus } from '../types/event';
+import type { OpeningException } from '../types/opening-hours';
+import { prisma } from './prisma';
+import { barClock } from './dates';
+import { eventStatuses, validateEventInquiry } from './events';
+import { InputError } from './api';
+
+interface EventInquiryRow {
+  id: string;
+  date: string;
+  guests: number;
+  occasion: string;
+  catering: string;
+  budgetCents: number | null;
+  name: string;
+  email: string;
+  phone: string;
+  message: string | null;
+  status: string;
+  createdAt: Date;
+}
+
+function toEventInquiry(row: EventInquiryRow): EventInquiry {
+  return {
+    id: row.id,
+    date: row.date,
+    guests: row.guests,
+    occasion: row.occasion,
+    catering: row.catering as CateringWish,
+    ...(row.budgetCents != null ? { budgetCents: row.budgetCents } : {}),
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    ...(row.message ? { message: row.message } : {}),
+    status: row.status as EventStatus,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function createEventInquiry(request: EventInquiryRequest): Promise<EventInquiry> {
+  const problems = validateEventInquiry(request, barClock().date);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+
+  const row: EventInquiryRow = await prisma.eventInquiry.create({
+    data: {
+      date: request.date,
+      guests: request.guests,
+      occasion: request.occasion.trim(),
+      catering: request.catering,
+      budgetCents: request.budgetCents ?? null,
+      name: request.name.trim(),
+      email: request.email.trim(),
+      phone: request.phone.trim(),
+      message: request.message?.trim() || null,
+    },
+  });
+  return toEventInquiry(row);
+}
+
+// Finished events drop out of the back office list once their date is over.
+export async function listEventInquiries(): Promise<EventInquiry[]> {
+  const rows: EventInquiryRow[] = await prisma.eventInquiry.findMany({
+    where: { OR: [{ status: { not: 'done' } }, { date: { gte: barClock().date } }] },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  });
+  return rows.map(toEventInquiry);
+}
+
+// Confirmed events between the two dates, both included.
+export async function confirmedEvents(from: string, to: string): Promise<Pick<EventInquiry, 'id' | 'date'>[]> {
+  return prisma.eventInquiry.findMany({
+    where: { status: 'confirmed', date: { gte: from, lte: to } },
+    select: { id: true, date: true },
+  });
+}
+
+// Dates on which a confirmed event books the whole bar.
+export async function blockedDates(from: string, to: string): Promise<Set<string>> {
+  return new Set((await confirmedEvents(from, to)).map((event) => event.date));
+}
+
+// The same dates as opening hour exceptions, for the "open now" badge.
+export async function eventClosures(from: string, to: string): Promise<OpeningException[]> {
+  return Array.from(await blockedDates(from, to), (date) => ({
+    date,
+    reason: 'Geschlossene Gesellschaft',
+    closed: true,
+  }));
+}
+
+export async function setEventStatus(id: string, status: EventStatus): Promise<EventInquiry> {
+  if (!eventStatuses.includes(status)) throw new InputError(`Unbekannter Status "${status}"`);
+  const existing: EventInquiryRow | null = await prisma.eventInquiry.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekannte Anfrage', 404);
+
+  if (status === 'confirmed' && existing.status !== 'confirmed') {
+    const clash = await prisma.eventInquiry.findFirst({
+      where: { id: { not: id }, date: existing.date, status: 'confirmed' },
+    });
+    if (clash) throw new InputError('An diesem Tag ist bereits ein anderes Event bestätigt', 409);
+
+    // The event closes the bar, so table bookings of that day have to be
+    // declined first instead of silently standing in the way.
+    const reservations = await prisma.reservation.findMany({
+      where: { date: existing.date, status: { in: ['pending', 'confirmed'] } },
+      orderBy: { time: 'asc' },
+      select: { time: true, name: true },
+    });
+    if (reservations.length > 0) {
+      const list = reservations.map((reservation) => `${reservation.time} ${reservation.name}`).join(', ');
+      throw new InputError(`An diesem Tag gibt es noch Reservierungen, bitte erst absagen: ${list}`, 409);
+    }
+  }
+
+  const row: EventInquiryRow = await prisma.eventInquiry.update({ where: { id }, data: { status } });
+  return toEventInquiry(row);
+}
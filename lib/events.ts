@@ -0,0 +1,44 @@
+import type { CateringWish, EventInquiryRequest, EventStatus } from '../types/event';
+import { isIsoDate } from './dates';
+
+export const eventStatuses: EventStatus[] = ['new', 'offered', 'confirmed', 'done'];
+
+export const eventStatusLabels: Record<EventStatus, string> = {
+  new: 'Neu',
+  offered: 'Angebot verschickt',
+  confirmed: 'Bestätigt',
+  done: 'Erledigt',
+};
+
+export const cateringWishes: CateringWish[] = ['none', 'leckerladen', 'own'];
+
+export const cateringLabels: Record<CateringWish, string> = {
+  none: 'Kein Catering',
+  leckerladen: 'Catering vom Leckerladen',
+  own: 'Eigenes Catering',
+};
+
+// The whole bar is booked, so there is room for a crowd but not unlimited.
+export const MAX_EVENT_GUESTS = 120;
+
+export function nextEventStatus(status: EventStatus): EventStatus | undefined {
+  return eventStatuses[eventStatuses.indexOf(status) + 1];
+}
+
+export function validateEventInquiry(request: EventInquiryRequest, today: string): string[] {
+  const problems: string[] = [];
+  if (!isIsoDate(request.date)) problems.push('Ungültiges Datum');
+  else if (request.date <= today) problems.push('Events bitte mindestens einen Tag im Voraus anfragen');
+  if (!Number.isInteger(request.guests) || request.guests < 1 || request.guests > MAX_EVENT_GUESTS) {
+    problems.push(`Bitte eine Gästezahl zwischen 1 und ${MAX_EVENT_GUESTS} angeben`);
+  }
+  if (!request.occasion?.trim()) problems.push('Bitte den Anlass angeben');
+  if (!cateringWishes.includes(request.catering)) problems.push('Ungültiger Catering-Wunsch');
+  if (request.budgetCents != null && (!Number.isInteger(request.budgetCents) || request.budgetCents < 0)) {
+    problems.push('Ungültiges Budget');
+  }
+  if (!request.name?.trim()) problems.push('Bitte einen Namen angeben');
+  if (!/^\S+@\S+\.\S+$/.test(request.email ?? '')) problems.push('Bitte eine gültige E-Mail angeben');
+  if (!request.phone?.trim()) problems.push('Bitte eine Telefonnummer angeben');
+  return problems;
+}
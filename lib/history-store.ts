@@ -0,0 +1,85 @@
+import type { Milestone, MilestoneImage, MilestoneInput } from '../types/history';
+import milestones from '../data/history';
+import { prisma } from './prisma';
+import { seedOnce } from './seed';
+import { sortMilestones, validateMilestone } from './history';
+import { InputError } from './api';
+
+interface MilestoneRow {
+  id: string;
+  date: string;
+  title: string;
+  text: string;
+  images: string;
+}
+
+function toMilestone(row: MilestoneRow): Milestone {
+  return {
+    id: row.id,
+    date: row.date,
+    title: row.title,
+    text: row.text,
+    images: JSON.parse(row.images) as MilestoneImage[],
+  };
+}
+
+function toColumns(milestone: MilestoneInput) {
+  return {
+    date: milestone.date,
+    title: milestone.title.trim(),
+    text: milestone.text.trim(),
+    images: JSON.stringify(milestone.images.map((image) => ({ src: image.src.trim(), alt: image.alt.trim() }))),
+  };
+}
+
+function assertValid(milestone: MilestoneInput) {
+  const problems = validateMilestone(milestone);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+}
+
+// The milestones in data/history.ts start the story of a fresh database.
+function ensureSeeded(): Promise<void> {
+  return seedOnce('milestones', () =>
+    milestones.map((milestone) => prisma.milestone.create({ data: { id: milestone.id, ...toColumns(milestone) } })),
+  );
+}
+
+export async function listMilestones(): Promise<Milestone[]> {
+  await ensureSeeded();
+  const rows: MilestoneRow[] = await prisma.milestone.findMany();
+  return sortMilestones(rows.map(toMilestone));
+}
+
+// What guests see on /about/history. They still get the static story when
+// the database is unreachable.
+export async function getStory(): Promise<Milestone[]> {
+  try {
+    return await listMilestones();
+  } catch (error) {
+    console.error('Error loading milestones, serving static story:', error);
+    return sortMilestones(milestones);
+  }
+}
+
+export async function createMilestone(input: MilestoneInput): Promise<Milestone> {
+  assertValid(input);
+  await ensureSeeded();
+  const row: MilestoneRow = await prisma.milestone.create({ data: toColumns(input) });
+  return toMilestone(row);
+}
+
+export async function updateMilestone(id: string, patch: Partial<MilestoneInput>): Promise<Milestone> {
+  const existing: MilestoneRow | null = await prisma.milestone.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekanntes Kapitel', 404);
+
+  const next = { ...toMilestone(existing), ...patch };
+  assertValid(next);
+  const row: MilestoneRow = await prisma.milestone.update({ where: { id }, data: toColumns(next) });
+  return toMilestone(row);
+}
+
+export async function deleteMilestone(id: string): Promise<void> {
+  const existing = await prisma.milestone.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekanntes Kapitel', 404);
+  await prisma.milestone.delete({ where: { id } });
+}
@@ -0,0 +1,68 @@
+import type { Milestone, MilestoneInput } from '../types/history';
+import { isIsoDate } from './dates';
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_IMAGES = 6;
+
+const monthNames = [
+  'Januar',
+  'Februar',
+  'März',
+  'April',
+  'Mai',
+  'Juni',
+  'Juli',
+  'August',
+  'September',
+  'Oktober',
+  'November',
+  'Dezember',
+];
+
+export function isMilestoneDate(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  if (/^\d{4}$/.test(value)) return true;
+  if (/^\d{4}-\d{2}$/.test(value)) return isIsoDate(`${value}-01`);
+  return isIsoDate(value);
+}
+
+// "2017", "September 2017", "15. September 2017"
+export function formatMilestoneDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!month) return String(year);
+  return `${day ? `${day}. ` : ''}${monthNames[month - 1]} ${year}`;
+}
+
+// Oldest first; a bare year comes before the months of that year.
+export function sortMilestones(milestones: Milestone[]): Milestone[] {
+  return [...milestones].sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+}
+
+// Images must be in /public or on https, so the page never loads mixed content.
+function isImageSource(src: string): boolean {
+  return src.startsWith('/') || src.startsWith('https://');
+}
+
+export function validateMilestone(milestone: MilestoneInput): string[] {
+  const problems: string[] = [];
+  if (!isMilestoneDate(milestone.date)) problems.push('Datum bitte als Jahr, Jahr-Monat oder Jahr-Monat-Tag angeben');
+  if (!milestone.title?.trim()) problems.push('Titel fehlt');
+  else if (milestone.title.trim().length > MAX_TITLE_LENGTH) {
+    problems.push(`Der Titel darf höchstens ${MAX_TITLE_LENGTH} Zeichen lang sein`);
+  }
+  if (!milestone.text?.trim()) problems.push('Text fehlt');
+  else if (milestone.text.length > MAX_TEXT_LENGTH) {
+    problems.push(`Der Text darf höchstens ${MAX_TEXT_LENGTH} Zeichen lang sein`);
+  }
+  if (!Array.isArray(milestone.images)) {
+    problems.push('Ungültige Bilder');
+  } else {
+    if (milestone.images.length > MAX_IMAGES) problems.push(`Höchstens ${MAX_IMAGES} Bilder pro Kapitel`);
+    if (milestone.images.some((image) => !image?.src || !isImageSource(image.src))) {
+      problems.push('Bilder bitte als Pfad in /public oder als https-Adresse angeben');
+    }
+    if (milestone.images.some((image) => !image?.alt?.trim())) problems.push('Jedes Bild braucht eine Beschreibung');
+  }
+  return problems;
+}
@@ -0,0 +1,68 @@
+import de, { type MessageKey, type Messages } from '../data/messages/de';
+import en from '../data/messages/en';
+
+export const locales = ['de', 'en'] as const;
+export type Locale = (typeof locales)[number];
+
+// The card, the crew and most guests are German; English is for tourists
+// and exchange students.
+export const defaultLocale: Locale = 'de';
+
+export const localeNames: Record<Locale, string> = { de: 'Deutsch', en: 'English' };
+
+// Remembers the last /de or /en page, so unprefixed links stay in that language.
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+// Set by middleware.ts on the rewritten request, read by the root layout.
+export const LOCALE_HEADER = 'x-locale';
+
+const catalogues: Record<Locale, Messages> = { de, en };
+
+// Pages that exist in English: the menu and the table menu. Everything else
+// (reservations, events, Sportarena, Tipprunde, story and team, with their
+// forms) is German only, so middleware.ts sends /en links there to the
+// German page and the language switcher points to the English menu instead.
+export const translatedPaths = ['/karte', '/tisch'];
+
+export function isTranslated(path: string): boolean {
+  return translatedPaths.some((page) => path === page || path.startsWith(`${page}/`));
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (locales as readonly string[]).includes(value);
+}
+
+// "Tisch {number}" with { number: 4 } → "Tisch 4"; unknown placeholders stay.
+export function translate(locale: Locale, key: MessageKey, values: Record<string, string | number> = {}): string {
+  const message = catalogues[locale][key] ?? de[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : placeholder,
+  );
+}
+
+// "/karte" → "/en/karte", "/" → "/en"
+export function localePath(locale: Locale, path: string): string {
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+// "/en/karte" → { locale: 'en', path: '/karte' }; paths without a locale
+// come back unchanged.
+export function splitLocale(pathname: string): { locale?: Locale; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isLocale(first)) return { path: pathname };
+  return { locale: first, path: `/${rest.join('/')}` };
+}
+
+// The best match of an Accept-Language header such as "en-GB,en;q=0.9,de;q=0.8".
+export function preferredLocale(acceptLanguage: string | null): Locale {
+  const ranked = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), quality: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+  return ranked.find(({ language }) => isLocale(language))?.language as Locale | undefined ?? defaultLocale;
+}
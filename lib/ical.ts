@@ -0,0 +1,42 @@
+// Building blocks of RFC 5545 calendar files, shared by the screenings
+// calendar and the personal duty roster feeds.
+
+export function icsTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function icsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+// RFC 5545 wants lines of at most 75 octets, continued with a leading space.
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// Wraps the VEVENT lines into a calendar with folded CRLF lines. `name` is
+// what calendar apps show for a subscribed feed.
+export function icsCalendar(productId: string, eventLines: string[], name?: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${icsText(name)}`] : []),
+    ...eventLines,
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
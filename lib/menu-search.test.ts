@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { buildMenuIndex, searchMenuIndex } from './menu-search';
+import { menu } from './menu';
+
+const titles = (query: string) => searchMenuIndex(buildMenuIndex(menu), query).map((entry) => entry.item.title);
+
+describe('searchMenuIndex', () => {
+  it('finds drinks by the ingredients in their tags', () => {
+    expect(titles('ginger beer')).toContain("Dark 'N' Stormy");
+    expect(titles('angostura')).toContain('Old Fashioned');
+  });
+});
@@ -0,0 +1,98 @@
+import type { MenuCatalogue, MenuCategory, MenuItem } from '../types/menu';
+import { allergenLabels, dietLabels } from './allergens';
+
+// One searchable item with everything a guest might type to find it.
+export interface MenuSearchEntry {
+  item: MenuItem;
+  // the category holding the item, and the titles from the top level down
+  categoryId: string;
+  categoryPath: string[];
+  // normalised words of the title, and of everything else
+  titleWords: string[];
+  words: string[];
+}
+
+// Folds the spellings guests type into one: case, umlauts typed as "ä",
+// "ae" or plain "a", ß and ss, accents as in "Rosé". Both the index and the
+// query go through it, so the folding never has to be undone.
+export function normalizeGerman(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([aou])e/g, '$1');
+}
+
+function words(text: string): string[] {
+  return normalizeGerman(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Keywords that are not written on the card but that guests search for.
+function derivedKeywords(item: MenuItem): string[] {
+  return [
+    ...(item.abv === 0 ? ['alkoholfrei'] : []),
+    ...(item.diet ? [dietLabels[item.diet]] : []),
+    ...(item.allergens ?? []).map((code) => allergenLabels[code]),
+  ];
+}
+
+// Ingredients are searched through the tags: the card has no separate
+// ingredient list, the tags are the line under the title that names them
+// ("Dark rum · Ginger beer · Slice of lime"), next to serving notes such as
+// "vom Fass".
+export function buildMenuIndex(catalogue: MenuCatalogue): MenuSearchEntry[] {
+  const visit = (category: MenuCategory, parents: string[]): MenuSearchEntry[] => {
+    const path = [...parents, category.title];
+    return [
+      ...(category.items ?? []).map((item) => ({
+        item,
+        categoryId: category.id,
+        categoryPath: path,
+        titleWords: words(item.title),
+        words: [...item.tags, ...path, ...derivedKeywords(item)].flatMap(words),
+      })),
+      ...(category.children ?? []).flatMap((child) => visit(child, path)),
+    ];
+  };
+  return catalogue.categories.flatMap((category) => visit(category, []));
+}
+
+// How well one query term fits a list of words: a whole word beats the start
+// of a word beats a part of a compound ("weizen" in "kristallweizen").
+function termScore(term: string, candidates: string[]): number {
+  let best = 0;
+  for (const word of candidates) {
+    if (word === term) return 3;
+    if (word.startsWith(term)) best = Math.max(best, 2);
+    else if (word.includes(term)) best = Math.max(best, 1);
+  }
+  return best;
+}
+
+// Entries matching every term of the query, best first; title hits count
+// double. Ties keep card order.
+export function searchMenuIndex(index: MenuSearchEntry[], query: string, limit = Infinity): MenuSearchEntry[] {
+  const terms = words(query);
+  if (terms.length === 0) return [];
+
+  const scored: { entry: MenuSearchEntry; score: number }[] = [];
+  for (const entry of index) {
+    let score = 0;
+    for (const term of terms) {
+      const fit = Math.max(2 * termScore(term, entry.titleWords), termScore(term, entry.words));
+      if (fit === 0) {
+        score = 0;
+        break;
+      }
+      score += fit;
+    }
+    if (score > 0) scored.push({ entry, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
@@ -0,0 +1,215 @@
+import type {
+  AdditiveNumber,
+  AllergenCode,
+  Diet,
+  MenuCatalogue,
+  MenuCategory,
+  MenuItem,
+  MenuItemInput,
+  MenuItemTranslation,
+  Serving,
+  VolumeUnit,
+} from '../types/menu';
+import { prisma } from './prisma';
+import { seedOnce } from './seed';
+import { menu, servingKey, validateMenuItem, visibleMenu } from './menu';
+import { InputError } from './api';
+
+interface MenuItemRow {
+  id: string;
+  title: string;
+  priceCents: number;
+  servingAmount: number | null;
+  servingUnit: string | null;
+  servingCount: number | null;
+  abv: number | null;
+  tags: string;
+  allergens: string;
+  additives: string;
+  diet: string | null;
+  hidden: boolean;
+  translations: string;
+  categoryId: string;
+}
+
+interface MenuCategoryRow {
+  id: string;
+  title: string;
+  parentId: string | null;
+  items: MenuItemRow[];
+}
+
+function toMenuItem(row: MenuItemRow): MenuItem {
+  const serving: Serving | undefined =
+    row.servingAmount != null
+      ? {
+          amount: row.servingAmount,
+          unit: row.servingUnit as VolumeUnit,
+          ...(row.servingCount ? { count: row.servingCount } : {}),
+        }
+      : undefined;
+  return {
+    id: row.id,
+    title: row.title,
+    priceCents: row.priceCents,
+    ...(serving ? { serving } : {}),
+    ...(row.abv != null ? { abv: row.abv } : {}),
+    tags: JSON.parse(row.tags),
+    ...(row.allergens !== '[]' ? { allergens: JSON.parse(row.allergens) as AllergenCode[] } : {}),
+    ...(row.additives !== '[]' ? { additives: JSON.parse(row.additives) as AdditiveNumber[] } : {}),
+    ...(row.diet ? { diet: row.diet as Diet } : {}),
+    hidden: row.hidden,
+    ...(row.translations !== '{}'
+      ? { translations: JSON.parse(row.translations) as { en?: MenuItemTranslation } }
+      : {}),
+  };
+}
+
+function toColumns(item: MenuItemInput) {
+  return {
+    title: item.title.trim(),
+    priceCents: item.priceCents,
+    servingAmount: item.serving?.amount ?? null,
+    servingUnit: item.serving?.unit ?? null,
+    servingCount: item.serving?.count ?? null,
+    abv: item.abv ?? null,
+    tags: JSON.stringify(item.tags.map((tag) => tag.trim()).filter(Boolean)),
+    allergens: JSON.stringify(Array.from(new Set(item.allergens ?? [])).sort()),
+    additives: JSON.stringify(Array.from(new Set(item.additives ?? [])).sort((a, b) => a - b)),
+    diet: item.diet ?? null,
+    hidden: item.hidden ?? false,
+    translations: JSON.stringify(item.translations ?? {}),
+  };
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// The static catalogue in data/menu.ts is the starting point of a fresh
+// database, so an empty install shows the same card as before.
+function ensureSeeded(): Promise<void> {
+  return seedOnce('menu', () => {
+    const writes: unknown[] = [];
+    const visit = (category: MenuCategory, parentId: string | null, position: number) => {
+      writes.push(
+        prisma.menuCategory.create({
+          data: { id: category.id, title: category.title, parentId, position },
+        }),
+      );
+      (category.items ?? []).forEach((item, index) => {
+        writes.push(
+          prisma.menuItem.create({
+            data: { id: item.id, categoryId: category.id, position: index, ...toColumns(item) },
+          }),
+        );
+      });
+      (category.children ?? []).forEach((child, index) => visit(child, category.id, index));
+    };
+    menu.categories.forEach((category, index) => visit(category, null, index));
+    return writes;
+  });
+}
+
+export async function getStoredMenu(): Promise<MenuCatalogue> {
+  await ensureSeeded();
+
+  const rows: MenuCategoryRow[] = await prisma.menuCategory.findMany({
+    orderBy: { position: 'asc' },
+    include: { items: { orderBy: { position: 'asc' } } },
+  });
+
+  const build = (parentId: string | null): MenuCategory[] =>
+    rows
+      .filter((row) => row.parentId === parentId)
+      .map((row) => {
+        const children = build(row.id);
+        return {
+          id: row.id,
+          title: row.title,
+          ...(row.items.length > 0 ? { items: row.items.map(toMenuItem) } : {}),
+          ...(children.length > 0 ? { children } : {}),
+        };
+      });
+
+  return { categories: build(null) };
+}
+
+async function assertValid(categoryId: string, item: MenuItemInput, ownId?: string) {
+  const problems = validateMenuItem({ ...item, id: ownId ?? '' });
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+
+  const siblings: MenuItemRow[] = await prisma.menuItem.findMany({ where: { categoryId } });
+  const key = servingKey(item);
+  const duplicate = siblings.find((row) => row.id !== ownId && servingKey(toMenuItem(row)) === key);
+  if (duplicate) {
+    throw new InputError(`"${item.title}" is already listed with the same serving`, 409);
+  }
+}
+
+export async function createMenuItem(categoryId: string, item: MenuItemInput): Promise<MenuItem> {
+  await ensureSeeded();
+  if (typeof categoryId !== 'string') throw new InputError('categoryId is required');
+  const category = await prisma.menuCategory.findUnique({ where: { id: categoryId } });
+  if (!category) throw new InputError(`Unknown menu category "${categoryId}"`, 404);
+  await assertValid(categoryId, item);
+
+  const base = slugify([item.title, item.serving?.amount].filter(Boolean).join(' ')) || 'artikel';
+  let id = base;
+  for (let n = 2; await prisma.menuItem.findUnique({ where: { id } }); n++) id = `${base}-${n}`;
+
+  const position = await prisma.menuItem.count({ where: { categoryId } });
+  const row = await prisma.menuItem.create({
+    data: { id, categoryId, position, ...toColumns(item) },
+  });
+  return toMenuItem(row);
+}
+
+export async function updateMenuItem(id: string, patch: Partial<MenuItemInput>): Promise<MenuItem> {
+  const existing: MenuItemRow | null = await prisma.menuItem.findUnique({ where: { id } });
+  if (!existing) throw new InputError(`Unknown menu item "${id}"`, 404);
+
+  const next = { ...toMenuItem(existing), ...patch };
+  await assertValid(existing.categoryId, next, id);
+
+  const row = await prisma.menuItem.update({ where: { id }, data: toColumns(next) });
+  return toMenuItem(row);
+}
+
+export async function deleteMenuItem(id: string): Promise<void> {
+  const existing = await prisma.menuItem.findUnique({ where: { id } });
+  if (!existing) throw new InputError(`Unknown menu item "${id}"`, 404);
+  await prisma.menuItem.delete({ where: { id } });
+}
+
+export async function reorderMenuItems(categoryId: string, ids: string[]): Promise<void> {
+  if (typeof categoryId !== 'string' || !Array.isArray(ids)) {
+    throw new InputError('The new order needs a category and the list of its item ids');
+  }
+  const rows: MenuItemRow[] = await prisma.menuItem.findMany({ where: { categoryId } });
+  const known = new Set(rows.map((row) => row.id));
+  if (new Set(ids).size !== known.size || ids.length !== known.size || !ids.every((id) => known.has(id))) {
+    throw new InputError('The new order must list every item of the category exactly once');
+  }
+  await prisma.$transaction(
+    ids.map((id, position) => prisma.menuItem.update({ where: { id }, data: { position } })),
+  );
+}
+
+// What guests see on the website and the printed card. They still get the
+// static catalogue when the database is unreachable.
+export async function getGuestMenu(): Promise<MenuCatalogue> {
+  try {
+    return visibleMenu(await getStoredMenu());
+  } catch (error) {
+    console.error('Error loading stored menu, serving static catalogue:', error);
+    return visibleMenu(menu);
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { MenuItem } from '../types/menu';
+import { validateMenuItem } from './menu';
+
+const pils: MenuItem = {
+  id: 'pils',
+  title: 'Pils',
+  priceCents: 420,
+  serving: { amount: 0.3, unit: 'l' },
+  tags: ['vom Fass'],
+  translations: { en: { tags: ['on tap'] } },
+};
+
+// Request bodies are checked as they come, whatever JSON the client sent.
+const withBody = (body: Record<string, unknown>) => ({ ...pils, ...body }) as unknown as MenuItem;
+
+describe('validateMenuItem', () => {
+  it('accepts a complete item', () => {
+    expect(validateMenuItem(pils)).toEqual([]);
+  });
+
+  it('reports malformed fields instead of failing on them', () => {
+    expect(validateMenuItem(withBody({ title: 7, tags: 'vom Fass' }))).toEqual([
+      'title is required',
+      'tags must be a list of texts',
+    ]);
+    expect(validateMenuItem(withBody({ serving: { amount: 0.3, unit: 'pint' }, allergens: 'A' }))).toEqual([
+      'serving must be a positive volume',
+      'allergens must be EU allergen letters A to R',
+    ]);
+    expect(validateMenuItem(withBody({ translations: { en: { title: 3, tags: [1] } } }))).toEqual([
+      'the English title must not be empty',
+      'the English tags must be a list of texts',
+    ]);
+  });
+
+  it('needs the tags even when the body leaves them out', () => {
+    expect(validateMenuItem(withBody({ tags: undefined }))).toEqual(['tags must be a list of texts']);
+  });
+});
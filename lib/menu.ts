@@ -0,0 +1,198 @@
+import type { MenuCatalogue, MenuCategory, MenuItem, Serving } from '../types/menu';
+import menuCatalogue from '../data/menu';
+import { diets, isAdditiveNumber, isAllergenCode } from './allergens';
+import type { Locale } from './i18n';
+import { buildMenuIndex, searchMenuIndex } from './menu-search';
+
+const isTextList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
+// Items come straight from request bodies, so the shapes are checked before
+// anything is called on them: a bad body is a 400, not a crash in toColumns.
+export function validateMenuItem(item: MenuItem): string[] {
+  const problems: string[] = [];
+  if (typeof item.title !== 'string' || !item.title.trim()) problems.push('title is required');
+  if (!Number.isInteger(item.priceCents) || item.priceCents < 0) {
+    problems.push('price must be a non-negative amount of cents');
+  }
+  if (item.abv != null && !(typeof item.abv === 'number' && item.abv >= 0 && item.abv <= 100)) {
+    problems.push('abv must be between 0 and 100');
+  }
+  if (
+    item.serving != null &&
+    (typeof item.serving !== 'object' ||
+      !(typeof item.serving.amount === 'number' && item.serving.amount > 0) ||
+      !['ml', 'cl', 'l'].includes(item.serving.unit) ||
+      (item.serving.count != null && !(Number.isInteger(item.serving.count) && item.serving.count >= 1)))
+  ) {
+    problems.push('serving must be a positive volume');
+  }
+  if (!isTextList(item.tags)) problems.push('tags must be a list of texts');
+  if (item.allergens != null && !(Array.isArray(item.allergens) && item.allergens.every(isAllergenCode))) {
+    problems.push('allergens must be EU allergen letters A to R');
+  }
+  if (item.additives != null && !(Array.isArray(item.additives) && item.additives.every(isAdditiveNumber))) {
+    problems.push('additives must be additive numbers 1 to 12');
+  }
+  if (item.diet != null && !diets.includes(item.diet)) problems.push('diet must be vegetarian or vegan');
+  if (item.hidden != null && typeof item.hidden !== 'boolean') problems.push('hidden must be true or false');
+  if (item.translations != null && (typeof item.translations !== 'object' || Array.isArray(item.translations))) {
+    problems.push('translations must be an object');
+    return problems;
+  }
+  const en = item.translations?.en;
+  if (en?.title !== undefined && !(typeof en.title === 'string' && en.title.trim())) {
+    problems.push('the English title must not be empty');
+  }
+  if (en?.tags !== undefined && !isTextList(en.tags)) problems.push('the English tags must be a list of texts');
+  return problems;
+}
+
+export function servingKey(item: Pick<MenuItem, 'title' | 'serving'>): string {
+  return `${item.title.trim().toLowerCase()}|${formatServing(item.serving)}`;
+}
+
+// Walks the catalogue and collects every problem instead of stopping at the
+// first one, so a broken price list fails the build with the full picture.
+// Items without English tags count as broken too, the /en card needs them.
+export function validateMenu(catalogue: MenuCatalogue): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  const visit = (category: MenuCategory, path: string) => {
+    if (ids.has(category.id)) problems.push(`${path}: duplicate id "${category.id}"`);
+    ids.add(category.id);
+
+    const entries = new Set<string>();
+    for (const item of category.items ?? []) {
+      const where = `${path} > ${item.title}`;
+      if (ids.has(item.id)) problems.push(`${where}: duplicate id "${item.id}"`);
+      ids.add(item.id);
+
+      const entry = servingKey(item);
+      if (entries.has(entry)) problems.push(`${where}: listed twice with the same serving`);
+      entries.add(entry);
+
+      problems.push(...validateMenuItem(item).map((problem) => `${where}: ${problem}`));
+      if (missingTranslation(item)) problems.push(`${where}: English tags are missing`);
+    }
+
+    for (const child of category.children ?? []) {
+      visit(child, `${path} > ${child.title}`);
+    }
+  };
+
+  for (const category of catalogue.categories) visit(category, category.title);
+  return problems;
+}
+
+export function loadMenu(catalogue: MenuCatalogue): MenuCatalogue {
+  const problems = validateMenu(catalogue);
+  if (problems.length > 0) {
+    throw new Error(`Invalid menu catalogue:\n  ${problems.join('\n  ')}`);
+  }
+  return catalogue;
+}
+
+// The guest-facing view of a catalogue: hidden items are dropped.
+export function visibleMenu(catalogue: MenuCatalogue): MenuCatalogue {
+  const strip = (category: MenuCategory): MenuCategory => ({
+    ...category,
+    items: category.items?.filter((item) => !item.hidden),
+    children: category.children?.map(strip),
+  });
+  return { categories: catalogue.categories.map(strip) };
+}
+
+// The guest-facing catalogue in the guest's language: translated titles and
+// tags replace the German ones, untranslated items stay German.
+export function localizeMenu(catalogue: MenuCatalogue, locale: Locale): MenuCatalogue {
+  if (locale === 'de') return catalogue;
+
+  const localize = (category: MenuCategory): MenuCategory => ({
+    ...category,
+    items: category.items?.map((item) => {
+      const translation = item.translations?.[locale];
+      return translation
+        ? { ...item, title: translation.title ?? item.title, tags: translation.tags ?? item.tags }
+        : item;
+    }),
+    children: category.children?.map(localize),
+  });
+  return { categories: catalogue.categories.map(localize) };
+}
+
+// An item whose description the English card would still show in German.
+export function missingTranslation(item: MenuItem): boolean {
+  return item.tags.length > 0 && !item.translations?.en?.tags?.length;
+}
+
+// Items matching the query, in categories that keep at least one match.
+// Matching is that of the menu search index, see lib/menu-search.ts.
+export function searchMenu(catalogue: MenuCatalogue, query: string): MenuCatalogue {
+  if (!query.trim()) return catalogue;
+
+  const found = new Set(searchMenuIndex(buildMenuIndex(catalogue), query).map((entry) => entry.item));
+  const filter = (categories: MenuCategory[]): MenuCategory[] =>
+    categories.flatMap((category) => {
+      const items = category.items?.filter((item) => found.has(item)) ?? [];
+      const children = filter(category.children ?? []);
+      if (items.length === 0 && children.length === 0) return [];
+      return [{ ...category, items, children }];
+    });
+  return { categories: filter(catalogue.categories) };
+}
+
+export function findCategory(catalogue: MenuCatalogue, id: string): MenuCategory | undefined {
+  const search = (categories: MenuCategory[]): MenuCategory | undefined => {
+    for (const category of categories) {
+      if (category.id === id) return category;
+      const found = search(category.children ?? []);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return search(catalogue.categories);
+}
+
+// Every item of the catalogue, in card order.
+export function menuItems(catalogue: MenuCatalogue): MenuItem[] {
+  const collect = (category: MenuCategory): MenuItem[] => [
+    ...(category.items ?? []),
+    ...(category.children ?? []).flatMap(collect),
+  ];
+  return catalogue.categories.flatMap(collect);
+}
+
+export function getMenuCategory(
+  catalogue: MenuCatalogue,
+  id: string,
+): MenuCategory & { items: MenuItem[] } {
+  const category = findCategory(catalogue, id);
+  if (!category) throw new Error(`Unknown menu category "${id}"`);
+  return { ...category, items: category.items ?? [] };
+}
+
+export function formatPrice(cents: number): string {
+  return `Euro ${(cents / 100).toFixed(2)}`;
+}
+
+// Accepts what staff type into a price field: "3.30", "3,30" or "17".
+export function parsePrice(input: string): number | null {
+  const match = input.trim().replace(/^euro\s*/i, '').match(/^(\d+)(?:[.,](\d{1,2}))?$/);
+  if (!match) return null;
+  return Number(match[1]) * 100 + Number((match[2] ?? '0').padEnd(2, '0'));
+}
+
+export function formatServing(serving?: Serving): string {
+  if (!serving) return '';
+  const volume = `${serving.amount}${serving.unit}`;
+  return serving.count ? `${serving.count} x ${volume}` : volume;
+}
+
+export function formatTags(item: MenuItem): string {
+  return [...item.tags, formatServing(item.serving)].filter(Boolean).join(' | ');
+}
+
+// Evaluated on import, so `next build` refuses to ship an invalid catalogue.
+export const menu = loadMenu(menuCatalogue);
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import weeklyHours from '../data/opening-hours';
+import { barInstant, closingMinutes, openingStatus } from './opening-hours';
+
+// The bar runs on Berlin time wherever the server is, so every case runs
+// once in a server time zone without daylight saving and once in one that
+// switches on different dates than Berlin.
+const serverTimeZones = ['UTC', 'America/New_York'];
+
+const status = (iso: string) => openingStatus(new Date(iso), weeklyHours, []);
+
+describe.each(serverTimeZones)('opening hours on a server in %s', (timeZone) => {
+  const previous = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = timeZone;
+  });
+  afterAll(() => {
+    process.env.TZ = previous;
+  });
+
+  it('runs in that time zone', () => {
+    expect(new Date('2026-07-01T12:00:00Z').getTimezoneOffset()).toBe(timeZone === 'UTC' ? 0 : 240);
+  });
+
+  describe('closingMinutes', () => {
+    it('counts a shift past midnight into the next day', () => {
+      expect(closingMinutes({ weekday: 5, opens: '15:00', closes: '03:00' })).toBe(27 * 60);
+    });
+
+    it('keeps 24:00 on the opening day', () => {
+      expect(closingMinutes({ weekday: 1, opens: '18:00', closes: '24:00' })).toBe(24 * 60);
+    });
+  });
+
+  describe('barInstant', () => {
+    it('places the Friday shift from 15:00 to 03:00 in summer time', () => {
+      expect(barInstant('2026-10-16', 15 * 60).toISOString()).toBe('2026-10-16T13:00:00.000Z');
+      expect(barInstant('2026-10-16', 27 * 60).toISOString()).toBe('2026-10-17T01:00:00.000Z');
+    });
+
+    it('makes Monday 24:00 the following midnight', () => {
+      expect(barInstant('2026-10-19', 24 * 60).toISOString()).toBe('2026-10-19T22:00:00.000Z');
+    });
+
+    it('lasts thirteen hours on the Saturday the clocks go back', () => {
+      const opens = barInstant('2026-10-24', 15 * 60);
+      const closes = barInstant('2026-10-24', 27 * 60);
+      expect(opens.toISOString()).toBe('2026-10-24T13:00:00.000Z');
+      expect(closes.toISOString()).toBe('2026-10-25T02:00:00.000Z');
+      expect(closes.getTime() - opens.getTime()).toBe(13 * 3_600_000);
+    });
+
+    it('lasts eleven hours on the Saturday the clocks go forward', () => {
+      const opens = barInstant('2026-03-28', 15 * 60);
+      const closes = barInstant('2026-03-28', 27 * 60);
+      expect(opens.toISOString()).toBe('2026-03-28T14:00:00.000Z');
+      expect(closes.toISOString()).toBe('2026-03-29T01:00:00.000Z');
+      expect(closes.getTime() - opens.getTime()).toBe(11 * 3_600_000);
+    });
+  });
+
+  describe('openingStatus', () => {
+    it('is open after midnight while the Friday shift runs', () => {
+      // Saturday 01:30
+      expect(status('2026-10-16T23:30:00Z')).toEqual({
+        open: true,
+        closesAt: '2026-10-17T01:00:00.000Z',
+        minutesUntilChange: 90,
+      });
+    });
+
+    it('closes at 03:00 winter time in the night the clocks go back', () => {
+      // 02:30 summer time, then 02:30 again an hour later in winter time
+      expect(status('2026-10-25T00:30:00Z')).toMatchObject({ open: true, minutesUntilChange: 90 });
+      expect(status('2026-10-25T01:30:00Z')).toMatchObject({ open: true, minutesUntilChange: 30 });
+      // Sunday 03:00 winter time, closed until Monday 18:00
+      expect(status('2026-10-25T02:00:00Z')).toEqual({
+        open: false,
+        opensAt: '2026-10-26T17:00:00.000Z',
+        minutesUntilChange: 39 * 60,
+      });
+    });
+
+    it('closes at 03:00 summer time in the night the clocks go forward', () => {
+      // 01:30 winter time, 02:00 to 03:00 does not exist that night
+      expect(status('2026-03-29T00:30:00Z')).toEqual({
+        open: true,
+        closesAt: '2026-03-29T01:00:00.000Z',
+        minutesUntilChange: 30,
+      });
+    });
+
+    it('closes on Monday at midnight', () => {
+      expect(status('2026-10-19T21:59:00Z')).toMatchObject({ open: true, minutesUntilChange: 1 });
+      expect(status('2026-10-19T22:00:00Z')).toEqual({
+        open: false,
+        opensAt: '2026-10-20T16:00:00.000Z',
+        minutesUntilChange: 18 * 60,
+      });
+    });
+  });
+});
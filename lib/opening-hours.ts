@@ -0,0 +1,172 @@
+import type { OpeningException, OpeningShift, OpeningStatus } from '../types/opening-hours';
+import weeklyHours, { openingExceptions } from '../data/opening-hours';
+import { addDays, BAR_TIME_ZONE, barClock, timeToMinutes, weekdayOf } from './dates';
+
+// How far ahead openingStatus looks for the next opening.
+const LOOKAHEAD_DAYS = 14;
+
+export const weekdayNames = ['So', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa'];
+
+// Shifts that start on the given day, in order. An exception for the date
+// replaces the regular shifts of that weekday.
+export function shiftsOn(
+  date: string,
+  hours: OpeningShift[] = weeklyHours,
+  exceptions: OpeningException[] = openingExceptions,
+): OpeningShift[] {
+  const weekday = weekdayOf(date);
+  const exception = exceptions.find((entry) => entry.date === date);
+  if (exception) {
+    return exception.closed || !exception.opens || !exception.closes
+      ? []
+      : [{ weekday, opens: exception.opens, closes: exception.closes }];
+  }
+  return hours
+    .filter((shift) => shift.weekday === weekday)
+    .sort((a, b) => timeToMinutes(a.opens) - timeToMinutes(b.opens));
+}
+
+// Closing time in minutes after midnight of the opening day, so a shift
+// from 15:00 to 03:00 ends at 27 * 60.
+export function closingMinutes(shift: OpeningShift): number {
+  const opens = timeToMinutes(shift.opens);
+  const closes = timeToMinutes(shift.closes);
+  return closes > opens ? closes : closes + 24 * 60;
+}
+
+// Offset of the bar's time zone from UTC at the given instant, in minutes.
+function zoneOffset(instant: number): number {
+  const clock = barClock(new Date(instant));
+  const [year, month, day] = clock.date.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day) + clock.minutes * 60_000;
+  return Math.round((wall - Math.floor(instant / 60_000) * 60_000) / 60_000);
+}
+
+// The instant at which the bar's clocks show `minutes` after midnight of
+// `date`. Minutes past 24:00 roll into the following days, so shifts across
+// midnight and across a daylight saving switch come out in real time: the
+// Saturday shift from 15:00 to 03:00 lasts thirteen hours on the night the
+// clocks go back.
+export function barInstant(date: string, minutes: number): Date {
+  const day = addDays(date, Math.floor(minutes / 1440));
+  const [year, month, dom] = day.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, dom) + (minutes % 1440) * 60_000;
+  const guess = wall - zoneOffset(wall) * 60_000;
+  // Correct once in case the offset changes between the wall time and the
+  // guessed instant.
+  return new Date(wall - zoneOffset(guess) * 60_000);
+}
+
+interface OpeningPeriod {
+  opens: Date;
+  closes: Date;
+  note?: string;
+}
+
+function periodsBetween(
+  from: string,
+  days: number,
+  hours: OpeningShift[],
+  exceptions: OpeningException[],
+): OpeningPeriod[] {
+  const periods: OpeningPeriod[] = [];
+  for (let offset = 0; offset <= days; offset++) {
+    const date = addDays(from, offset);
+    const note = exceptions.find((entry) => entry.date === date)?.reason;
+    for (const shift of shiftsOn(date, hours, exceptions)) {
+      periods.push({
+        opens: barInstant(date, timeToMinutes(shift.opens)),
+        closes: barInstant(date, closingMinutes(shift)),
+        ...(note ? { note } : {}),
+      });
+    }
+  }
+  return periods;
+}
+
+// Whether the bar is open at `now`, and when that changes next.
+export function openingStatus(
+  now: Date = new Date(),
+  hours: OpeningShift[] = weeklyHours,
+  exceptions: OpeningException[] = openingExceptions,
+): OpeningStatus {
+  const today = barClock(now).date;
+  // yesterday's late shift may still be running
+  const periods = periodsBetween(addDays(today, -1), LOOKAHEAD_DAYS + 1, hours, exceptions);
+  const minutesUntil = (instant: Date) => Math.ceil((instant.getTime() - now.getTime()) / 60_000);
+
+  const current = periods.find((period) => period.opens <= now && now < period.closes);
+  if (current) {
+    return {
+      open: true,
+      closesAt: current.closes.toISOString(),
+      minutesUntilChange: minutesUntil(current.closes),
+      ...(current.note ? { note: current.note } : {}),
+    };
+  }
+
+  const next = periods.find((period) => period.opens > now);
+  const closedToday = exceptions.find((entry) => entry.date === today && entry.closed);
+  return {
+    open: false,
+    ...(next ? { opensAt: next.opens.toISOString(), minutesUntilChange: minutesUntil(next.opens) } : {}),
+    ...(closedToday ? { note: closedToday.reason } : {}),
+  };
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} Min.`;
+  return rest === 0 ? `${hours} Std.` : `${hours} Std. ${rest} Min.`;
+}
+
+function formatInstant(iso: string, now: Date): string {
+  const instant = new Date(iso);
+  const time = instant.toLocaleTimeString('de-DE', { timeZone: BAR_TIME_ZONE, hour: '2-digit', minute: '2-digit' });
+  const day = barClock(instant).date;
+  const today = barClock(now).date;
+  if (day === today) return `${time} Uhr`;
+  if (day === addDays(today, 1)) return `morgen ${time} Uhr`;
+  return `${weekdayNames[weekdayOf(day)]} ${time} Uhr`;
+}
+
+// "Geöffnet · schließt in 2 Std. 15 Min." or "Geschlossen · öffnet Fr 15:00 Uhr"
+export function describeOpeningStatus(status: OpeningStatus, now: Date = new Date()): string {
+  const parts = [status.open ? 'Geöffnet' : 'Geschlossen'];
+  if (status.note) parts.push(status.note);
+  if (status.open && status.minutesUntilChange != null) {
+    parts.push(`schließt in ${formatDuration(status.minutesUntilChange)}`);
+  } else if (status.opensAt) {
+    parts.push(`öffnet ${formatInstant(status.opensAt, now)}`);
+  }
+  return parts.join(' · ');
+}
+
+// The regular week in one line, consecutive days with the same hours
+// grouped: "Mo–Do 18–24 Uhr · Fr–Sa 15–03 Uhr · So geschlossen".
+export function describeWeeklyHours(hours: OpeningShift[] = weeklyHours): string {
+  const hoursOf = (weekday: number) =>
+    hours
+      .filter((shift) => shift.weekday === weekday)
+      .sort((a, b) => timeToMinutes(a.opens) - timeToMinutes(b.opens))
+      .map((shift) => `${shift.opens.slice(0, 2)}–${shift.closes.slice(0, 2)}`)
+      .join(', ') || 'geschlossen';
+
+  // Monday first, the way the bar prints it
+  const week = [1, 2, 3, 4, 5, 6, 0];
+  const groups: { first: number; last: number; text: string }[] = [];
+  for (const weekday of week) {
+    const text = hoursOf(weekday);
+    const previous = groups[groups.length - 1];
+    if (previous && previous.text === text) previous.last = weekday;
+    else groups.push({ first: weekday, last: weekday, text });
+  }
+
+  return groups
+    .map(({ first, last, text }) => {
+      const days = first === last ? weekdayNames[first] : `${weekdayNames[first]}–${weekdayNames[last]}`;
+      return text === 'geschlossen' ? `${days} ${text}` : `${days} ${text} Uhr`;
+    })
+    .join(' · ');
+}
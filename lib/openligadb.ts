@@ -0,0 +1,92 @@
+import type { BundesligaData, Match, MatchGroup, Team, TeamStanding } from '../types/bundesliga';
+
+// Point OPENLIGADB_URL at a local fixture server to run without the real API.
+const BASE_URL = (process.env.OPENLIGADB_URL || 'https://api.openligadb.de').replace(/\/$/, '');
+
+// How long an answer counts as fresh. After that it is still served while a
+// refresh runs in the background, until it is older than STALE_MS.
+const MAX_AGE_MS: Record<BundesligaData | 'group', number> = {
+  table: 5 * 60_000,
+  matchday: 60_000,
+  matches: 5 * 60_000,
+  teams: 24 * 60 * 60_000,
+  group: 5 * 60_000,
+};
+const STALE_MS = 24 * 60 * 60_000;
+
+export class OpenLigaError extends Error {
+  constructor(message: string, readonly status = 502) {
+    super(message);
+    this.name = 'OpenLigaError';
+  }
+}
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+// Shared by every visitor of this server instance.
+const cache = new Map<string, CacheEntry>();
+
+// Upstream requests under way, so concurrent visitors wait for the same one
+// instead of each fetching the path, cold cache included.
+const inFlight = new Map<string, Promise<unknown>>();
+
+async function fetchUpstream(path: string): Promise<unknown> {
+  const response = await fetch(`${BASE_URL}${path}`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new OpenLigaError(`OpenLigaDB API Error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+function revalidate(path: string): Promise<unknown> {
+  const pending = inFlight.get(path);
+  if (pending) return pending;
+
+  const refreshing = fetchUpstream(path)
+    .then((data) => {
+      cache.set(path, { data, fetchedAt: Date.now() });
+      return data;
+    })
+    .finally(() => inFlight.delete(path));
+  inFlight.set(path, refreshing);
+  return refreshing;
+}
+
+async function cachedGet<T>(path: string, maxAgeMs: number): Promise<T> {
+  const entry = cache.get(path);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+  if (entry && age < maxAgeMs) return entry.data as T;
+
+  if (entry && age < STALE_MS) {
+    revalidate(path).catch((error) => console.error(`Error refreshing ${path}, serving stale data:`, error));
+    return entry.data as T;
+  }
+  return (await revalidate(path)) as T;
+}
+
+export function getTable(league: string, season: number): Promise<TeamStanding[]> {
+  return cachedGet(`/getbltable/${league}/${season}`, MAX_AGE_MS.table);
+}
+
+// Matches carry the shortcut of the competition they were loaded from.
+async function getMatchData(path: string, league: string, maxAgeMs: number): Promise<Match[]> {
+  const matches = await cachedGet<Match[]>(path, maxAgeMs);
+  return matches.map((match) => ({ ...match, leagueShortcut: league }));
+}
+
+export function getMatches(league: string, season: number): Promise<Match[]> {
+  return getMatchData(`/getmatchdata/${league}/${season}`, league, MAX_AGE_MS.matches);
+}
+
+export function getTeams(league: string, season: number): Promise<Team[]> {
+  return cachedGet(`/getavailableteams/${league}/${season}`, MAX_AGE_MS.teams);
+}
+
+// Without a matchday, the one OpenLigaDB considers current.
+export async function getMatchday(league: string, season: number, matchday?: number): Promise<Match[]> {
+  const group = matchday ?? (await cachedGet<MatchGroup>(`/getcurrentgroup/${league}`, MAX_AGE_MS.group)).groupOrderID;
+  return getMatchData(`/getmatchdata/${league}/${season}/${group}`, league, MAX_AGE_MS.matchday);
+}
@@ -0,0 +1,126 @@
+import type { MenuCatalogue } from '../types/menu';
+import type { PricingContext, PricingLink, PricingRule, PricingRuleInput } from '../types/pricing';
+import { prisma } from './prisma';
+import { addDays, barClock } from './dates';
+import { getGuestMenu } from './menu-store';
+import { applyPricing, nextPriceChange, validatePricingRule } from './pricing';
+import { publicEventDates } from './public-event-store';
+import { screeningsBetween } from './screening-store';
+import { InputError } from './api';
+
+interface PricingRuleRow {
+  id: string;
+  name: string;
+  weekdays: string;
+  fromTime: string | null;
+  toTime: string | null;
+  link: string | null;
+  itemIds: string;
+  categoryIds: string;
+  percentOff: number | null;
+  priceCents: number | null;
+  active: boolean;
+}
+
+function toPricingRule(row: PricingRuleRow): PricingRule {
+  return {
+    id: row.id,
+    name: row.name,
+    weekdays: JSON.parse(row.weekdays),
+    ...(row.fromTime ? { from: row.fromTime } : {}),
+    ...(row.toTime ? { to: row.toTime } : {}),
+    ...(row.link ? { link: JSON.parse(row.link) as PricingLink } : {}),
+    itemIds: JSON.parse(row.itemIds),
+    categoryIds: JSON.parse(row.categoryIds),
+    ...(row.percentOff != null ? { percentOff: row.percentOff } : {}),
+    ...(row.priceCents != null ? { priceCents: row.priceCents } : {}),
+    active: row.active,
+  };
+}
+
+function toColumns(rule: PricingRuleInput) {
+  return {
+    name: rule.name.trim(),
+    weekdays: JSON.stringify(Array.from(new Set(rule.weekdays)).sort((a, b) => a - b)),
+    fromTime: rule.from || null,
+    toTime: rule.to || null,
+    link: rule.link ? JSON.stringify(rule.link) : null,
+    itemIds: JSON.stringify(Array.from(new Set(rule.itemIds))),
+    categoryIds: JSON.stringify(Array.from(new Set(rule.categoryIds))),
+    percentOff: rule.percentOff ?? null,
+    priceCents: rule.priceCents ?? null,
+    active: rule.active ?? true,
+  };
+}
+
+function assertValid(rule: PricingRuleInput) {
+  const problems = validatePricingRule(rule);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+}
+
+export async function listPricingRules(): Promise<PricingRule[]> {
+  const rows: PricingRuleRow[] = await prisma.pricingRule.findMany({ orderBy: { createdAt: 'asc' } });
+  return rows.map(toPricingRule);
+}
+
+export async function createPricingRule(input: PricingRuleInput): Promise<PricingRule> {
+  assertValid(input);
+  const row: PricingRuleRow = await prisma.pricingRule.create({ data: toColumns(input) });
+  return toPricingRule(row);
+}
+
+// A patch may switch between percentage and fixed price; the field it
+// leaves out is cleared by sending null.
+export async function updatePricingRule(
+  id: string,
+  patch: { [K in keyof PricingRuleInput]?: PricingRuleInput[K] | null },
+): Promise<PricingRule> {
+  const existing: PricingRuleRow | null = await prisma.pricingRule.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekannte Preisregel', 404);
+
+  const merged: Record<string, unknown> = { ...toPricingRule(existing), ...patch };
+  for (const key of Object.keys(merged)) if (merged[key] === null) delete merged[key];
+  const next = merged as unknown as PricingRuleInput;
+  assertValid(next);
+
+  const row: PricingRuleRow = await prisma.pricingRule.update({ where: { id }, data: toColumns(next) });
+  return toPricingRule(row);
+}
+
+export async function deletePricingRule(id: string): Promise<void> {
+  const existing = await prisma.pricingRule.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekannte Preisregel', 404);
+  await prisma.pricingRule.delete({ where: { id } });
+}
+
+// Screenings and public events a rule may be linked to around the given
+// instant. A window past midnight belongs to the day before, so that day's
+// events count; tomorrow's kick-offs tell when prices change next.
+export async function pricingContext(now: Date = new Date()): Promise<PricingContext> {
+  const today = barClock(now).date;
+  const [screenings, events] = await Promise.all([
+    screeningsBetween(addDays(today, -1), today),
+    publicEventDates(addDays(today, -1), today),
+  ]);
+  return { now, screenings, events };
+}
+
+// The guest menu at the prices in effect right now, and when they change
+// next. Without the rules, for instance when the database is unreachable,
+// guests see the regular prices.
+export async function getGuestPrices(now: Date = new Date()): Promise<{ catalogue: MenuCatalogue; changesAt?: Date }> {
+  const catalogue = await getGuestMenu();
+  try {
+    const rules = (await listPricingRules()).filter((rule) => rule.active);
+    if (rules.length === 0) return { catalogue };
+    const context = await pricingContext(now);
+    return { catalogue: applyPricing(catalogue, rules, context), changesAt: nextPriceChange(rules, context) };
+  } catch (error) {
+    console.error('Error evaluating pricing rules, serving regular prices:', error);
+    return { catalogue };
+  }
+}
+
+export async function getPricedGuestMenu(now: Date = new Date()): Promise<MenuCatalogue> {
+  return (await getGuestPrices(now)).catalogue;
+}
@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { MenuCatalogue } from '../types/menu';
+import type { PricingContext, PricingRule } from '../types/pricing';
+import { applyPricing, nextPriceChange, ruleApplies } from './pricing';
+
+// Rules go by context.now alone; the system clock is parked on a Wednesday
+// afternoon, outside of every window below.
+beforeAll(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-14T13:00:00Z'));
+});
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+const lateNight: PricingRule = {
+  id: 'late-night',
+  name: 'Late Night',
+  weekdays: [5],
+  from: '22:00',
+  to: '02:00',
+  itemIds: [],
+  categoryIds: ['drinks'],
+  percentOff: 50,
+  active: true,
+};
+
+const at = (iso: string, context: Partial<PricingContext> = {}): PricingContext => ({
+  now: new Date(iso),
+  screenings: [],
+  events: [],
+  ...context,
+});
+
+describe('ruleApplies', () => {
+  it('runs a Friday window from 22:00 to 02:00 into Saturday night', () => {
+    // Friday 21:59, 22:00, Saturday 01:30 and 02:00 in Berlin
+    expect(ruleApplies(lateNight, at('2026-10-16T19:59:00Z'))).toBe(false);
+    expect(ruleApplies(lateNight, at('2026-10-16T20:00:00Z'))).toBe(true);
+    expect(ruleApplies(lateNight, at('2026-10-16T23:30:00Z'))).toBe(true);
+    expect(ruleApplies(lateNight, at('2026-10-17T00:00:00Z'))).toBe(false);
+  });
+
+  it('takes the weekday of the day the window opened', () => {
+    const saturday = { ...lateNight, weekdays: [6] };
+    // Saturday 01:30 still belongs to Friday's window
+    expect(ruleApplies(saturday, at('2026-10-16T23:30:00Z'))).toBe(false);
+    // Saturday 23:00 and Sunday 01:30
+    expect(ruleApplies(saturday, at('2026-10-17T21:00:00Z'))).toBe(true);
+    expect(ruleApplies(saturday, at('2026-10-17T23:30:00Z'))).toBe(true);
+    expect(ruleApplies(lateNight, at('2026-10-17T21:00:00Z'))).toBe(false);
+  });
+
+  it('applies on every day without weekdays and never when inactive', () => {
+    expect(ruleApplies({ ...lateNight, weekdays: [] }, at('2026-10-14T20:30:00Z'))).toBe(true);
+    expect(ruleApplies({ ...lateNight, active: false }, at('2026-10-16T23:30:00Z'))).toBe(false);
+  });
+
+  describe('linked to a screening', () => {
+    const matchDay: PricingRule = { ...lateNight, weekdays: [], from: undefined, to: undefined, link: { kind: 'screening' } };
+    const screenings = [{ matchId: 77140, kickoff: '2026-10-17T13:30:00Z' }];
+
+    it('applies from kick-off for as long as the screening runs', () => {
+      expect(ruleApplies(matchDay, at('2026-10-17T13:29:00Z', { screenings }))).toBe(false);
+      expect(ruleApplies(matchDay, at('2026-10-17T13:30:00Z', { screenings }))).toBe(true);
+      expect(ruleApplies(matchDay, at('2026-10-17T15:29:00Z', { screenings }))).toBe(true);
+      expect(ruleApplies(matchDay, at('2026-10-17T15:30:00Z', { screenings }))).toBe(false);
+    });
+
+    it('applies to the linked match only', () => {
+      const freiburg = { ...matchDay, link: { kind: 'screening' as const, matchId: 77140 } };
+      const other = { ...matchDay, link: { kind: 'screening' as const, matchId: 77141 } };
+      expect(ruleApplies(freiburg, at('2026-10-17T14:00:00Z', { screenings }))).toBe(true);
+      expect(ruleApplies(other, at('2026-10-17T14:00:00Z', { screenings }))).toBe(false);
+    });
+  });
+
+  describe('linked to an event', () => {
+    const quizNight: PricingRule = { ...lateNight, link: { kind: 'event' } };
+    const events = [{ id: 'quiz', date: '2026-10-16' }];
+
+    it('applies after midnight of an event on the day the window opened', () => {
+      expect(ruleApplies(quizNight, at('2026-10-16T23:30:00Z', { events }))).toBe(true);
+      expect(ruleApplies(quizNight, at('2026-10-16T23:30:00Z', { events: [{ id: 'concert', date: '2026-10-17' }] }))).toBe(
+        false,
+      );
+    });
+
+    it('applies to the linked event only', () => {
+      const linked = (eventId: string) => ({ ...quizNight, link: { kind: 'event' as const, eventId } });
+      expect(ruleApplies(linked('quiz'), at('2026-10-16T23:30:00Z', { events }))).toBe(true);
+      expect(ruleApplies(linked('karaoke'), at('2026-10-16T23:30:00Z', { events }))).toBe(false);
+    });
+  });
+});
+
+describe('applyPricing', () => {
+  const catalogue: MenuCatalogue = {
+    categories: [
+      {
+        id: 'drinks',
+        title: 'Getränke',
+        children: [
+          { id: 'beer', title: 'Bier', items: [{ id: 'pils', title: 'Pils', priceCents: 420, tags: [] }] },
+        ],
+      },
+      { id: 'snacks', title: 'Snacks', items: [{ id: 'flammkuchen', title: 'Flammkuchen', priceCents: 890, tags: [] }] },
+    ],
+  };
+
+  it('reduces the covered items while the rule applies', () => {
+    const priced = applyPricing(catalogue, [lateNight], at('2026-10-16T23:30:00Z'));
+    expect(priced.categories[0].children?.[0].items?.[0]).toMatchObject({
+      priceCents: 210,
+      regularPriceCents: 420,
+      priceRule: 'Late Night',
+    });
+    expect(priced.categories[1].items?.[0]).toEqual(catalogue.categories[1].items?.[0]);
+  });
+
+  it('leaves the card alone outside of the window', () => {
+    expect(applyPricing(catalogue, [lateNight], at('2026-10-17T00:30:00Z'))).toBe(catalogue);
+  });
+});
+
+describe('nextPriceChange', () => {
+  it('is the next opening or closing of a window', () => {
+    // Friday 21:00, then Saturday 01:30
+    expect(nextPriceChange([lateNight], at('2026-10-16T19:00:00Z'))?.toISOString()).toBe('2026-10-16T20:00:00.000Z');
+    expect(nextPriceChange([lateNight], at('2026-10-16T23:30:00Z'))?.toISOString()).toBe('2026-10-17T00:00:00.000Z');
+  });
+
+  it('includes kick-off and the end of a linked screening', () => {
+    const matchDay: PricingRule = { ...lateNight, from: undefined, to: undefined, link: { kind: 'screening' } };
+    const screenings = [{ matchId: 77140, kickoff: '2026-10-17T13:30:00Z' }];
+    expect(nextPriceChange([matchDay], at('2026-10-17T12:00:00Z', { screenings }))?.toISOString()).toBe(
+      '2026-10-17T13:30:00.000Z',
+    );
+    expect(nextPriceChange([matchDay], at('2026-10-17T14:00:00Z', { screenings }))?.toISOString()).toBe(
+      '2026-10-17T15:30:00.000Z',
+    );
+    // after the match, the next change is midnight
+    expect(nextPriceChange([matchDay], at('2026-10-17T16:00:00Z', { screenings }))?.toISOString()).toBe(
+      '2026-10-17T22:00:00.000Z',
+    );
+  });
+
+  it('is undefined without active rules', () => {
+    expect(nextPriceChange([{ ...lateNight, active: false }], at('2026-10-16T19:00:00Z'))).toBeUndefined();
+  });
+});
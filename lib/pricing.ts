@@ -0,0 +1,156 @@
+import type { MenuCatalogue, MenuCategory, MenuItem } from '../types/menu';
+import type { PricingContext, PricingRule, PricingRuleInput } from '../types/pricing';
+import { addDays, barClock, timeToMinutes, weekdayOf } from './dates';
+import { barInstant, weekdayNames } from './opening-hours';
+import { SCREENING_MINUTES } from './screenings';
+
+const MAX_NAME_LENGTH = 40;
+
+// Response header of /api/menu with the instant of the next price change,
+// so an open menu can fetch the prices again right then.
+export const PRICE_CHANGE_HEADER = 'X-Price-Change';
+
+export function validatePricingRule(rule: PricingRuleInput): string[] {
+  const problems: string[] = [];
+  if (!rule.name?.trim()) problems.push('Name fehlt');
+  else if (rule.name.trim().length > MAX_NAME_LENGTH) {
+    problems.push(`Der Name darf höchstens ${MAX_NAME_LENGTH} Zeichen lang sein`);
+  }
+  if (!Array.isArray(rule.weekdays) || !rule.weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    problems.push('Ungültige Wochentage');
+  }
+  for (const time of [rule.from, rule.to]) {
+    if (time !== undefined && (!/^\d{2}:\d{2}$/.test(time) || timeToMinutes(time) >= 24 * 60)) {
+      problems.push('Ungültige Uhrzeit');
+      break;
+    }
+  }
+  if (rule.from && rule.to && rule.from === rule.to) problems.push('Beginn und Ende dürfen nicht gleich sein');
+  if (rule.link && rule.link.kind !== 'screening' && rule.link.kind !== 'event') {
+    problems.push('Unbekannte Verknüpfung');
+  }
+  if (!Array.isArray(rule.itemIds) || !Array.isArray(rule.categoryIds)) problems.push('Ungültige Auswahl');
+  if ((rule.percentOff === undefined) === (rule.priceCents === undefined)) {
+    problems.push('Bitte entweder einen Rabatt in Prozent oder einen Festpreis angeben');
+  } else if (rule.percentOff !== undefined && (!Number.isInteger(rule.percentOff) || rule.percentOff < 1 || rule.percentOff > 100)) {
+    problems.push('Der Rabatt muss zwischen 1 und 100 Prozent liegen');
+  } else if (rule.priceCents !== undefined && (!Number.isInteger(rule.priceCents) || rule.priceCents < 0)) {
+    problems.push('Ungültiger Festpreis');
+  }
+  return problems;
+}
+
+// The bar day on which the rule's current time window opened, or undefined
+// outside of it. Without `from` the window opens at midnight, without `to`
+// it lasts until the end of the day.
+function windowStart(rule: PricingRule, now: Date): string | undefined {
+  const { date, minutes } = barClock(now);
+  const from = rule.from ? timeToMinutes(rule.from) : 0;
+  const to = rule.to ? timeToMinutes(rule.to) : 24 * 60;
+  if (from < to) return minutes >= from && minutes < to ? date : undefined;
+  if (minutes >= from) return date;
+  if (minutes < to) return addDays(date, -1);
+  return undefined;
+}
+
+// Whether the rule is in effect at context.now. Weekday and event date are
+// those of the day the window opened, so a Friday happy hour until 02:00
+// still counts as Friday after midnight.
+export function ruleApplies(rule: PricingRule, context: PricingContext): boolean {
+  if (!rule.active) return false;
+  const day = windowStart(rule, context.now);
+  if (!day) return false;
+  if (rule.weekdays.length > 0 && !rule.weekdays.includes(weekdayOf(day))) return false;
+
+  const link = rule.link;
+  if (link?.kind === 'screening') {
+    const now = context.now.getTime();
+    return context.screenings.some((screening) => {
+      const kickoff = new Date(screening.kickoff).getTime();
+      return (
+        (link.matchId === undefined || screening.matchId === link.matchId) &&
+        now >= kickoff &&
+        now < kickoff + SCREENING_MINUTES * 60_000
+      );
+    });
+  }
+  if (link?.kind === 'event') {
+    return context.events.some((event) => event.date === day && (!link.eventId || event.id === link.eventId));
+  }
+  return true;
+}
+
+// The next instant after context.now at which one of the rules may start or
+// stop applying: a window opening or closing (midnight for rules without
+// times, which is also when weekdays and event dates turn) or a linked
+// screening kicking off or ending.
+export function nextPriceChange(rules: PricingRule[], context: PricingContext): Date | undefined {
+  const today = barClock(context.now).date;
+  const instants: number[] = [];
+  for (const rule of rules) {
+    if (!rule.active) continue;
+    const from = rule.from ? timeToMinutes(rule.from) : 0;
+    const to = rule.to ? timeToMinutes(rule.to) : 24 * 60;
+    for (const day of [today, addDays(today, 1)]) {
+      instants.push(barInstant(day, from).getTime(), barInstant(day, to).getTime());
+    }
+    if (rule.link?.kind === 'screening') {
+      for (const screening of context.screenings) {
+        const kickoff = new Date(screening.kickoff).getTime();
+        instants.push(kickoff, kickoff + SCREENING_MINUTES * 60_000);
+      }
+    }
+  }
+  const upcoming = instants.filter((instant) => instant > context.now.getTime());
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : undefined;
+}
+
+// `categoryIds` are the item's category and all its parents.
+function ruleCovers(rule: PricingRule, item: MenuItem, categoryIds: string[]): boolean {
+  if (rule.itemIds.length === 0 && rule.categoryIds.length === 0) return true;
+  return rule.itemIds.includes(item.id) || categoryIds.some((id) => rule.categoryIds.includes(id));
+}
+
+function rulePrice(rule: PricingRule, regularCents: number): number {
+  if (rule.priceCents !== undefined) return rule.priceCents;
+  return Math.round((regularCents * (100 - (rule.percentOff ?? 0))) / 100);
+}
+
+// The lowest price any of the applicable rules gives the item. Rules only
+// ever lower a price; a fixed price above the regular one is ignored.
+export function priceItem(item: MenuItem, categoryIds: string[], rules: PricingRule[]): MenuItem {
+  let best: { priceCents: number; rule: PricingRule } | undefined;
+  for (const rule of rules) {
+    if (!ruleCovers(rule, item, categoryIds)) continue;
+    const priceCents = rulePrice(rule, item.priceCents);
+    if (priceCents < (best?.priceCents ?? item.priceCents)) best = { priceCents, rule };
+  }
+  if (!best) return item;
+  return { ...item, priceCents: best.priceCents, regularPriceCents: item.priceCents, priceRule: best.rule.name };
+}
+
+// The catalogue with the prices in effect at context.now.
+export function applyPricing(catalogue: MenuCatalogue, rules: PricingRule[], context: PricingContext): MenuCatalogue {
+  const active = rules.filter((rule) => ruleApplies(rule, context));
+  if (active.length === 0) return catalogue;
+
+  const price = (category: MenuCategory, parents: string[]): MenuCategory => {
+    const path = [...parents, category.id];
+    return {
+      ...category,
+      ...(category.items ? { items: category.items.map((item) => priceItem(item, path, active)) } : {}),
+      ...(category.children ? { children: category.children.map((child) => price(child, path)) } : {}),
+    };
+  };
+  return { categories: catalogue.categories.map((category) => price(category, [])) };
+}
+
+// "Do, Fr 17:00–19:00", "Sa ab 22:00", "jeden Tag"
+export function describePricingWindow(rule: Pick<PricingRule, 'weekdays' | 'from' | 'to'>): string {
+  const days = [...rule.weekdays].sort((a, b) => a - b).map((day) => weekdayNames[day]);
+  const dayText = days.length === 0 || days.length === 7 ? 'jeden Tag' : days.join(', ');
+  if (rule.from && rule.to) return `${dayText} ${rule.from}–${rule.to}`;
+  if (rule.from) return `${dayText} ab ${rule.from}`;
+  if (rule.to) return `${dayText} bis ${rule.to}`;
+  return dayText;
+}
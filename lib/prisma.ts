@@ -0,0 +1,9 @@
+import { PrismaClient } from "@prisma/client"
+
+// Reuse one client across hot reloads in `next dev`, otherwise every edit
+// opens a new connection pool.
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient }
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient()
+
+if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma
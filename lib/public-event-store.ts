@@ -0,0 +1,146 @@
+import type {
+  EventAdmission,
+  EventOccurrence,
+  EventRecurrence,
+  PublicEvent,
+  PublicEventCategory,
+  PublicEventInput,
+} from '../types/public-event';
+import { prisma } from './prisma';
+import { barClock } from './dates';
+import { EVENT_HORIZON_DAYS, occurrenceDates, slugify, upcomingOccurrences, validatePublicEvent } from './public-events';
+import { InputError } from './api';
+
+interface PublicEventRow {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  image: string | null;
+  category: string;
+  date: string;
+  starts: string;
+  ends: string | null;
+  recurrence: string | null;
+  admission: string;
+  ticketUrl: string | null;
+  priceCents: number | null;
+  published: boolean;
+}
+
+function toPublicEvent(row: PublicEventRow): PublicEvent {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    description: row.description,
+    ...(row.image ? { image: row.image } : {}),
+    category: row.category as PublicEventCategory,
+    date: row.date,
+    starts: row.starts,
+    ...(row.ends ? { ends: row.ends } : {}),
+    ...(row.recurrence ? { recurrence: JSON.parse(row.recurrence) as EventRecurrence } : {}),
+    admission: row.admission as EventAdmission,
+    ...(row.ticketUrl ? { ticketUrl: row.ticketUrl } : {}),
+    ...(row.priceCents != null ? { priceCents: row.priceCents } : {}),
+    published: row.published,
+  };
+}
+
+function toColumns(event: PublicEventInput) {
+  return {
+    title: event.title.trim(),
+    description: event.description.trim(),
+    image: event.image?.trim() || null,
+    category: event.category,
+    date: event.date,
+    starts: event.starts,
+    ends: event.ends || null,
+    recurrence: event.recurrence ? JSON.stringify(event.recurrence) : null,
+    admission: event.admission,
+    ticketUrl: event.ticketUrl?.trim() || null,
+    priceCents: event.priceCents ?? null,
+    published: event.published,
+  };
+}
+
+function assertValid(event: PublicEventInput) {
+  const problems = validatePublicEvent(event);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+}
+
+// The slug of the title, numbered when another event already has it.
+async function uniqueSlug(title: string): Promise<string> {
+  const base = slugify(title);
+  const taken = new Set(
+    (await prisma.publicEvent.findMany({ where: { slug: { startsWith: base } }, select: { slug: true } })).map(
+      (row: { slug: string }) => row.slug,
+    ),
+  );
+  let slug = base;
+  for (let counter = 2; taken.has(slug); counter++) slug = `${base}-${counter}`;
+  return slug;
+}
+
+export async function listPublicEvents(): Promise<PublicEvent[]> {
+  const rows: PublicEventRow[] = await prisma.publicEvent.findMany({ orderBy: [{ date: 'asc' }, { starts: 'asc' }] });
+  return rows.map(toPublicEvent);
+}
+
+// Published event dates from today on, for the home page and /events.
+// Guests get an empty programme when the database is unreachable.
+export async function getUpcomingEvents(days: number = EVENT_HORIZON_DAYS): Promise<EventOccurrence[]> {
+  try {
+    const today = barClock().date;
+    const rows: PublicEventRow[] = await prisma.publicEvent.findMany({ where: { published: true } });
+    return upcomingOccurrences(rows.map(toPublicEvent), today, days);
+  } catch (error) {
+    console.error('Error loading public events:', error);
+    return [];
+  }
+}
+
+// The dates of published events from `from` to `to`, for pricing rules
+// linked to an event.
+export async function publicEventDates(from: string, to: string): Promise<{ id: string; date: string }[]> {
+  const rows: PublicEventRow[] = await prisma.publicEvent.findMany({ where: { published: true } });
+  return rows.flatMap((row) => occurrenceDates(toPublicEvent(row), from, to).map((date) => ({ id: row.id, date })));
+}
+
+// A published event for its detail page and calendar entry.
+export async function getPublicEvent(slug: string): Promise<PublicEvent> {
+  const row: PublicEventRow | null = await prisma.publicEvent.findUnique({ where: { slug } });
+  if (!row || !row.published) throw new InputError('Unbekanntes Event', 404);
+  return toPublicEvent(row);
+}
+
+export async function createPublicEvent(input: PublicEventInput): Promise<PublicEvent> {
+  assertValid(input);
+  const row: PublicEventRow = await prisma.publicEvent.create({
+    data: { ...toColumns(input), slug: await uniqueSlug(input.title) },
+  });
+  return toPublicEvent(row);
+}
+
+// Fields set to null are cleared, e.g. the recurrence of an event that no
+// longer repeats. The slug stays, even when the title changes.
+export async function updatePublicEvent(
+  id: string,
+  patch: { [K in keyof PublicEventInput]?: PublicEventInput[K] | null },
+): Promise<PublicEvent> {
+  const existing: PublicEventRow | null = await prisma.publicEvent.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekanntes Event', 404);
+
+  const merged: Record<string, unknown> = { ...toPublicEvent(existing), ...patch };
+  for (const key of Object.keys(merged)) if (merged[key] === null) delete merged[key];
+  const next = merged as unknown as PublicEventInput;
+  assertValid(next);
+  const row: PublicEventRow = await prisma.publicEvent.update({ where: { id }, data: toColumns(next) });
+  return toPublicEvent(row);
+}
+
+export async function deletePublicEvent(id: string): Promise<void> {
+  const existing = await prisma.publicEvent.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekanntes Event', 404);
+  await prisma.publicEvent.delete({ where: { id } });
+}
@@ -0,0 +1,255 @@
+import type {
+  EventAdmission,
+  EventOccurrence,
+  EventRecurrence,
+  PublicEvent,
+  PublicEventCategory,
+  PublicEventInput,
+} from '../types/public-event';
+import { addDays, daysBetween, fromIsoDate, isIsoDate, timeToMinutes, weekdayOf } from './dates';
+import { icsCalendar, icsText, icsTime } from './ical';
+import { barInstant } from './opening-hours';
+import { CALENDAR_HOST, LOCATION } from './screenings';
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 4000;
+const MAX_WEEK_INTERVAL = 8;
+
+// Calendar entries of events without an end time last this long.
+const DEFAULT_EVENT_MINUTES = 180;
+
+// How far ahead recurring events are listed and put into the calendar feeds.
+export const EVENT_HORIZON_DAYS = 180;
+
+export const SITE_URL = `https://${CALENDAR_HOST}`;
+
+export const categoryLabels: Record<PublicEventCategory, string> = {
+  quiz: 'Quiz',
+  concert: 'Konzert',
+  party: 'Mottoparty',
+  sport: 'Sport',
+  other: 'Sonstiges',
+};
+
+export const admissionLabels: Record<EventAdmission, string> = {
+  free: 'Eintritt frei',
+  reservation: 'Mit Reservierung',
+  ticket: 'Mit Ticket',
+};
+
+function isOwnKey(labels: object, key: unknown): boolean {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(labels, key);
+}
+
+const weekdayLongNames = ['Sonntag', 'Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag'];
+
+// "jeden ersten Donnerstag", "der erste Donnerstag"
+const ordinalNames: Record<number, string> = { 1: 'ersten', 2: 'zweiten', 3: 'dritten', 4: 'vierten', [-1]: 'letzten' };
+const ordinalNominatives: Record<number, string> = { 1: 'erste', 2: 'zweite', 3: 'dritte', 4: 'vierte', [-1]: 'letzte' };
+
+// Whether the date is the nth weekday of its month, -1 being the last.
+function isWeekOfMonth(date: string, week: number): boolean {
+  const day = Number(date.slice(8, 10));
+  if (week === -1) return addDays(date, 7).slice(0, 7) !== date.slice(0, 7);
+  return Math.ceil(day / 7) === week;
+}
+
+// "Pub-Quiz: Sommer-Special!" → "pub-quiz-sommer-special"
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+}
+
+// "jeden Donnerstag", "alle 2 Wochen am Freitag", "jeden ersten Donnerstag
+// im Monat", each with "bis …" when the series ends.
+export function describeRecurrence(recurrence: EventRecurrence, date: string): string {
+  const weekday = weekdayLongNames[weekdayOf(date)];
+  const rule =
+    recurrence.kind === 'monthly'
+      ? `jeden ${ordinalNames[recurrence.week]} ${weekday} im Monat`
+      : recurrence.interval === 1
+      ? `jeden ${weekday}`
+      : `alle ${recurrence.interval} Wochen am ${weekday}`;
+  if (!recurrence.until) return rule;
+  const [year, month, day] = recurrence.until.split('-');
+  return `${rule} bis ${day}.${month}.${year}`;
+}
+
+// "Do., 5. November · 20:00–23:00 Uhr"
+export function formatEventDate(event: Pick<PublicEvent, 'starts' | 'ends'>, date: string): string {
+  const day = fromIsoDate(date).toLocaleDateString('de-DE', { weekday: 'short', day: 'numeric', month: 'long' });
+  return `${day} · ${event.starts}${event.ends ? `–${event.ends}` : ''} Uhr`;
+}
+
+// Dates of the event between `from` and `to`, both included.
+export function occurrenceDates(event: Pick<PublicEvent, 'date' | 'recurrence'>, from: string, to: string): string[] {
+  const { date, recurrence } = event;
+  if (!recurrence) return date >= from && date <= to ? [date] : [];
+
+  const last = recurrence.until && recurrence.until < to ? recurrence.until : to;
+  const step = recurrence.kind === 'weekly' ? 7 * recurrence.interval : 7;
+  const skipped = Math.max(0, Math.ceil(daysBetween(date, from) / step));
+  const dates: string[] = [];
+  for (let current = addDays(date, skipped * step); current <= last; current = addDays(current, step)) {
+    if (recurrence.kind === 'weekly' || isWeekOfMonth(current, recurrence.week)) dates.push(current);
+  }
+  return dates;
+}
+
+export function toOccurrence(event: PublicEvent, date: string): EventOccurrence {
+  const starts = timeToMinutes(event.starts);
+  const ends = event.ends ? timeToMinutes(event.ends) : undefined;
+  return {
+    date,
+    startsAt: barInstant(date, starts).toISOString(),
+    ...(ends !== undefined ? { endsAt: barInstant(date, ends > starts ? ends : ends + 1440).toISOString() } : {}),
+    event,
+  };
+}
+
+// All dates of the events from `from` on, in order.
+export function upcomingOccurrences(
+  events: PublicEvent[],
+  from: string,
+  days: number = EVENT_HORIZON_DAYS,
+): EventOccurrence[] {
+  const to = addDays(from, days);
+  return events
+    .flatMap((event) => occurrenceDates(event, from, to).map((date) => toOccurrence(event, date)))
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+}
+
+function isTime(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{2}:\d{2}$/.test(value) && timeToMinutes(value) < 24 * 60;
+}
+
+// Images must be in /public or on https, so the page never loads mixed content.
+function isImageSource(src: string): boolean {
+  return src.startsWith('/') || src.startsWith('https://');
+}
+
+function validateRecurrence(recurrence: EventRecurrence, date: string): string[] {
+  const problems: string[] = [];
+  if (recurrence.kind === 'weekly') {
+    if (!Number.isInteger(recurrence.interval) || recurrence.interval < 1 || recurrence.interval > MAX_WEEK_INTERVAL) {
+      problems.push(`Wiederholung bitte alle 1 bis ${MAX_WEEK_INTERVAL} Wochen`);
+    }
+  } else if (recurrence.kind === 'monthly') {
+    if (![1, 2, 3, 4, -1].includes(recurrence.week)) problems.push('Ungültige Woche im Monat');
+    else if (isIsoDate(date) && !isWeekOfMonth(date, recurrence.week)) {
+      problems.push(
+        `Das erste Datum ist nicht der ${ordinalNominatives[recurrence.week]} ${weekdayLongNames[weekdayOf(date)]} im Monat`,
+      );
+    }
+  } else {
+    problems.push('Ungültige Wiederholung');
+  }
+  if (recurrence.until !== undefined && (!isIsoDate(recurrence.until) || recurrence.until < date)) {
+    problems.push('Das Ende der Serie muss nach dem ersten Datum liegen');
+  }
+  return problems;
+}
+
+export function validatePublicEvent(event: PublicEventInput): string[] {
+  const problems: string[] = [];
+  if (!event.title?.trim()) problems.push('Titel fehlt');
+  else if (event.title.trim().length > MAX_TITLE_LENGTH) {
+    problems.push(`Der Titel darf höchstens ${MAX_TITLE_LENGTH} Zeichen lang sein`);
+  } else if (!slugify(event.title)) problems.push('Der Titel braucht mindestens einen Buchstaben oder eine Ziffer');
+  if (!event.description?.trim()) problems.push('Beschreibung fehlt');
+  else if (event.description.length > MAX_DESCRIPTION_LENGTH) {
+    problems.push(`Die Beschreibung darf höchstens ${MAX_DESCRIPTION_LENGTH} Zeichen lang sein`);
+  }
+  if (event.image && !isImageSource(event.image.trim())) problems.push('Bilder bitte aus /public oder per https');
+  if (!isOwnKey(categoryLabels, event.category)) problems.push('Ungültige Kategorie');
+  if (!isIsoDate(event.date)) problems.push('Ungültiges Datum');
+  if (!isTime(event.starts)) problems.push('Ungültige Anfangszeit');
+  if (event.ends !== undefined && !isTime(event.ends)) problems.push('Ungültige Endzeit');
+  if (event.recurrence) problems.push(...validateRecurrence(event.recurrence, event.date));
+  if (!isOwnKey(admissionLabels, event.admission)) problems.push('Ungültiger Eintritt');
+  if (event.ticketUrl && !event.ticketUrl.trim().startsWith('https://')) {
+    problems.push('Der Ticket-Link muss mit https:// beginnen');
+  }
+  if (event.priceCents !== undefined && (!Number.isInteger(event.priceCents) || event.priceCents < 0)) {
+    problems.push('Ungültiger Preis');
+  }
+  if (typeof event.published !== 'boolean') problems.push('Bitte angeben, ob das Event veröffentlicht ist');
+  return problems;
+}
+
+function absoluteUrl(path: string): string {
+  return path.startsWith('/') ? `${SITE_URL}${path}` : path;
+}
+
+// schema.org Event markup for one date of an event, for search engines.
+export function eventJsonLd(occurrence: EventOccurrence): Record<string, unknown> {
+  const { event } = occurrence;
+  const url = `${SITE_URL}/events/${event.slug}`;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Event',
+    name: event.title,
+    description: event.description,
+    startDate: occurrence.startsAt,
+    ...(occurrence.endsAt ? { endDate: occurrence.endsAt } : {}),
+    eventStatus: 'https://schema.org/EventScheduled',
+    eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+    location: {
+      '@type': 'Place',
+      name: 'Rettungsanker',
+      address: { '@type': 'PostalAddress', addressLocality: 'Freiburg im Breisgau', addressCountry: 'DE' },
+    },
+    ...(event.image ? { image: [absoluteUrl(event.image)] } : {}),
+    url,
+    organizer: { '@type': 'Organization', name: 'Rettungsanker', url: SITE_URL },
+    ...(event.admission !== 'reservation' || event.priceCents !== undefined
+      ? {
+          offers: {
+            '@type': 'Offer',
+            price: ((event.priceCents ?? 0) / 100).toFixed(2),
+            priceCurrency: 'EUR',
+            url: event.ticketUrl ?? url,
+            availability: 'https://schema.org/InStock',
+          },
+        }
+      : {}),
+  };
+}
+
+// An iCalendar file with one entry per date, so recurring events keep their
+// local start time across daylight saving changes.
+export function publicEventsCalendar(occurrences: EventOccurrence[], now: Date = new Date()): string {
+  const lines: string[] = [];
+  for (const { date, startsAt, endsAt, event } of occurrences) {
+    const start = new Date(startsAt);
+    const notes = [
+      categoryLabels[event.category],
+      admissionLabels[event.admission],
+      event.description,
+      `${SITE_URL}/events/${event.slug}`,
+    ];
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:event-${event.id}-${date}@${CALENDAR_HOST}`,
+      `DTSTAMP:${icsTime(now)}`,
+      `DTSTART:${icsTime(start)}`,
+      `DTEND:${icsTime(endsAt ? new Date(endsAt) : new Date(start.getTime() + DEFAULT_EVENT_MINUTES * 60_000))}`,
+      `SUMMARY:${icsText(event.title)}`,
+      `LOCATION:${icsText(LOCATION)}`,
+      `DESCRIPTION:${icsText(notes.join('\n'))}`,
+      `URL:${SITE_URL}/events/${event.slug}`,
+      'END:VEVENT',
+    );
+  }
+  return icsCalendar(`-//${CALENDAR_HOST}//Events//DE`, lines, 'Rettungsanker Events');
+}
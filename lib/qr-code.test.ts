@@ -0,0 +1,54 @@
+import jsQR from 'jsqr';
+import { describe, expect, it } from 'vitest';
+import { encodeQr, type QrModules } from './qr-code';
+
+// Draws the modules as RGBA pixels with a quiet zone, the way a phone
+// camera would see the printed card.
+function render(modules: QrModules, scale = 4, margin = 4) {
+  const size = (modules.length + 2 * margin) * scale;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const offset = (((y + margin) * scale + dy) * size + (x + margin) * scale + dx) * 4;
+          pixels.fill(0, offset, offset + 3);
+        }
+      }
+    }),
+  );
+  return { pixels, size };
+}
+
+function decode(modules: QrModules): number[] | undefined {
+  const { pixels, size } = render(modules);
+  return jsQR(pixels, size, size)?.binaryData;
+}
+
+const versionOf = (modules: QrModules) => (modules.length - 17) / 4;
+
+describe('encodeQr', () => {
+  // [text, version]: the byte mode limits of level M are 14 bytes for
+  // version 1, 26 for 2, ... and 213 for 10.
+  const cases: [string, number][] = [
+    ['A', 1],
+    ['https://ra.de/', 1],
+    ['https://ra.de/t', 2],
+    ['https://rettungsanker-freiburg.de/tisch/12', 3],
+    ['https://rettungsanker-freiburg.de/tisch/7?grüße=schön', 4],
+    [`https://rettungsanker-freiburg.de/tisch/3?${'x'.repeat(60)}`, 6],
+    [`https://rettungsanker-freiburg.de/tisch/3?${'y'.repeat(100)}`, 8],
+    ['z'.repeat(213), 10],
+  ];
+
+  it.each(cases)('encodes %j in version %i and decodes back', (text, version) => {
+    const modules = encodeQr(text);
+    expect(versionOf(modules)).toBe(version);
+    expect(decode(modules)).toEqual(Array.from(new TextEncoder().encode(text)));
+  });
+
+  it('refuses text beyond version 10', () => {
+    expect(() => encodeQr('z'.repeat(214))).toThrow('Text too long');
+  });
+});
@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAvailability, setReservationStatus } from './reservation-store';
+
+const prisma = vi.hoisted(() => ({
+  reservation: { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+  eventInquiry: { findMany: vi.fn() },
+}));
+vi.mock('./prisma', () => ({ prisma }));
+
+// Monday 19 October 2026, 14:00 in Berlin
+beforeAll(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+});
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prisma.reservation.findMany.mockResolvedValue([]);
+  prisma.eventInquiry.findMany.mockResolvedValue([]);
+});
+
+describe('getAvailability', () => {
+  it('starts today however far back the range goes', async () => {
+    const days = await getAvailability('1970-01-01', '2026-10-21', 2);
+
+    expect(days.map((day) => day.date)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21']);
+    expect(prisma.reservation.findMany.mock.calls[0][0].where).toEqual({
+      date: { gte: '2026-10-19', lte: '2026-10-21' },
+    });
+  });
+
+  it('is empty for a range that is over', async () => {
+    expect(await getAvailability('2026-10-01', '2026-10-18', 2)).toEqual([]);
+    expect(prisma.reservation.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('setReservationStatus', () => {
+  const pending = {
+    id: 'r1',
+    date: '2026-10-23',
+    time: '19:00',
+    partySize: 4,
+    name: 'Jana',
+    email: 'jana@example.org',
+    phone: '0171 000000',
+    note: null,
+    status: 'pending',
+    tableNumber: 3,
+    createdAt: new Date('2026-10-18T10:00:00Z'),
+  };
+
+  beforeEach(() => {
+    prisma.reservation.findUnique.mockResolvedValue(pending);
+    prisma.reservation.update.mockImplementation(async ({ data }) => ({ ...pending, ...data }));
+  });
+
+  it('refuses to confirm a booking on the day of a confirmed event', async () => {
+    prisma.eventInquiry.findMany.mockResolvedValue([{ id: 'wedding', date: '2026-10-23' }]);
+
+    await expect(setReservationStatus('r1', 'confirmed')).rejects.toMatchObject({ status: 409 });
+    expect(prisma.reservation.update).not.toHaveBeenCalled();
+  });
+
+  it('confirms it on other days and declines it either way', async () => {
+    expect(await setReservationStatus('r1', 'confirmed')).toMatchObject({ status: 'confirmed', tableNumber: 3 });
+
+    prisma.eventInquiry.findMany.mockResolvedValue([{ id: 'wedding', date: '2026-10-23' }]);
+    expect(await setReservationStatus('r1', 'declined')).toMatchObject({ status: 'declined' });
+  });
+});
@@ -0,0 +1,142 @@
+import type {
+  Reservation,
+  ReservationDay,
+  ReservationRequest,
+  ReservationStatus,
+} from '../types/reservation';
+import { prisma } from './prisma';
+import { addDays, barClock, isIsoDate } from './dates';
+import { blockedDates } from './event-store';
+import {
+  availableSlots,
+  BOOKING_HORIZON_DAYS,
+  findFreeTable,
+  validateReservationRequest,
+} from './reservations';
+import { InputError } from './api';
+
+const statuses: ReservationStatus[] = ['pending', 'confirmed', 'declined'];
+
+interface ReservationRow {
+  id: string;
+  date: string;
+  time: string;
+  partySize: number;
+  name: string;
+  email: string;
+  phone: string;
+  note: string | null;
+  status: string;
+  tableNumber: number | null;
+  createdAt: Date;
+}
+
+function toReservation(row: ReservationRow): Reservation {
+  return {
+    id: row.id,
+    date: row.date,
+    time: row.time,
+    partySize: row.partySize,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    ...(row.note ? { note: row.note } : {}),
+    status: row.status as ReservationStatus,
+    ...(row.tableNumber != null ? { tableNumber: row.tableNumber } : {}),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+async function bookingsBetween(from: string, to: string): Promise<Reservation[]> {
+  const rows: ReservationRow[] = await prisma.reservation.findMany({
+    where: { date: { gte: from, lte: to } },
+    orderBy: [{ date: 'asc' }, { time: 'asc' }],
+  });
+  return rows.map(toReservation);
+}
+
+export async function getAvailability(from: string, to: string, partySize: number): Promise<ReservationDay[]> {
+  if (!isIsoDate(from) || !isIsoDate(to) || from > to) {
+    throw new InputError('Ungültiger Zeitraum');
+  }
+  // Only days from today up to the booking horizon can be booked, whatever
+  // range the caller asks for.
+  const today = barClock().date;
+  const horizon = addDays(today, BOOKING_HORIZON_DAYS);
+  const first = from > today ? from : today;
+  const last = to < horizon ? to : horizon;
+  if (first > last) return [];
+
+  const bookings = await bookingsBetween(first, last);
+  const blocked = await blockedDates(first, last);
+  const days: ReservationDay[] = [];
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    days.push({ date, slots: blocked.has(date) ? [] : availableSlots(date, partySize, bookings) });
+  }
+  return days;
+}
+
+export async function createReservation(request: ReservationRequest): Promise<Reservation> {
+  const problems = validateReservationRequest(request);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+
+  if ((await blockedDates(request.date, request.date)).size > 0) {
+    throw new InputError('An diesem Tag ist der Rettungsanker für eine geschlossene Gesellschaft reserviert', 409);
+  }
+  const bookings = await bookingsBetween(request.date, request.date);
+  const slot = availableSlots(request.date, request.partySize, bookings).find((s) => s.time === request.time);
+  const table = slot?.available && findFreeTable(bookings, request.date, request.time, request.partySize);
+  if (!table) {
+    throw new InputError('Zu dieser Zeit ist leider kein passender Tisch mehr frei', 409);
+  }
+
+  const row: ReservationRow = await prisma.reservation.create({
+    data: {
+      date: request.date,
+      time: request.time,
+      partySize: request.partySize,
+      name: request.name.trim(),
+      email: request.email.trim(),
+      phone: request.phone.trim(),
+      note: request.note?.trim() || null,
+      tableNumber: table.number,
+    },
+  });
+  return toReservation(row);
+}
+
+export async function listReservations(from: string = barClock().date): Promise<Reservation[]> {
+  const rows: ReservationRow[] = await prisma.reservation.findMany({
+    where: { date: { gte: from } },
+    orderBy: [{ date: 'asc' }, { time: 'asc' }],
+  });
+  return rows.map(toReservation);
+}
+
+export async function setReservationStatus(id: string, status: ReservationStatus): Promise<Reservation> {
+  if (!statuses.includes(status)) throw new InputError(`Unbekannter Status "${status}"`);
+  const existing: ReservationRow | null = await prisma.reservation.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekannte Reservierung', 404);
+
+  // The same rule as for new bookings: a confirmed event books the whole bar.
+  if (status === 'confirmed' && existing.status !== 'confirmed') {
+    if ((await blockedDates(existing.date, existing.date)).size > 0) {
+      throw new InputError('An diesem Tag ist der Rettungsanker für eine geschlossene Gesellschaft reserviert', 409);
+    }
+  }
+
+  let tableNumber = existing.tableNumber;
+  // A declined booking released its table, confirming it again needs a free one.
+  if (existing.status === 'declined' && status !== 'declined') {
+    const others = (await bookingsBetween(existing.date, existing.date)).filter((booking) => booking.id !== id);
+    const table = findFreeTable(others, existing.date, existing.time, existing.partySize);
+    if (!table) throw new InputError('Der Tisch ist inzwischen anderweitig vergeben', 409);
+    tableNumber = table.number;
+  }
+
+  const row: ReservationRow = await prisma.reservation.update({
+    where: { id },
+    data: { status, tableNumber },
+  });
+  return toReservation(row);
+}
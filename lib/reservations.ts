@@ -0,0 +1,100 @@
+import type { OpeningException, OpeningShift } from '../types/opening-hours';
+import type { Reservation, ReservationRequest, ReservationSlot, Table } from '../types/reservation';
+import weeklyHours, { openingExceptions } from '../data/opening-hours';
+import tableList from '../data/tables';
+import { barClock, isIsoDate, minutesToTime, timeToMinutes } from './dates';
+import { closingMinutes, shiftsOn } from './opening-hours';
+
+// A booking holds its table for two hours; guests can book every half hour
+// until 22:00, later arrivals just come by.
+export const SEATING_MINUTES = 120;
+export const SLOT_INTERVAL_MINUTES = 30;
+export const LAST_SEATING = '22:00';
+
+// Guests can book up to two months ahead.
+export const BOOKING_HORIZON_DAYS = 60;
+
+export const maxPartySize = Math.max(...tableList.map((table) => table.seats));
+
+export { tableList as tables };
+
+export function findTable(number: number, tables: Table[] = tableList): Table | undefined {
+  return tables.find((table) => table.number === number);
+}
+
+export interface AvailabilityOptions {
+  now?: Date;
+  hours?: OpeningShift[];
+  exceptions?: OpeningException[];
+  tables?: Table[];
+}
+
+type Booking = Pick<Reservation, 'date' | 'time' | 'status' | 'tableNumber'>;
+
+export function seatingTimes(
+  date: string,
+  hours: OpeningShift[] = weeklyHours,
+  exceptions: OpeningException[] = openingExceptions,
+): string[] {
+  const times: string[] = [];
+  for (const shift of shiftsOn(date, hours, exceptions)) {
+    const last = Math.min(closingMinutes(shift) - SEATING_MINUTES, timeToMinutes(LAST_SEATING));
+    for (let minutes = timeToMinutes(shift.opens); minutes <= last; minutes += SLOT_INTERVAL_MINUTES) {
+      times.push(minutesToTime(minutes));
+    }
+  }
+  return times;
+}
+
+// Smallest table that seats the party and is not held by another booking
+// overlapping the two hour seating.
+export function findFreeTable(
+  bookings: Booking[],
+  date: string,
+  time: string,
+  partySize: number,
+  tables: Table[] = tableList,
+): Table | undefined {
+  const start = timeToMinutes(time);
+  const taken = new Set(
+    bookings
+      .filter((booking) => booking.date === date && booking.status !== 'declined')
+      .filter((booking) => Math.abs(timeToMinutes(booking.time) - start) < SEATING_MINUTES)
+      .map((booking) => booking.tableNumber),
+  );
+  return tables
+    .filter((table) => table.seats >= partySize && !taken.has(table.number))
+    .sort((a, b) => a.seats - b.seats)[0];
+}
+
+export function availableSlots(
+  date: string,
+  partySize: number,
+  bookings: Booking[],
+  { now = new Date(), hours = weeklyHours, exceptions = openingExceptions, tables = tableList }: AvailabilityOptions = {},
+): ReservationSlot[] {
+  const clock = barClock(now);
+  if (date < clock.date) return [];
+
+  return seatingTimes(date, hours, exceptions)
+    .filter((time) => date > clock.date || timeToMinutes(time) > clock.minutes)
+    .map((time) => ({
+      time,
+      available: findFreeTable(bookings, date, time, partySize, tables) !== undefined,
+    }));
+}
+
+export function validateReservationRequest(request: ReservationRequest): string[] {
+  const problems: string[] = [];
+  if (!isIsoDate(request.date)) problems.push('Ungültiges Datum');
+  if (!/^\d{2}:\d{2}$/.test(request.time ?? '')) problems.push('Ungültige Uhrzeit');
+  if (!Number.isInteger(request.partySize) || request.partySize < 1) {
+    problems.push('Bitte die Anzahl der Gäste angeben');
+  } else if (request.partySize > maxPartySize) {
+    problems.push(`Online können wir Tische bis ${maxPartySize} Personen vergeben, für größere Gruppen bitte anfragen`);
+  }
+  if (!request.name?.trim()) problems.push('Bitte einen Namen angeben');
+  if (!/^\S+@\S+\.\S+$/.test(request.email ?? '')) problems.push('Bitte eine gültige E-Mail angeben');
+  if (!request.phone?.trim()) problems.push('Bitte eine Telefonnummer angeben');
+  return problems;
+}
@@ -0,0 +1,25 @@
+import type { Role } from "../types/auth"
+
+// Ordered from most to fewest rights. Kept free of server imports so the
+// login and crew forms can use it too. Fans only play the Tipprunde and
+// never get into the back office.
+export const roles: Role[] = ["captain", "staff", "readonly", "fan"]
+
+export const roleLabels: Record<Role, string> = {
+  captain: "Kapitän",
+  staff: "Crew",
+  readonly: "Nur lesen",
+  fan: "Tipper",
+}
+
+// Everyone who works in the bar, fans excluded.
+export const crewRoles: Role[] = roles.filter((role) => role !== "fan")
+
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  const rank = roles.indexOf(role as Role)
+  return rank !== -1 && rank <= roles.indexOf(required)
+}
+
+export function isRole(value: unknown): value is Role {
+  return roles.includes(value as Role)
+}
@@ -0,0 +1,122 @@
+import type { Match } from '../types/bundesliga';
+import type { Screening, ScreeningInput } from '../types/screening';
+import { prisma } from './prisma';
+import { currentSeason, findCompetition } from './bundesliga';
+import { getMatches } from './openligadb';
+import { barInstant } from './opening-hours';
+import { SCREENING_MINUTES } from './screenings';
+import { InputError } from './api';
+
+const MAX_OFFER_LENGTH = 120;
+
+interface ScreeningRow {
+  matchId: number;
+  league: string;
+  season: number;
+  matchday: number;
+  round: string;
+  kickoff: Date;
+  team1: string;
+  team2: string;
+  reservationNeeded: boolean;
+  offer: string | null;
+}
+
+function toScreening(row: ScreeningRow): Screening {
+  return {
+    matchId: row.matchId,
+    league: row.league,
+    season: row.season,
+    matchday: row.matchday,
+    round: row.round,
+    kickoff: row.kickoff.toISOString(),
+    team1: row.team1,
+    team2: row.team2,
+    reservationNeeded: row.reservationNeeded,
+    ...(row.offer ? { offer: row.offer } : {}),
+  };
+}
+
+function fromMatch(match: Match) {
+  return {
+    matchday: match.group.groupOrderID,
+    round: match.group.groupName,
+    kickoff: new Date(match.matchDateTimeUTC),
+    team1: match.team1.teamName,
+    team2: match.team2.teamName,
+  };
+}
+
+// Kick-off times move when the DFL schedules a matchday, so the stored copy
+// is brought up to date whenever the league data is at hand.
+async function syncWithLeague(rows: ScreeningRow[]): Promise<ScreeningRow[]> {
+  const byId = new Map<number, Match>();
+  for (const league of Array.from(new Set(rows.map((row) => row.league)))) {
+    try {
+      for (const match of await getMatches(league, currentSeason())) byId.set(match.matchID, match);
+    } catch (error) {
+      console.error(`Error loading ${league} data, showing stored screenings:`, error);
+    }
+  }
+
+  return Promise.all(
+    rows.map(async (row) => {
+      const match = byId.get(row.matchId);
+      if (!match || new Date(match.matchDateTimeUTC).getTime() === row.kickoff.getTime()) return row;
+      return prisma.screening.update({ where: { matchId: row.matchId }, data: fromMatch(match) });
+    }),
+  );
+}
+
+// Screenings that have not ended yet, in kick-off order.
+export async function listScreenings(now: Date = new Date()): Promise<Screening[]> {
+  const rows: ScreeningRow[] = await prisma.screening.findMany({
+    where: { kickoff: { gte: new Date(now.getTime() - SCREENING_MINUTES * 60_000) } },
+    orderBy: { kickoff: 'asc' },
+  });
+  const synced = await syncWithLeague(rows);
+  return synced.sort((a, b) => a.kickoff.getTime() - b.kickoff.getTime()).map(toScreening);
+}
+
+// Screenings kicking off on the bar's calendar days from `from` to `to`,
+// including the night after `to`, as stored.
+export async function screeningsBetween(from: string, to: string): Promise<Screening[]> {
+  const rows: ScreeningRow[] = await prisma.screening.findMany({
+    where: { kickoff: { gte: barInstant(from, 0), lt: barInstant(to, 2 * 1440) } },
+    orderBy: { kickoff: 'asc' },
+  });
+  return rows.map(toScreening);
+}
+
+export async function getScreening(matchId: number): Promise<Screening> {
+  const row: ScreeningRow | null = await prisma.screening.findUnique({ where: { matchId } });
+  if (!row) throw new InputError('Dieses Spiel wird nicht gezeigt', 404);
+  return toScreening(row);
+}
+
+// Marks a match of the current season as shown, or updates its details.
+export async function saveScreening(league: string, matchId: number, input: ScreeningInput): Promise<Screening> {
+  if (!findCompetition(league)) throw new InputError('Unbekannter Wettbewerb');
+  const offer = input.offer?.trim() || null;
+  if (offer && offer.length > MAX_OFFER_LENGTH) {
+    throw new InputError(`Das Angebot darf höchstens ${MAX_OFFER_LENGTH} Zeichen lang sein`);
+  }
+
+  const season = currentSeason();
+  const match = (await getMatches(league, season)).find((entry) => entry.matchID === matchId);
+  if (!match) throw new InputError('Unbekanntes Spiel', 404);
+
+  const data = { ...fromMatch(match), reservationNeeded: Boolean(input.reservationNeeded), offer };
+  const row: ScreeningRow = await prisma.screening.upsert({
+    where: { matchId },
+    create: { matchId, league, season, ...data },
+    update: data,
+  });
+  return toScreening(row);
+}
+
+export async function deleteScreening(matchId: number): Promise<void> {
+  const existing = await prisma.screening.findUnique({ where: { matchId } });
+  if (!existing) throw new InputError('Dieses Spiel wird nicht gezeigt', 404);
+  await prisma.screening.delete({ where: { matchId } });
+}
@@ -0,0 +1,45 @@
+import type { Screening } from '../types/screening';
+import { findCompetition } from './bundesliga';
+import { icsCalendar, icsText, icsTime } from './ical';
+
+// A match plus the time around it the calendar entry blocks.
+export const SCREENING_MINUTES = 120;
+
+export const CALENDAR_HOST = 'rettungsanker-freiburg.de';
+export const LOCATION = 'Rettungsanker, Freiburg im Breisgau';
+
+// "Bundesliga · 8. Spieltag", "DFB-Pokal · Achtelfinale"
+export function screeningRound(screening: Pick<Screening, 'league' | 'matchday' | 'round'>): string {
+  const competition = findCompetition(screening.league)?.name ?? screening.league;
+  return `${competition} · ${screening.round || `${screening.matchday}. Spieltag`}`;
+}
+
+export function screeningTitle(screening: Pick<Screening, 'team1' | 'team2'>): string {
+  return `${screening.team1} – ${screening.team2}`;
+}
+
+// An iCalendar file with one event per screening.
+export function screeningsCalendar(screenings: Screening[], now: Date = new Date()): string {
+  const lines: string[] = [];
+  for (const screening of screenings) {
+    const start = new Date(screening.kickoff);
+    const end = new Date(start.getTime() + SCREENING_MINUTES * 60_000);
+    const notes = [
+      `${screeningRound(screening)}, live im Rettungsanker`,
+      ...(screening.reservationNeeded ? ['Tischreservierung empfohlen'] : []),
+      ...(screening.offer ? [screening.offer] : []),
+    ];
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:screening-${screening.matchId}@${CALENDAR_HOST}`,
+      `DTSTAMP:${icsTime(now)}`,
+      `DTSTART:${icsTime(start)}`,
+      `DTEND:${icsTime(end)}`,
+      `SUMMARY:${icsText(screeningTitle(screening))}`,
+      `LOCATION:${icsText(LOCATION)}`,
+      `DESCRIPTION:${icsText(notes.join('\n'))}`,
+      'END:VEVENT',
+    );
+  }
+  return icsCalendar(`-//${CALENDAR_HOST}//Sportarena//DE`, lines);
+}
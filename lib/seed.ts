@@ -0,0 +1,22 @@
+import { prisma } from './prisma';
+
+// Prisma's code for a unique constraint violation.
+const UNIQUE_VIOLATION = 'P2002';
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === UNIQUE_VIOLATION;
+}
+
+// Copies static data into a fresh database once. The marker is written in
+// the same transaction as the rows: of two concurrent first requests only one
+// seeds, and a table the crew emptied later stays empty.
+export async function seedOnce(name: string, writes: () => unknown[]): Promise<void> {
+  if (await prisma.seed.findUnique({ where: { name } })) return;
+  try {
+    await prisma.$transaction([prisma.seed.create({ data: { name } }), ...writes()]);
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+    // Another request seeded first, or the rows predate the marker.
+    await prisma.seed.upsert({ where: { name }, create: { name }, update: {} });
+  }
+}
@@ -0,0 +1,28 @@
+import { EventEmitter } from 'events';
+import type { ServiceRequest } from '../types/table-service';
+
+// In-process fan-out from the table requests to the open staff boards. One
+// server instance is all the bar runs, so nothing outside is needed; like
+// the Prisma client it survives hot reloads in `next dev`.
+const globalForEvents = globalThis as unknown as { serviceEvents?: EventEmitter };
+
+// Every open board is a listener. A few tablets and phones are all the crew
+// uses, so more than this means streams are not cleaned up.
+const MAX_BOARDS = 50;
+
+const emitter = globalForEvents.serviceEvents ?? new EventEmitter();
+emitter.setMaxListeners(MAX_BOARDS);
+
+if (process.env.NODE_ENV !== 'production') globalForEvents.serviceEvents = emitter;
+
+export function publishServiceRequest(request: ServiceRequest): void {
+  emitter.emit('request', request);
+}
+
+// Returns the unsubscribe function.
+export function subscribeServiceRequests(listener: (request: ServiceRequest) => void): () => void {
+  emitter.on('request', listener);
+  return () => {
+    emitter.off('request', listener);
+  };
+}
@@ -0,0 +1,91 @@
+import type {
+  OrderLine,
+  ServiceRequest,
+  ServiceRequestInput,
+  ServiceRequestKind,
+  ServiceRequestStatus,
+} from '../types/table-service';
+import { prisma } from './prisma';
+import { menuItems } from './menu';
+import { getPricedGuestMenu } from './pricing-store';
+import { findTable } from './reservations';
+import { publishServiceRequest } from './service-events';
+import { serviceStatuses, validateServiceRequest } from './table-service';
+import { InputError } from './api';
+
+interface ServiceRequestRow {
+  id: string;
+  tableNumber: number;
+  kind: string;
+  status: string;
+  lines: string;
+  note: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toServiceRequest(row: ServiceRequestRow): ServiceRequest {
+  return {
+    id: row.id,
+    tableNumber: row.tableNumber,
+    kind: row.kind as ServiceRequestKind,
+    status: row.status as ServiceRequestStatus,
+    lines: JSON.parse(row.lines),
+    ...(row.note ? { note: row.note } : {}),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// Titles and prices are taken from the current card, at happy hour prices
+// while a pricing rule applies; guests only choose items and quantities.
+async function priceLines(lines: ServiceRequestInput['lines'] = []): Promise<OrderLine[]> {
+  const items = new Map(menuItems(await getPricedGuestMenu()).map((item) => [item.id, item]));
+  return lines.map((line) => {
+    const item = items.get(line.itemId);
+    if (!item) throw new InputError('Ein Artikel ist nicht mehr auf der Karte');
+    return { itemId: item.id, title: item.title, priceCents: item.priceCents, quantity: line.quantity };
+  });
+}
+
+export async function createServiceRequest(tableNumber: number, input: ServiceRequestInput): Promise<ServiceRequest> {
+  if (!findTable(tableNumber)) throw new InputError('Unbekannter Tisch', 404);
+  const problems = validateServiceRequest(input);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+
+  // Pressing "Bedienung rufen" twice does not call two waiters.
+  if (input.kind !== 'order') {
+    const pending: ServiceRequestRow | null = await prisma.serviceRequest.findFirst({
+      where: { tableNumber, kind: input.kind, status: { not: 'done' } },
+    });
+    if (pending) return toServiceRequest(pending);
+  }
+
+  const lines = input.kind === 'order' ? await priceLines(input.lines) : [];
+  const row: ServiceRequestRow = await prisma.serviceRequest.create({
+    data: { tableNumber, kind: input.kind, lines: JSON.stringify(lines), note: input.note?.trim() || null },
+  });
+  const request = toServiceRequest(row);
+  publishServiceRequest(request);
+  return request;
+}
+
+// Everything the crew still has to deal with, oldest first.
+export async function listPendingServiceRequests(): Promise<ServiceRequest[]> {
+  const rows: ServiceRequestRow[] = await prisma.serviceRequest.findMany({
+    where: { status: { not: 'done' } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toServiceRequest);
+}
+
+export async function setServiceStatus(id: string, status: ServiceRequestStatus): Promise<ServiceRequest> {
+  if (!serviceStatuses.includes(status)) throw new InputError(`Unbekannter Status "${status}"`);
+  const existing = await prisma.serviceRequest.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekannte Anfrage', 404);
+
+  const row: ServiceRequestRow = await prisma.serviceRequest.update({ where: { id }, data: { status } });
+  const request = toServiceRequest(row);
+  publishServiceRequest(request);
+  return request;
+}
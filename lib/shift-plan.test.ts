@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { ShiftAssignment } from '../types/shift-plan';
+import weeklyHours from '../data/opening-hours';
+import { dutyShiftsOn, EVENT_REASON, matchAssignments, planWeek, type StaffingContext } from './shift-plan';
+
+// The regular week without holidays: Mon–Thu 18–24, Fri–Sat 15–03, Sunday
+// closed; shifts add half an hour before and after.
+const context = (extra: Partial<StaffingContext> = {}): StaffingContext => ({
+  screenings: [],
+  events: [],
+  hours: weeklyHours,
+  exceptions: [],
+  ...extra,
+});
+
+const screening = (kickoff: string) => ({ matchId: 1, kickoff, team1: 'SC Freiburg', team2: 'FC Bayern' });
+
+const times = (date: string, staffing: StaffingContext) =>
+  dutyShiftsOn(date, staffing).map(({ starts, ends, expectedStaff, reasons }) => ({ starts, ends, expectedStaff, reasons }));
+
+describe('planWeek', () => {
+  it('derives the regular shifts from the opening hours', () => {
+    const week = planWeek('2026-10-19', context());
+    expect(week.map((shift) => `${shift.date} ${shift.starts}–${shift.ends} ${shift.expectedStaff}`)).toEqual([
+      '2026-10-19 17:30–00:30 2',
+      '2026-10-20 17:30–00:30 2',
+      '2026-10-21 17:30–00:30 2',
+      '2026-10-22 17:30–00:30 2',
+      '2026-10-23 14:30–03:30 3',
+      '2026-10-24 14:30–03:30 3',
+    ]);
+  });
+});
+
+describe('dutyShiftsOn', () => {
+  it('adds a match after midnight to the shift of the evening before', () => {
+    // Sunday 00:30, still during Saturday's shift
+    const staffing = context({ screenings: [screening('2026-10-24T22:30:00Z')] });
+    expect(times('2026-10-24', staffing)).toEqual([
+      { starts: '14:30', ends: '03:30', expectedStaff: 4, reasons: ['SC Freiburg – FC Bayern'] },
+    ]);
+    expect(times('2026-10-25', staffing)).toEqual([]);
+  });
+
+  it('keeps the crew until a late match is over', () => {
+    // Thursday 23:30, the bar would close at midnight
+    const staffing = context({ screenings: [screening('2026-10-22T21:30:00Z')] });
+    expect(times('2026-10-22', staffing)).toEqual([
+      { starts: '17:30', ends: '02:00', expectedStaff: 3, reasons: ['SC Freiburg – FC Bayern'] },
+    ]);
+  });
+
+  it('opens a shift of its own for a match on a closed day', () => {
+    // Sunday 15:30 winter time
+    const staffing = context({ screenings: [screening('2026-10-25T14:30:00Z')] });
+    expect(times('2026-10-25', staffing)).toEqual([
+      { starts: '14:00', ends: '18:00', expectedStaff: 3, reasons: ['SC Freiburg – FC Bayern'] },
+    ]);
+  });
+
+  it('gives a private event its own shift on a day without regular hours', () => {
+    const staffing = context({ events: [{ id: 'wedding', date: '2026-10-25' }] });
+    expect(times('2026-10-25', staffing)).toEqual([
+      { starts: '17:30', ends: '01:30', expectedStaff: 4, reasons: [EVENT_REASON] },
+    ]);
+  });
+
+  it('adds crew for a private event on a regular day', () => {
+    const staffing = context({ events: [{ id: 'birthday', date: '2026-10-20' }] });
+    expect(times('2026-10-20', staffing)).toEqual([
+      { starts: '17:30', ends: '00:30', expectedStaff: 4, reasons: [EVENT_REASON] },
+    ]);
+  });
+});
+
+describe('matchAssignments', () => {
+  const assignment = (id: string, date: string, starts: string, ends: string): ShiftAssignment => ({
+    id,
+    userId: 'anna',
+    date,
+    starts,
+    ends,
+  });
+
+  it('keeps assignments with a shift whose start moved', () => {
+    // assigned for a Sunday match at 15:30, which then moved to 18:30
+    const shifts = dutyShiftsOn('2026-10-25', context({ screenings: [screening('2026-10-25T17:30:00Z')] }));
+    expect(shifts.map((shift) => `${shift.starts}–${shift.ends}`)).toEqual(['17:00–21:00']);
+
+    const { shifts: planned, unplanned } = matchAssignments(shifts, [assignment('a', '2026-10-25', '14:00', '18:00')]);
+    expect(planned[0].assignments.map((entry) => entry.id)).toEqual(['a']);
+    expect(unplanned).toEqual([]);
+  });
+
+  it('returns assignments without a shift as unplanned', () => {
+    const { shifts, unplanned } = matchAssignments(planWeek('2026-10-19', context()), [
+      assignment('sunday', '2026-10-25', '14:00', '18:00'),
+      assignment('monday', '2026-10-19', '17:30', '00:30'),
+    ]);
+    expect(unplanned.map((entry) => entry.id)).toEqual(['sunday']);
+    expect(shifts[0].assignments.map((entry) => entry.id)).toEqual(['monday']);
+  });
+});
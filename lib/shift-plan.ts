@@ -0,0 +1,200 @@
+import type { OpeningException, OpeningShift } from '../types/opening-hours';
+import type { Screening } from '../types/screening';
+import type { DutyShift, PlannedShift, ShiftAssignment, ShiftTemplate } from '../types/shift-plan';
+import weeklyHours, { openingExceptions } from '../data/opening-hours';
+import {
+  baseStaff,
+  CLEAN_UP_MINUTES,
+  EVENT_EXTRA_STAFF,
+  eventShift,
+  SCREENING_EXTRA_STAFF,
+  SCREENING_LEAD_MINUTES,
+  SET_UP_MINUTES,
+} from '../data/staffing';
+import { addDays, barClock, daysBetween, minutesToTime, timeToMinutes, weekdayOf } from './dates';
+import { icsCalendar, icsText, icsTime } from './ical';
+import { barInstant, closingMinutes, shiftsOn } from './opening-hours';
+import { CALENDAR_HOST, LOCATION, SCREENING_MINUTES, screeningTitle } from './screenings';
+
+// What raises the expected staffing on top of the opening hours. Confirmed
+// events close the bar to the public but not to the crew, so unlike the
+// guest side the roster does not treat them as closures.
+export interface StaffingContext {
+  screenings: Pick<Screening, 'matchId' | 'kickoff' | 'team1' | 'team2'>[];
+  events: { id: string; date: string }[];
+  hours?: OpeningShift[];
+  exceptions?: OpeningException[];
+}
+
+export const EVENT_REASON = 'Geschlossene Gesellschaft';
+
+// Monday of the week the date falls in.
+export function weekStart(date: string): string {
+  return addDays(date, -((weekdayOf(date) + 6) % 7));
+}
+
+// Minutes after midnight of `date` on the bar's clock, negative before it.
+function minutesFrom(date: string, instant: Date): number {
+  const clock = barClock(instant);
+  return daysBetween(date, clock.date) * 1440 + clock.minutes;
+}
+
+// Start and end of a shift in minutes after midnight of its day.
+export function shiftSpan(shift: Pick<DutyShift, 'starts' | 'ends'>): { from: number; to: number } {
+  const from = timeToMinutes(shift.starts);
+  const to = timeToMinutes(shift.ends);
+  return { from, to: to > from ? to : to + 1440 };
+}
+
+// Whether two shifts starting on the same day share working time.
+export function shiftsOverlap(a: Pick<DutyShift, 'starts' | 'ends'>, b: Pick<DutyShift, 'starts' | 'ends'>): boolean {
+  const first = shiftSpan(a);
+  const second = shiftSpan(b);
+  return first.from < second.to && second.from < first.to;
+}
+
+// Puts each assignment on the duty shift of its day it overlaps most. A
+// screening or event added later moves a shift's start, the assignments made
+// before stay with it. Those without any such shift, say after a screening
+// was called off, come back as unplanned.
+export function matchAssignments(
+  shifts: DutyShift[],
+  assignments: ShiftAssignment[],
+): { shifts: PlannedShift[]; unplanned: ShiftAssignment[] } {
+  const planned: PlannedShift[] = shifts.map((shift) => ({ ...shift, assignments: [] }));
+  const unplanned: ShiftAssignment[] = [];
+  for (const assignment of assignments) {
+    const span = shiftSpan(assignment);
+    const shared = (shift: DutyShift) => {
+      const other = shiftSpan(shift);
+      return Math.min(span.to, other.to) - Math.max(span.from, other.from);
+    };
+    const best = planned
+      .filter((shift) => shift.date === assignment.date && shiftsOverlap(shift, assignment))
+      .sort((a, b) => shared(b) - shared(a))[0];
+    if (best) best.assignments.push(assignment);
+    else unplanned.push(assignment);
+  }
+  return { shifts: planned, unplanned };
+}
+
+// An opening period, before set-up and clean-up are added.
+interface Span {
+  opens: number;
+  closes: number;
+  staff: number;
+  reasons: string[];
+}
+
+// Working hours for an opening period, set-up and clean-up included.
+function dutyTimes(opens: number, closes: number): Pick<DutyShift, 'starts' | 'ends'> {
+  return {
+    starts: minutesToTime(Math.max(0, opens - SET_UP_MINUTES)),
+    ends: minutesToTime(closes + CLEAN_UP_MINUTES),
+  };
+}
+
+function toDutyShift(date: string, span: Span): DutyShift {
+  return { date, ...dutyTimes(span.opens, span.closes), expectedStaff: span.staff, reasons: span.reasons };
+}
+
+function regularSpans(date: string, hours: OpeningShift[], exceptions: OpeningException[]): Span[] {
+  return shiftsOn(date, hours, exceptions).map((shift) => ({
+    opens: timeToMinutes(shift.opens),
+    closes: closingMinutes(shift),
+    staff: baseStaff[shift.weekday],
+    reasons: [],
+  }));
+}
+
+// The regular shifts of a week, Monday first, as the opening hours define
+// them.
+export function weeklyTemplate(hours: OpeningShift[] = weeklyHours): ShiftTemplate[] {
+  return [1, 2, 3, 4, 5, 6, 0].flatMap((weekday) =>
+    hours
+      .filter((shift) => shift.weekday === weekday)
+      .sort((a, b) => timeToMinutes(a.opens) - timeToMinutes(b.opens))
+      .map((shift) => ({
+        weekday,
+        ...dutyTimes(timeToMinutes(shift.opens), closingMinutes(shift)),
+        expectedStaff: baseStaff[weekday],
+      })),
+  );
+}
+
+// The crew shifts starting on the given day with the staffing they need. A
+// private event adds crew to the day's shifts, or brings its own shift on a
+// day the bar is normally closed. A screening adds crew to the shift it falls
+// into, or gets a shift of its own around the match.
+export function dutyShiftsOn(date: string, context: StaffingContext): DutyShift[] {
+  const hours = context.hours ?? weeklyHours;
+  const exceptions = context.exceptions ?? openingExceptions;
+  const weekday = weekdayOf(date);
+  const spans = regularSpans(date, hours, exceptions);
+
+  if (context.events.some((event) => event.date === date)) {
+    if (spans.length === 0) {
+      spans.push({
+        opens: timeToMinutes(eventShift.opens),
+        closes: closingMinutes({ weekday, ...eventShift }),
+        staff: baseStaff[weekday],
+        reasons: [],
+      });
+    }
+    for (const span of spans) {
+      span.staff += EVENT_EXTRA_STAFF;
+      span.reasons.push(EVENT_REASON);
+    }
+  }
+
+  // Matches late at night belong to the previous day's shift.
+  const previous = regularSpans(addDays(date, -1), hours, exceptions);
+  const boosted = new Set<Span>();
+  const screenings = [...context.screenings].sort((a, b) => a.kickoff.localeCompare(b.kickoff));
+  for (const screening of screenings) {
+    const kickoff = minutesFrom(date, new Date(screening.kickoff));
+    const end = kickoff + SCREENING_MINUTES;
+    const overlaps = (span: Span) => kickoff < span.closes && end > span.opens;
+
+    let span = spans.find(overlaps);
+    if (!span) {
+      if (kickoff < 0 || kickoff >= 1440) continue;
+      if (previous.some((earlier) => kickoff + 1440 < earlier.closes)) continue;
+      span = { opens: kickoff - SCREENING_LEAD_MINUTES, closes: end, staff: baseStaff[weekday], reasons: [] };
+      spans.push(span);
+    }
+    span.closes = Math.max(span.closes, end);
+    span.reasons.push(screeningTitle(screening));
+    // parallel matches need no extra hands beyond the first
+    if (!boosted.has(span)) {
+      span.staff += SCREENING_EXTRA_STAFF;
+      boosted.add(span);
+    }
+  }
+
+  return spans.sort((a, b) => a.opens - b.opens).map((span) => toDutyShift(date, span));
+}
+
+// The duty shifts of the seven days from `from` on.
+export function planWeek(from: string, context: StaffingContext): DutyShift[] {
+  return Array.from({ length: 7 }, (_, offset) => dutyShiftsOn(addDays(from, offset), context)).flat();
+}
+
+// A crew member's assigned shifts as a calendar feed to subscribe to.
+export function shiftCalendar(assignments: ShiftAssignment[], name: string, now: Date = new Date()): string {
+  const lines: string[] = [];
+  for (const assignment of assignments) {
+    const { from, to } = shiftSpan(assignment);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:shift-${assignment.id}@${CALENDAR_HOST}`,
+      `DTSTAMP:${icsTime(now)}`,
+      `DTSTART:${icsTime(barInstant(assignment.date, from))}`,
+      `DTEND:${icsTime(barInstant(assignment.date, to))}`,
+      `SUMMARY:${icsText('Schicht im Rettungsanker')}`,
+      `LOCATION:${icsText(LOCATION)}`,
+      'END:VEVENT',
+    );
+  }
+  return icsCalendar(`-//${CALENDAR_HOST}//Dienstplan//DE`, lines, `Dienstplan ${name}`);
+}
@@ -0,0 +1,294 @@
+import { randomBytes } from 'crypto';
+import type { Role } from '../types/auth';
+import type {
+  ShiftAssignment,
+  ShiftAvailability,
+  ShiftCrewMember,
+  SwapRequest,
+  SwapStatus,
+  WeekPlan,
+} from '../types/shift-plan';
+import { prisma } from './prisma';
+import { addDays, barClock, isIsoDate } from './dates';
+import { confirmedEvents } from './event-store';
+import { hasRole } from './roles';
+import { screeningsBetween } from './screening-store';
+import {
+  dutyShiftsOn,
+  matchAssignments,
+  planWeek,
+  shiftCalendar,
+  shiftsOverlap,
+  weeklyTemplate,
+  weekStart,
+} from './shift-plan';
+import { InputError } from './api';
+
+const MAX_NOTE_LENGTH = 200;
+
+// How far back the personal feed keeps past shifts.
+const FEED_HISTORY_DAYS = 28;
+
+interface AvailabilityRow {
+  userId: string;
+  date: string;
+  available: boolean;
+  note: string | null;
+}
+
+interface ShiftAssignmentRow {
+  id: string;
+  userId: string;
+  date: string;
+  starts: string;
+  ends: string;
+}
+
+interface SwapRequestRow {
+  id: string;
+  assignmentId: string;
+  fromUserId: string;
+  toUserId: string;
+  status: string;
+  note: string | null;
+  createdAt: Date;
+}
+
+function toAvailability(row: AvailabilityRow): ShiftAvailability {
+  return {
+    userId: row.userId,
+    date: row.date,
+    available: row.available,
+    ...(row.note ? { note: row.note } : {}),
+  };
+}
+
+function toShiftAssignment({ id, userId, date, starts, ends }: ShiftAssignmentRow): ShiftAssignment {
+  return { id, userId, date, starts, ends };
+}
+
+function toSwapRequest(row: SwapRequestRow): SwapRequest {
+  return {
+    id: row.id,
+    assignmentId: row.assignmentId,
+    fromUserId: row.fromUserId,
+    toUserId: row.toUserId,
+    status: row.status as SwapStatus,
+    ...(row.note ? { note: row.note } : {}),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function assertNote(note: string | undefined) {
+  if (note && note.trim().length > MAX_NOTE_LENGTH) {
+    throw new InputError(`Die Notiz darf höchstens ${MAX_NOTE_LENGTH} Zeichen lang sein`);
+  }
+}
+
+// Everyone who can work a shift: the captain and the crew.
+async function listShiftCrew(): Promise<ShiftCrewMember[]> {
+  const rows: ShiftCrewMember[] = await prisma.user.findMany({
+    where: { role: { in: ['captain', 'staff'] } },
+    select: { id: true, name: true, role: true },
+    orderBy: { name: 'asc' },
+  });
+  return rows;
+}
+
+async function findCrewMember(userId: string): Promise<ShiftCrewMember> {
+  const member = (await listShiftCrew()).find((entry) => entry.id === userId);
+  if (!member) throw new InputError('Unbekanntes Crew-Mitglied', 404);
+  return member;
+}
+
+// Refuses crew who said they cannot work that day.
+async function assertAvailable(member: ShiftCrewMember, date: string) {
+  const entry: AvailabilityRow | null = await prisma.availability.findUnique({
+    where: { userId_date: { userId: member.id, date } },
+  });
+  if (entry && !entry.available) throw new InputError(`${member.name} kann an diesem Tag nicht`, 409);
+}
+
+// Whether the crew member already works during `shift`, under any start time.
+async function worksDuring(userId: string, shift: Pick<ShiftAssignment, 'date' | 'starts' | 'ends'>): Promise<boolean> {
+  const rows: ShiftAssignmentRow[] = await prisma.shiftAssignment.findMany({ where: { userId, date: shift.date } });
+  return rows.some((row) => shiftsOverlap(row, shift));
+}
+
+async function staffingContext(from: string, to: string) {
+  const [screenings, events] = await Promise.all([screeningsBetween(addDays(from, -1), to), confirmedEvents(from, to)]);
+  return { screenings, events };
+}
+
+// The week containing `date` (this week by default) for the signed-in crew
+// member `me`.
+export async function getWeekPlan(me: { id: string; role: Role }, date?: string): Promise<WeekPlan> {
+  if (date !== undefined && !isIsoDate(date)) throw new InputError('Ungültiges Datum');
+  const from = weekStart(date ?? barClock().date);
+  const to = addDays(from, 6);
+
+  const [context, crew, assignments, availability, swaps] = await Promise.all([
+    staffingContext(from, to),
+    listShiftCrew(),
+    prisma.shiftAssignment.findMany({ where: { date: { gte: from, lte: to } }, orderBy: { createdAt: 'asc' } }),
+    prisma.availability.findMany({ where: { date: { gte: from, lte: to } } }),
+    prisma.swapRequest.findMany({
+      where: { status: 'pending', assignment: { date: { gte: from, lte: to } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const { shifts, unplanned } = matchAssignments(
+    planWeek(from, context),
+    (assignments as ShiftAssignmentRow[]).map(toShiftAssignment),
+  );
+
+  return {
+    from,
+    to,
+    template: weeklyTemplate(),
+    shifts,
+    unplanned,
+    crew,
+    availability: (availability as AvailabilityRow[]).map(toAvailability),
+    swaps: (swaps as SwapRequestRow[]).map(toSwapRequest),
+    me,
+  };
+}
+
+export async function setAvailability(
+  userId: string,
+  input: { date?: unknown; available?: unknown; note?: string },
+): Promise<ShiftAvailability> {
+  const { date, available, note } = input;
+  if (!isIsoDate(date)) throw new InputError('Ungültiges Datum');
+  if (date < barClock().date) throw new InputError('Vergangene Tage lassen sich nicht mehr ändern');
+  if (typeof available !== 'boolean') throw new InputError('Bitte angeben, ob du kannst');
+  assertNote(note);
+
+  const columns = { available, note: note?.trim() || null };
+  const row: AvailabilityRow = await prisma.availability.upsert({
+    where: { userId_date: { userId, date } },
+    create: { userId, date, ...columns },
+    update: columns,
+  });
+  return toAvailability(row);
+}
+
+// Puts a crew member on one of the duty shifts of the day, identified by its
+// start time.
+export async function assignShift(input: { userId?: string; date?: unknown; starts?: string }): Promise<ShiftAssignment> {
+  const { userId, date, starts } = input;
+  if (!userId) throw new InputError('Bitte ein Crew-Mitglied auswählen');
+  if (!isIsoDate(date)) throw new InputError('Ungültiges Datum');
+  if (date < barClock().date) throw new InputError('Vergangene Tage lassen sich nicht mehr ändern');
+  const member = await findCrewMember(userId);
+
+  const shift = dutyShiftsOn(date, await staffingContext(date, date)).find((entry) => entry.starts === starts);
+  if (!shift) throw new InputError('An diesem Tag gibt es keine Schicht um diese Uhrzeit', 404);
+
+  await assertAvailable(member, date);
+  if (await worksDuring(userId, shift)) throw new InputError(`${member.name} ist schon für diese Schicht eingeteilt`, 409);
+
+  const row: ShiftAssignmentRow = await prisma.shiftAssignment.create({
+    data: { userId, date, starts: shift.starts, ends: shift.ends },
+  });
+  return toShiftAssignment(row);
+}
+
+export async function unassignShift(id: string): Promise<void> {
+  const existing = await prisma.shiftAssignment.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekannte Einteilung', 404);
+  await prisma.shiftAssignment.delete({ where: { id } });
+}
+
+// A crew member offers one of their own shifts to a colleague.
+export async function requestSwap(
+  userId: string,
+  input: { assignmentId?: string; toUserId?: string; note?: string },
+): Promise<SwapRequest> {
+  const { assignmentId, toUserId, note } = input;
+  assertNote(note);
+  const assignment: ShiftAssignmentRow | null = assignmentId
+    ? await prisma.shiftAssignment.findUnique({ where: { id: assignmentId } })
+    : null;
+  if (!assignment) throw new InputError('Unbekannte Einteilung', 404);
+  if (assignment.userId !== userId) throw new InputError('Du kannst nur deine eigenen Schichten tauschen', 403);
+  if (assignment.date < barClock().date) throw new InputError('Diese Schicht ist schon vorbei');
+  if (!toUserId || toUserId === userId) throw new InputError('Bitte eine Kollegin oder einen Kollegen auswählen');
+  const colleague = await findCrewMember(toUserId);
+
+  await assertAvailable(colleague, assignment.date);
+  if (await worksDuring(toUserId, assignment)) {
+    throw new InputError(`${colleague.name} arbeitet in dieser Schicht schon`, 409);
+  }
+  const pending = await prisma.swapRequest.findFirst({ where: { assignmentId: assignment.id, status: 'pending' } });
+  if (pending) throw new InputError('Für diese Schicht läuft schon eine Tauschanfrage', 409);
+
+  const row: SwapRequestRow = await prisma.swapRequest.create({
+    data: { assignmentId: assignment.id, fromUserId: userId, toUserId, note: note?.trim() || null },
+  });
+  return toSwapRequest(row);
+}
+
+// The captain approves or declines a pending swap, the crew member who asked
+// may withdraw it. An approved swap hands the shift over.
+export async function decideSwap(
+  id: string,
+  status: unknown,
+  actor: { id: string; role: Role },
+): Promise<SwapRequest> {
+  if (status !== 'approved' && status !== 'declined' && status !== 'withdrawn') {
+    throw new InputError(`Unbekannter Status "${String(status)}"`);
+  }
+  const existing: SwapRequestRow | null = await prisma.swapRequest.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekannte Tauschanfrage', 404);
+  if (existing.status !== 'pending') throw new InputError('Über diese Tauschanfrage ist schon entschieden', 409);
+  if (status === 'withdrawn' ? existing.fromUserId !== actor.id : !hasRole(actor.role, 'captain')) {
+    throw new InputError('Keine Berechtigung', 403);
+  }
+
+  if (status !== 'approved') {
+    const row: SwapRequestRow = await prisma.swapRequest.update({ where: { id }, data: { status } });
+    return toSwapRequest(row);
+  }
+
+  const assignment: ShiftAssignmentRow | null = await prisma.shiftAssignment.findUnique({
+    where: { id: existing.assignmentId },
+  });
+  if (!assignment || assignment.userId !== existing.fromUserId) {
+    throw new InputError('Die Schicht wurde inzwischen anders vergeben', 409);
+  }
+  const colleague = await findCrewMember(existing.toUserId);
+  await assertAvailable(colleague, assignment.date);
+  if (await worksDuring(colleague.id, assignment)) {
+    throw new InputError(`${colleague.name} arbeitet in dieser Schicht schon`, 409);
+  }
+
+  const [, row] = await prisma.$transaction([
+    prisma.shiftAssignment.update({ where: { id: assignment.id }, data: { userId: existing.toUserId } }),
+    prisma.swapRequest.update({ where: { id }, data: { status } }),
+  ]);
+  return toSwapRequest(row as SwapRequestRow);
+}
+
+// The secret for the crew member's calendar feed, created on first use.
+export async function calendarToken(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { calendarToken: true } });
+  if (!user) throw new InputError('Unbekanntes Crew-Mitglied', 404);
+  if (user.calendarToken) return user.calendarToken;
+  const token = randomBytes(24).toString('hex');
+  await prisma.user.update({ where: { id: userId }, data: { calendarToken: token } });
+  return token;
+}
+
+// The .ics feed behind a calendar token: the last weeks and everything ahead.
+export async function shiftCalendarFor(token: string): Promise<string> {
+  const user = token ? await prisma.user.findUnique({ where: { calendarToken: token } }) : null;
+  if (!user) throw new InputError('Unbekannter Kalender', 404);
+  const rows: ShiftAssignmentRow[] = await prisma.shiftAssignment.findMany({
+    where: { userId: user.id, date: { gte: addDays(barClock().date, -FEED_HISTORY_DAYS) } },
+    orderBy: [{ date: 'asc' }, { starts: 'asc' }],
+  });
+  return shiftCalendar(rows.map(toShiftAssignment), user.name);
+}
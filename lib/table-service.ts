@@ -0,0 +1,47 @@
+import type { OrderLine, ServiceRequestInput, ServiceRequestKind, ServiceRequestStatus } from '../types/table-service';
+
+export const serviceKinds: ServiceRequestKind[] = ['order', 'waiter', 'bill'];
+
+export const serviceStatuses: ServiceRequestStatus[] = ['open', 'acknowledged', 'done'];
+
+export const serviceKindLabels: Record<ServiceRequestKind, string> = {
+  order: 'Bestellung',
+  waiter: 'Bedienung rufen',
+  bill: 'Zahlen bitte',
+};
+
+export const serviceStatusLabels: Record<ServiceRequestStatus, string> = {
+  open: 'Neu',
+  acknowledged: 'Gesehen',
+  done: 'Erledigt',
+};
+
+// More is a party order, which is better placed at the bar.
+export const MAX_ORDER_QUANTITY = 20;
+const MAX_NOTE_LENGTH = 200;
+
+export function nextServiceStatus(status: ServiceRequestStatus): ServiceRequestStatus | undefined {
+  return serviceStatuses[serviceStatuses.indexOf(status) + 1];
+}
+
+export function validateServiceRequest(input: ServiceRequestInput): string[] {
+  const problems: string[] = [];
+  if (!serviceKinds.includes(input.kind)) problems.push('Unbekannte Anfrage');
+  if (input.kind === 'order') {
+    if (!input.lines?.length) problems.push('Die Bestellung ist leer');
+    for (const line of input.lines ?? []) {
+      if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > MAX_ORDER_QUANTITY) {
+        problems.push(`Bitte zwischen 1 und ${MAX_ORDER_QUANTITY} Stück pro Artikel bestellen`);
+        break;
+      }
+    }
+  }
+  if (input.note && input.note.length > MAX_NOTE_LENGTH) {
+    problems.push(`Die Notiz darf höchstens ${MAX_NOTE_LENGTH} Zeichen lang sein`);
+  }
+  return problems;
+}
+
+export function orderTotal(lines: Pick<OrderLine, 'priceCents' | 'quantity'>[]): number {
+  return lines.reduce((sum, line) => sum + line.priceCents * line.quantity, 0);
+}
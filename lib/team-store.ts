@@ -0,0 +1,144 @@
+import type { CrewProfile, CrewProfileInput, OwnProfileInput, SocialLink } from '../types/team';
+import crew from '../data/team';
+import { prisma } from './prisma';
+import { seedOnce } from './seed';
+import { validateCrewProfile } from './team';
+import { InputError } from './api';
+
+interface CrewProfileRow {
+  id: string;
+  name: string;
+  role: string;
+  photo: string;
+  bio: string | null;
+  favouriteDrink: string | null;
+  socials: string;
+  userId: string | null;
+}
+
+function toCrewProfile(row: CrewProfileRow): CrewProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    photo: row.photo,
+    ...(row.bio ? { bio: row.bio } : {}),
+    ...(row.favouriteDrink ? { favouriteDrink: row.favouriteDrink } : {}),
+    socials: JSON.parse(row.socials) as SocialLink[],
+    ...(row.userId ? { userId: row.userId } : {}),
+  };
+}
+
+function toColumns(profile: CrewProfileInput) {
+  return {
+    name: profile.name.trim(),
+    role: profile.role.trim(),
+    photo: profile.photo.trim(),
+    bio: profile.bio?.trim() || null,
+    favouriteDrink: profile.favouriteDrink?.trim() || null,
+    socials: JSON.stringify(profile.socials.map((link) => ({ network: link.network, url: link.url.trim() }))),
+  };
+}
+
+function assertValid(profile: CrewProfileInput) {
+  const problems = validateCrewProfile(profile);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+}
+
+// The roster in data/team.ts is the crew of a fresh database.
+function ensureSeeded(): Promise<void> {
+  return seedOnce('crew', () =>
+    crew.map((profile, position) =>
+      prisma.crewProfile.create({ data: { id: profile.id, position, ...toColumns(profile) } }),
+    ),
+  );
+}
+
+export async function listCrew(): Promise<CrewProfile[]> {
+  await ensureSeeded();
+  const rows: CrewProfileRow[] = await prisma.crewProfile.findMany({ orderBy: { position: 'asc' } });
+  return rows.map(toCrewProfile);
+}
+
+// What guests see on the website, without the logins behind the profiles.
+// They still get the static roster when the database is unreachable.
+export async function getTeam(): Promise<CrewProfile[]> {
+  try {
+    return (await listCrew()).map(({ userId, ...profile }) => profile);
+  } catch (error) {
+    console.error('Error loading crew, serving static roster:', error);
+    return crew;
+  }
+}
+
+async function assertUserFree(userId: string | null | undefined, ownId?: string) {
+  if (!userId) return;
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new InputError('Unbekannter Zugang', 404);
+  const taken = await prisma.crewProfile.findFirst({ where: { userId, id: { not: ownId ?? '' } } });
+  if (taken) throw new InputError(`Dieser Zugang gehört schon zu ${taken.name}`, 409);
+}
+
+export async function createCrewProfile(input: CrewProfileInput & { userId?: string | null }): Promise<CrewProfile> {
+  assertValid(input);
+  await ensureSeeded();
+  await assertUserFree(input.userId);
+  const position = await prisma.crewProfile.count();
+  const row: CrewProfileRow = await prisma.crewProfile.create({
+    data: { ...toColumns(input), userId: input.userId || null, position },
+  });
+  return toCrewProfile(row);
+}
+
+// userId null unlinks the login.
+export async function updateCrewProfile(
+  id: string,
+  patch: Partial<CrewProfileInput> & { userId?: string | null },
+): Promise<CrewProfile> {
+  const existing: CrewProfileRow | null = await prisma.crewProfile.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekanntes Crew-Mitglied', 404);
+
+  const { userId, ...changes } = patch;
+  const next = { ...toCrewProfile(existing), ...changes };
+  assertValid(next);
+  if (userId !== undefined) await assertUserFree(userId, id);
+
+  const row: CrewProfileRow = await prisma.crewProfile.update({
+    where: { id },
+    data: { ...toColumns(next), ...(userId !== undefined ? { userId: userId || null } : {}) },
+  });
+  return toCrewProfile(row);
+}
+
+export async function deleteCrewProfile(id: string): Promise<void> {
+  const existing = await prisma.crewProfile.findUnique({ where: { id } });
+  if (!existing) throw new InputError('Unbekanntes Crew-Mitglied', 404);
+  await prisma.crewProfile.delete({ where: { id } });
+}
+
+async function findOwnProfile(userId: string): Promise<CrewProfileRow> {
+  const row: CrewProfileRow | null = await prisma.crewProfile.findUnique({ where: { userId } });
+  if (!row) throw new InputError('Mit deinem Zugang ist noch kein Profil verknüpft, frag den Captain', 404);
+  return row;
+}
+
+export async function getOwnProfile(userId: string): Promise<CrewProfile> {
+  return toCrewProfile(await findOwnProfile(userId));
+}
+
+// Crew members keep their rank, whatever they send.
+export async function updateOwnProfile(userId: string, patch: Partial<OwnProfileInput>): Promise<CrewProfile> {
+  const existing = toCrewProfile(await findOwnProfile(userId));
+  const { name, photo, bio, favouriteDrink, socials } = patch;
+  const next: CrewProfileInput = {
+    ...existing,
+    ...(name !== undefined ? { name } : {}),
+    ...(photo !== undefined ? { photo } : {}),
+    ...(bio !== undefined ? { bio } : {}),
+    ...(favouriteDrink !== undefined ? { favouriteDrink } : {}),
+    ...(socials !== undefined ? { socials } : {}),
+  };
+  assertValid(next);
+  const row: CrewProfileRow = await prisma.crewProfile.update({ where: { id: existing.id }, data: toColumns(next) });
+  return toCrewProfile(row);
+}
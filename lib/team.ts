@@ -0,0 +1,68 @@
+import type { CrewProfileInput, SocialLink, SocialNetwork } from '../types/team';
+
+const MAX_NAME_LENGTH = 40;
+const MAX_BIO_LENGTH = 600;
+const MAX_DRINK_LENGTH = 60;
+
+export const socialLabels: Record<SocialNetwork, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  tiktok: 'TikTok',
+  linkedin: 'LinkedIn',
+  x: 'X',
+};
+
+// Profile links must point to the network they claim to be.
+const socialHosts: Record<SocialNetwork, string[]> = {
+  instagram: ['instagram.com'],
+  facebook: ['facebook.com', 'fb.com'],
+  tiktok: ['tiktok.com'],
+  linkedin: ['linkedin.com'],
+  x: ['x.com', 'twitter.com'],
+};
+
+export function isSocialLink(link: SocialLink): boolean {
+  if (!Object.prototype.hasOwnProperty.call(socialHosts, link?.network)) return false;
+  try {
+    const url = new URL(link.url);
+    const host = url.hostname.replace(/^www\./, '');
+    return url.protocol === 'https:' && socialHosts[link.network].includes(host) && url.pathname.length > 1;
+  } catch {
+    return false;
+  }
+}
+
+function isPhotoSource(src: string): boolean {
+  return src.startsWith('/') || src.startsWith('https://');
+}
+
+export function validateCrewProfile(profile: CrewProfileInput): string[] {
+  const problems: string[] = [];
+  if (!profile.name?.trim()) problems.push('Name fehlt');
+  else if (profile.name.trim().length > MAX_NAME_LENGTH) {
+    problems.push(`Der Name darf höchstens ${MAX_NAME_LENGTH} Zeichen lang sein`);
+  }
+  if (!profile.role?.trim()) problems.push('Rang fehlt');
+  if (!profile.photo || !isPhotoSource(profile.photo)) {
+    problems.push('Foto bitte als Pfad in /public oder als https-Adresse angeben');
+  }
+  if (profile.bio && profile.bio.length > MAX_BIO_LENGTH) {
+    problems.push(`Die Vorstellung darf höchstens ${MAX_BIO_LENGTH} Zeichen lang sein`);
+  }
+  if (profile.favouriteDrink && profile.favouriteDrink.length > MAX_DRINK_LENGTH) {
+    problems.push(`Das Lieblingsgetränk darf höchstens ${MAX_DRINK_LENGTH} Zeichen lang sein`);
+  }
+  if (!Array.isArray(profile.socials)) {
+    problems.push('Ungültige Profil-Links');
+  } else {
+    for (const link of profile.socials) {
+      if (!isSocialLink(link)) {
+        problems.push(`Ungültiger Link ${link?.url ?? ''} für ${socialLabels[link?.network] ?? link?.network}`.trim());
+      }
+    }
+    if (new Set(profile.socials.map((link) => link?.network)).size !== profile.socials.length) {
+      problems.push('Bitte nur einen Link pro Netzwerk');
+    }
+  }
+  return problems;
+}
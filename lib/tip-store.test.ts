@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import matchData from './fixtures/openligadb/getmatchdata-bl1-2026.json';
+import { listTips, saveTip } from './tip-store';
+
+const prisma = vi.hoisted(() => ({
+  tip: { findMany: vi.fn(), update: vi.fn(), upsert: vi.fn() },
+  $transaction: vi.fn(),
+}));
+vi.mock('./prisma', () => ({ prisma }));
+
+// OpenLigaDB answers from the fixture instead of the network.
+beforeAll(() => {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) =>
+      url.endsWith('/getmatchdata/bl1/2026')
+        ? new Response(JSON.stringify(matchData))
+        : new Response('not found', { status: 404, statusText: 'Not Found' }),
+    ),
+  );
+});
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prisma.tip.update.mockImplementation((query) => query);
+  prisma.tip.upsert.mockImplementation(async ({ create }) => ({ id: 'tip', points: null, outcome: null, ...create }));
+});
+
+const row = (id: string, matchId: number, goals1: number, goals2: number, points: number | null = null, outcome: string | null = null) => ({
+  id,
+  userId: 'user',
+  matchId,
+  league: 'bl1',
+  season: 2026,
+  matchday: 7,
+  goals1,
+  goals2,
+  points,
+  outcome,
+});
+
+describe('saveTip', () => {
+  const tip = { league: 'bl1', matchId: 77149, goals1: 2, goals2: 0 };
+
+  it('takes tips until kick-off, with the matchday from the league data', async () => {
+    const saved = await saveTip('user', tip, new Date('2026-10-24T13:29:00Z'));
+
+    expect(saved).toEqual({ matchId: 77149, league: 'bl1', season: 2026, matchday: 8, goals1: 2, goals2: 0 });
+    expect(prisma.tip.upsert).toHaveBeenCalledWith({
+      where: { userId_matchId: { userId: 'user', matchId: 77149 } },
+      create: { userId: 'user', matchId: 77149, league: 'bl1', season: 2026, goals1: 2, goals2: 0, matchday: 8 },
+      update: { goals1: 2, goals2: 0, matchday: 8 },
+    });
+  });
+
+  it('locks the tip at kick-off', async () => {
+    await expect(saveTip('user', tip, new Date('2026-10-24T13:30:00Z'))).rejects.toMatchObject({ status: 409 });
+    expect(prisma.tip.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects matches that are not in the league data', async () => {
+    await expect(saveTip('user', { ...tip, matchId: 1 }, new Date('2026-10-19T12:00:00Z'))).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
+
+describe('settling tips', () => {
+  it('evaluates tips on finished matches and corrects stale points', async () => {
+    const stored = [
+      row('exact', 77140, 2, 1),
+      row('draw', 77141, 0, 0),
+      row('settled', 77141, 1, 1, 4, 'exact'),
+      row('corrected', 77140, 1, 1, 2, 'tendency'),
+    ];
+    prisma.tip.findMany.mockResolvedValueOnce(stored).mockResolvedValueOnce(stored);
+
+    await listTips('user', 'bl1', 2026);
+
+    expect(prisma.tip.findMany.mock.calls[0][0]).toEqual({
+      where: { league: 'bl1', season: 2026, matchId: { in: [77140, 77141] } },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith([
+      { where: { id: 'exact' }, data: { outcome: 'exact', points: 4 } },
+      { where: { id: 'draw' }, data: { outcome: 'tendency', points: 2 } },
+      { where: { id: 'corrected' }, data: { outcome: 'miss', points: 0 } },
+    ]);
+  });
+
+  it('writes nothing when every tip is up to date', async () => {
+    prisma.tip.findMany.mockResolvedValue([row('settled', 77140, 2, 1, 4, 'exact')]);
+
+    await listTips('user', 'bl1', 2026);
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import type { Match } from '../types/bundesliga';
+import type { LeaderboardEntry, Tip, TipInput, TipOutcome } from '../types/tipprunde';
+import { prisma } from './prisma';
+import { currentSeason, findCompetition } from './bundesliga';
+import { getMatches } from './openligadb';
+import { buildLeaderboard, evaluateTip, isTipLocked, validateTip } from './tipprunde';
+import { InputError } from './api';
+
+interface TipRow {
+  id: string;
+  userId: string;
+  matchId: number;
+  league: string;
+  season: number;
+  matchday: number;
+  goals1: number;
+  goals2: number;
+  points: number | null;
+  outcome: string | null;
+}
+
+function toTip(row: TipRow): Tip {
+  return {
+    matchId: row.matchId,
+    league: row.league,
+    season: row.season,
+    matchday: row.matchday,
+    goals1: row.goals1,
+    goals2: row.goals2,
+    ...(row.points != null ? { points: row.points } : {}),
+    ...(row.outcome ? { outcome: row.outcome as TipOutcome } : {}),
+  };
+}
+
+// Evaluates the tips of a season against the league data. There is no
+// separate job: whoever looks at tips or rankings first after a final
+// whistle triggers it. Already evaluated tips are checked again, as
+// OpenLigaDB sometimes corrects a result afterwards.
+async function settleTips(league: string, season: number): Promise<void> {
+  let matches: Match[];
+  try {
+    matches = await getMatches(league, season);
+  } catch (error) {
+    console.error(`Error loading ${league} data, showing stored tip points:`, error);
+    return;
+  }
+
+  const finished = new Map(matches.filter((match) => match.matchIsFinished).map((match) => [match.matchID, match]));
+  const rows: TipRow[] = await prisma.tip.findMany({
+    where: { league, season, matchId: { in: Array.from(finished.keys()) } },
+  });
+
+  const updates = rows.flatMap((row) => {
+    const evaluation = evaluateTip(row, finished.get(row.matchId) as Match);
+    if (!evaluation || (evaluation.points === row.points && evaluation.outcome === row.outcome)) return [];
+    return [prisma.tip.update({ where: { id: row.id }, data: evaluation })];
+  });
+  if (updates.length > 0) await prisma.$transaction(updates);
+}
+
+export async function listTips(userId: string, league: string, season: number = currentSeason()): Promise<Tip[]> {
+  await settleTips(league, season);
+  const rows: TipRow[] = await prisma.tip.findMany({
+    where: { userId, league, season },
+    orderBy: [{ matchday: 'asc' }, { matchId: 'asc' }],
+  });
+  return rows.map(toTip);
+}
+
+// Creates or changes the player's tip, as long as the match has not kicked
+// off. The kick-off is taken from the league data, never from the client.
+export async function saveTip(userId: string, input: TipInput, now: Date = new Date()): Promise<Tip> {
+  if (!findCompetition(input.league)) throw new InputError('Unbekannter Wettbewerb');
+  const problems = validateTip(input);
+  if (problems.length > 0) throw new InputError(problems.join(', '));
+
+  const season = currentSeason(now);
+  const match = (await getMatches(input.league, season)).find((entry) => entry.matchID === input.matchId);
+  if (!match) throw new InputError('Unbekanntes Spiel', 404);
+  if (isTipLocked(match, now)) throw new InputError('Das Spiel hat begonnen, der Tipp ist gesperrt', 409);
+
+  const data = { goals1: input.goals1, goals2: input.goals2, matchday: match.group.groupOrderID };
+  const row: TipRow = await prisma.tip.upsert({
+    where: { userId_matchId: { userId, matchId: input.matchId } },
+    create: { userId, matchId: input.matchId, league: input.league, season, ...data },
+    update: data,
+  });
+  return toTip(row);
+}
+
+// Season ranking, or the ranking of a single matchday.
+export async function leaderboard(
+  league: string,
+  season: number = currentSeason(),
+  matchday?: number,
+): Promise<LeaderboardEntry[]> {
+  await settleTips(league, season);
+  const rows: (TipRow & { user: { name: string } })[] = await prisma.tip.findMany({
+    where: { league, season, points: { not: null }, ...(matchday ? { matchday } : {}) },
+    include: { user: { select: { name: true } } },
+  });
+  return buildLeaderboard(rows.map((row) => ({ ...toTip(row), userId: row.userId, name: row.user.name })));
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { Match } from '../types/bundesliga';
+import matchData from './fixtures/openligadb/getmatchdata-bl1-2026.json';
+import { buildLeaderboard, evaluateTip, tipOutcome } from './tipprunde';
+
+const matches = matchData as Match[];
+const match = (id: number) => matches.find((entry) => entry.matchID === id) as Match;
+
+describe('tipOutcome', () => {
+  it('grades a tip against the final score', () => {
+    expect(tipOutcome({ goals1: 2, goals2: 1 }, 2, 1)).toBe('exact');
+    expect(tipOutcome({ goals1: 3, goals2: 2 }, 2, 1)).toBe('difference');
+    expect(tipOutcome({ goals1: 1, goals2: 0 }, 3, 1)).toBe('tendency');
+    expect(tipOutcome({ goals1: 0, goals2: 1 }, 2, 1)).toBe('miss');
+  });
+
+  it('counts a draw with the wrong score as the tendency only', () => {
+    expect(tipOutcome({ goals1: 0, goals2: 0 }, 1, 1)).toBe('tendency');
+    expect(tipOutcome({ goals1: 1, goals2: 1 }, 1, 1)).toBe('exact');
+    expect(tipOutcome({ goals1: 1, goals2: 1 }, 2, 1)).toBe('miss');
+  });
+});
+
+describe('evaluateTip', () => {
+  it('uses the end result, not the half-time score listed first', () => {
+    expect(evaluateTip({ goals1: 2, goals2: 1 }, match(77140))).toEqual({ outcome: 'exact', points: 4 });
+    expect(evaluateTip({ goals1: 1, goals2: 0 }, match(77140))).toEqual({ outcome: 'difference', points: 3 });
+  });
+
+  it('scores a draw tipped with another score as the tendency', () => {
+    expect(evaluateTip({ goals1: 2, goals2: 2 }, match(77141))).toEqual({ outcome: 'tendency', points: 2 });
+  });
+
+  it('leaves tips on matches that are not finished open', () => {
+    expect(evaluateTip({ goals1: 0, goals2: 0 }, match(77142))).toBeUndefined();
+    expect(evaluateTip({ goals1: 1, goals2: 0 }, match(77149))).toBeUndefined();
+  });
+
+  it('waits for both goals of a finished match without a final score', () => {
+    const finished = match(77140);
+    const pending = {
+      ...finished,
+      matchResults: finished.matchResults.map((result) => ({ ...result, pointsTeam1: null, pointsTeam2: null })),
+    } as unknown as Match;
+    expect(evaluateTip({ goals1: 0, goals2: 0 }, pending)).toBeUndefined();
+  });
+});
+
+describe('buildLeaderboard', () => {
+  const tip = (userId: string, name: string, points: number | undefined, outcome?: 'exact' | 'tendency' | 'miss') => ({
+    userId,
+    name,
+    points,
+    outcome,
+  });
+
+  it('ranks by points, then exact tips, and shares the rank of players level on both', () => {
+    const board = buildLeaderboard([
+      tip('a', 'Anna', 4, 'exact'),
+      tip('b', 'Ben', 2, 'tendency'),
+      tip('b', 'Ben', 2, 'tendency'),
+      tip('c', 'Cem', 4, 'exact'),
+      tip('d', 'Dora', 4, 'exact'),
+      tip('e', 'Emil', 0, 'miss'),
+      tip('e', 'Emil', undefined),
+    ]);
+
+    expect(board.map((entry) => [entry.name, entry.rank, entry.points, entry.exact, entry.tips])).toEqual([
+      ['Anna', 1, 4, 1, 1],
+      ['Cem', 1, 4, 1, 1],
+      ['Dora', 1, 4, 1, 1],
+      ['Ben', 4, 4, 0, 2],
+      ['Emil', 5, 0, 0, 1],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Match } from '../types/bundesliga';
+import type { LeaderboardEntry, Tip, TipInput, TipOutcome } from '../types/tipprunde';
+import { DEFAULT_COMPETITION, finalResult } from './bundesliga';
+
+// The regulars tip the Bundesliga; tips remember their league so other
+// competitions can be added later.
+export const TIPPRUNDE_LEAGUE = DEFAULT_COMPETITION;
+
+export const MAX_TIP_GOALS = 20;
+
+export const tipPoints: Record<TipOutcome, number> = {
+  exact: 4,
+  difference: 3,
+  tendency: 2,
+  miss: 0,
+};
+
+export const tipOutcomeLabels: Record<TipOutcome, string> = {
+  exact: 'Volltreffer',
+  difference: 'Tordifferenz',
+  tendency: 'Tendenz',
+  miss: 'Daneben',
+};
+
+export function validateTip(input: TipInput): string[] {
+  const problems: string[] = [];
+  if (!Number.isInteger(input.matchId)) problems.push('Unbekanntes Spiel');
+  for (const goals of [input.goals1, input.goals2]) {
+    if (!Number.isInteger(goals) || goals < 0 || goals > MAX_TIP_GOALS) {
+      problems.push(`Tore bitte als ganze Zahl zwischen 0 und ${MAX_TIP_GOALS} angeben`);
+      break;
+    }
+  }
+  return problems;
+}
+
+// Tips can be changed until the match kicks off.
+export function isTipLocked(match: Pick<Match, 'matchDateTimeUTC'>, now: Date = new Date()): boolean {
+  return new Date(match.matchDateTimeUTC) <= now;
+}
+
+// A draw tipped with the wrong score only counts as the right tendency,
+// otherwise every draw tip would earn the goal difference points.
+export function tipOutcome(tip: Pick<Tip, 'goals1' | 'goals2'>, goals1: number, goals2: number): TipOutcome {
+  if (tip.goals1 === goals1 && tip.goals2 === goals2) return 'exact';
+  const tipped = tip.goals1 - tip.goals2;
+  const actual = goals1 - goals2;
+  if (tipped === actual && actual !== 0) return 'difference';
+  return Math.sign(tipped) === Math.sign(actual) ? 'tendency' : 'miss';
+}
+
+// Points for a tip on a finished match, nothing while it is still open.
+// OpenLigaDB sometimes marks a match finished before the final score is in;
+// its tips stay open until both goals are numbers instead of reading null as 0.
+export function evaluateTip(
+  tip: Pick<Tip, 'goals1' | 'goals2'>,
+  match: Match,
+): { outcome: TipOutcome; points: number } | undefined {
+  const result = finalResult(match);
+  if (!match.matchIsFinished || !result) return undefined;
+  if (!Number.isInteger(result.pointsTeam1) || !Number.isInteger(result.pointsTeam2)) return undefined;
+  const outcome = tipOutcome(tip, result.pointsTeam1, result.pointsTeam2);
+  return { outcome, points: tipPoints[outcome] };
+}
+
+// Evaluated tips of every player, summed up and ranked by points, then
+// exact tips. Players level on both share a rank.
+export function buildLeaderboard(
+  tips: (Pick<Tip, 'points' | 'outcome'> & { userId: string; name: string })[],
+): LeaderboardEntry[] {
+  const byUser = new Map<string, Omit<LeaderboardEntry, 'rank'>>();
+  for (const tip of tips) {
+    if (tip.points == null) continue;
+    const entry = byUser.get(tip.userId) ?? { userId: tip.userId, name: tip.name, points: 0, exact: 0, tips: 0 };
+    entry.points += tip.points;
+    entry.exact += tip.outcome === 'exact' ? 1 : 0;
+    entry.tips += 1;
+    byUser.set(tip.userId, entry);
+  }
+
+  const sorted = Array.from(byUser.values()).sort(
+    (a, b) => b.points - a.points || b.exact - a.exact || a.name.localeCompare(b.name, 'de'),
+  );
+  const ranked: LeaderboardEntry[] = [];
+  sorted.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    const tied = previous && previous.points === entry.points && previous.exact === entry.exact;
+    ranked.push({ ...entry, rank: tied ? previous.rank : index + 1 });
+  });
+  return ranked;
+}
@@ -0,0 +1,77 @@
+import bcrypt from "bcrypt"
+import type { CrewUser, Role } from "../types/auth"
+import { prisma } from "./prisma"
+import { crewRoles, isRole } from "./roles"
+import { InputError } from "./api"
+
+const SALT_ROUNDS = 12
+export const MIN_PASSWORD_LENGTH = 8
+
+interface UserRow extends CrewUser {
+  passwordHash: string
+}
+
+function toCrewUser({ id, name, email, role }: UserRow): CrewUser {
+  return { id, name, email, role }
+}
+
+// Crew accounts only: fans sign up themselves and must not count as the
+// bar having been set up.
+export async function countCrew(): Promise<number> {
+  return prisma.user.count({ where: { role: { in: crewRoles } } })
+}
+
+export async function listUsers(): Promise<CrewUser[]> {
+  const rows: UserRow[] = await prisma.user.findMany({ orderBy: { name: "asc" } })
+  return rows.map(toCrewUser)
+}
+
+export async function findUser(id: string): Promise<CrewUser | null> {
+  const row: UserRow | null = await prisma.user.findUnique({ where: { id } })
+  return row ? toCrewUser(row) : null
+}
+
+// Returns the user only when the password matches, so callers never see
+// the hash.
+export async function verifyCredentials(email: string, password: string): Promise<CrewUser | null> {
+  const row: UserRow | null = await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() } })
+  if (!row || !(await bcrypt.compare(password, row.passwordHash))) return null
+  return toCrewUser(row)
+}
+
+export async function createUser(input: { name: string; email: string; password: string; role: Role }): Promise<CrewUser> {
+  const email = input.email?.trim().toLowerCase()
+  if (!input.name?.trim() || !email) throw new InputError("Name und E-Mail sind erforderlich")
+  if (!isRole(input.role)) throw new InputError(`Unbekannte Rolle "${input.role}"`)
+  if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new InputError(`Das Passwort braucht mindestens ${MIN_PASSWORD_LENGTH} Zeichen`)
+  }
+  if (await prisma.user.findUnique({ where: { email } })) {
+    throw new InputError(`Es gibt schon ein Konto für ${email}`, 409)
+  }
+
+  const row: UserRow = await prisma.user.create({
+    data: {
+      name: input.name.trim(),
+      email,
+      role: input.role,
+      passwordHash: await bcrypt.hash(input.password, SALT_ROUNDS),
+    },
+  })
+  return toCrewUser(row)
+}
+
+export async function updateUserRole(id: string, role: Role): Promise<CrewUser> {
+  if (!isRole(role)) throw new InputError(`Unbekannte Rolle "${role}"`)
+  const existing: UserRow | null = await prisma.user.findUnique({ where: { id } })
+  if (!existing) throw new InputError("Unbekanntes Konto", 404)
+
+  // The ship must never end up without a captain.
+  if (existing.role === "captain" && role !== "captain") {
+    const captains = await prisma.user.count({ where: { role: "captain" } })
+    if (captains <= 1) throw new InputError("Der letzte Kapitän kann nicht herabgestuft werden", 409)
+  }
+
+  const row: UserRow = await prisma.user.update({ where: { id }, data: { role } })
+  return toCrewUser(row)
+}
@@ -0,0 +1,74 @@
+import { NextResponse, type NextFetchEvent, type NextRequest } from "next/server"
+import { withAuth, type NextRequestWithAuth } from "next-auth/middleware"
+import { hasRole } from "./lib/roles"
+import {
+  defaultLocale,
+  isLocale,
+  isTranslated,
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+  preferredLocale,
+  splitLocale,
+  type Locale,
+} from "./lib/i18n"
+
+// Admin pages need a signed-in crew member, managing accounts and the crew
+// roster needs the captain. API routes check roles themselves with
+// requireRole().
+const captainPages = ["/admin/users", "/admin/team"]
+
+// The back office is German only and never gets a locale prefix.
+const backOfficePages = ["/admin", "/login"]
+
+const adminMiddleware = withAuth({
+  callbacks: {
+    authorized: ({ req, token }) => {
+      const { pathname } = req.nextUrl
+      const required = captainPages.some((page) => pathname.startsWith(page)) ? "captain" : "readonly"
+      return hasRole(token?.role, required)
+    },
+  },
+  pages: { signIn: "/login" },
+})
+
+function isBackOffice(path: string): boolean {
+  return backOfficePages.some((page) => path === page || path.startsWith(`${page}/`))
+}
+
+// /de/… and /en/… are rewritten to the page without the prefix, which reads
+// the locale from the request header. Unprefixed paths keep working in the
+// language of the last prefixed visit, or the browser's, German by default.
+// Pages without a translation are always German, see translatedPaths.
+function localeMiddleware(req: NextRequest): NextResponse {
+  const { locale, path } = splitLocale(req.nextUrl.pathname)
+  if (locale && (isBackOffice(path) || (locale !== defaultLocale && !isTranslated(path)))) {
+    return NextResponse.redirect(new URL(`${path}${req.nextUrl.search}`, req.url))
+  }
+
+  const remembered = req.cookies.get(LOCALE_COOKIE)?.value
+  const chosen: Locale = !isTranslated(path)
+    ? defaultLocale
+    : locale ?? (isLocale(remembered) ? remembered : preferredLocale(req.headers.get("accept-language")))
+  const headers = new Headers(req.headers)
+  headers.set(LOCALE_HEADER, chosen)
+
+  const url = req.nextUrl.clone()
+  url.pathname = path
+  const response = NextResponse.rewrite(url, { request: { headers } })
+  if (locale && locale !== remembered) {
+    response.cookies.set(LOCALE_COOKIE, locale, { path: "/", maxAge: 60 * 60 * 24 * 365, sameSite: "lax" })
+  }
+  return response
+}
+
+export default function middleware(req: NextRequest, event: NextFetchEvent) {
+  const { pathname } = req.nextUrl
+  if (pathname.startsWith("/admin")) return adminMiddleware(req as NextRequestWithAuth, event)
+  if (isBackOffice(pathname)) return NextResponse.next()
+  return localeMiddleware(req)
+}
+
+export const config = {
+  // everything but API routes, Next.js internals and files like /menu.pdf
+  matcher: ["/((?!api|_next|.*\\..*).*)"],
+}
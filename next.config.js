@@ -1,8 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    appDir: true,
     swcMinify: true,
+    // native / engine based packages must not be bundled by webpack
+    serverComponentsExternalPackages: ['bcrypt', '@prisma/client', '@react-pdf/renderer'],
   },
    env: {
 
@@ -1,13 +1,17 @@
 'use client';
 
 import { motion } from 'framer-motion';
+import Link from 'next/link';
 import styles from '../styles';
 import { TypingText } from '../components/CustomTexts';
 import { planetVariants, staggerContainer, fadeIn } from '../utils/motion';
 import Modale16 from '../components/Modale/Modale16';
 import Marquee from '../components/ticker';
-import Bundesliga from '../components/bundesliga-table';     
+import Bundesliga from '../components/bundesliga-table';
+import ScreeningSchedule from '../components/screening-schedule';
+import { currentSeason } from '../lib/bundesliga';
 
+const season = currentSeason();
 
 const SportArena = () => (
   <section id="section-sportarena" className={`${styles.paddings} relative z-10 bg-sportarena flex flex-col justify-beetween`}>
@@ -31,16 +35,21 @@ const SportArena = () => (
           
             <h1 className='text-white text-[2.33rem]'>SC Freiburg Info</h1>
             <h1 className='text-white text-[1.33rem]'>Zahlen-Fakten-Punkte-Tore</h1>
+            <Link href="/sportarena" className='text-amber-500 text-[1.33rem] underline'>Spielplan &amp; Ergebnisse</Link>
+            <Link href="/tipprunde" className='block text-amber-500 text-[1.33rem] underline'>Zur Tipprunde</Link>
 
           </div>
           <div >
             <Modale16/>
-            <h1 className='text-white text-[2.33rem]'>Die Bundesliga Saison 2025/2026</h1>
+            <h1 className='text-white text-[2.33rem]'>Die Bundesliga Saison {season}/{season + 1}</h1>
             <h1 className='text-white text-[1.33rem]'>Tabelle</h1>
 
           </div>
 
         </div>
+        <div className="mt-[48px]">
+          <ScreeningSchedule limit={3} />
+        </div>
       </motion.div>
 
       <motion.div
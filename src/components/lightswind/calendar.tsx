@@ -1,5 +1,6 @@
 import React, { useState } from "react";
-import { DayPicker, DateRange } from "react-day-picker";
+import { DayPicker, DateRange, Matcher } from "react-day-picker";
+import { de } from "react-day-picker/locale";
 import "react-day-picker/dist/style.css";
 import {
   Select,
@@ -17,7 +18,25 @@ const addDays = (date: Date, days: number): Date => {
   return result;
 };
 
-const Calendar = () => {
+export interface CalendarProps {
+  /** Days that cannot be picked, e.g. closures or fully booked days */
+  disabled?: Matcher | Matcher[];
+  /** Passing onSelect turns the calendar into a controlled single date picker */
+  selected?: Date;
+  onSelect?: (date: Date | undefined) => void;
+  onMonthChange?: (month: Date) => void;
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+const Calendar = ({
+  disabled = [],
+  selected,
+  onSelect,
+  onMonthChange,
+  fromDate,
+  toDate,
+}: CalendarProps = {}) => {
   const [mode, setMode] = useState<"single" | "multiple" | "range">("single");
 
   const today = new Date();
@@ -38,29 +57,30 @@ const Calendar = () => {
     setMode(value);
   };
 
-  // This logic uses native Date methods, so it doesn't need to change.
-  const disabledDays = [
-    new Date(2025, 6, 25), // July 25, 2025 (Month is 0-indexed)
-    new Date(2025, 6, 26), // July 26, 2025
-    {
-      from: new Date(2025, 6, 28), // July 28, 2025
-      to: new Date(2025, 6, 30), // July 30, 2025
-    },
-    (date: Date) => date.getDay() === 0 || date.getDay() === 6, // disable weekends (Sunday and Saturday)
-  ];
-
   const commonDayPickerProps = {
     className: "rounded-lg border p-4",
     weekStartsOn: 1 as const, // Monday
-    // locale: enUS, // This is removed as react-day-picker defaults to English
-    defaultMonth: today,
-    fromDate: today,
-    toDate: nextMonth,
-    disabled: disabledDays,
+    locale: de,
+    defaultMonth: selected ?? today,
+    fromDate: fromDate ?? today,
+    toDate: toDate ?? nextMonth,
+    disabled,
+    onMonthChange,
     showOutsideDays: true,
     initialFocus: true,
   };
 
+  if (onSelect) {
+    return (
+      <DayPicker
+        mode="single"
+        selected={selected}
+        onSelect={onSelect}
+        {...commonDayPickerProps}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background py-8 px-4">
       <div className="flex flex-col sm:flex-row sm:items-center gap-4 justify-between mb-6">
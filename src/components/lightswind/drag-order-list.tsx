@@ -12,10 +12,10 @@ import {
 import { GripVertical } from "lucide-react";
 
 export interface DragItem {
-  id: number;
+  id: number | string;
   title: string;
   subtitle: string;
-  date: string;
+  date?: string;
   link?: string;
 }
 
@@ -62,7 +62,9 @@ function DragOrderItem({ item }: { item: DragItem }) {
       <div className="flex flex-col space-y-1 flex-1">
         <h2 className="text-lg font-semibold">{item.title}</h2>
         <p className="text-sm text-muted-foreground">{item.subtitle}</p>
-        <span className="text-xs text-muted-foreground">{item.date}</span>
+        {item.date && (
+          <span className="text-xs text-muted-foreground">{item.date}</span>
+        )}
         {item.link && (
           <a
             href={item.link}
@@ -18,6 +18,7 @@ export interface TimelineEvent {
   description: string;
   icon?: React.ReactNode;
   color?: string;
+  images?: { src: string; alt: string }[];
 }
 
 export interface ScrollTimelineProps {
@@ -311,6 +312,8 @@ export const ScrollTimeline = ({
                   ref={(el) => {
                     timelineRefs.current[index] = el;
                   }}
+                  data-timeline-index={index}
+                  tabIndex={-1}
                   className={cn(
                     "relative flex items-center mb-20 py-4",
                     "flex-col lg:flex-row",
@@ -398,9 +401,25 @@ export const ScrollTimeline = ({
                             {event.subtitle}
                           </p>
                         )}
-                        <p className="text-muted-foreground">
+                        <p className="text-muted-foreground whitespace-pre-line">
                           {event.description}
                         </p>
+                        {event.images && event.images.length > 0 && (
+                          <div className="mt-4 grid grid-cols-2 gap-2">
+                            {event.images.map((image) => (
+                              <img
+                                key={image.src}
+                                src={image.src}
+                                alt={image.alt}
+                                loading="lazy"
+                                className={cn(
+                                  "w-full rounded-md object-cover aspect-[4/3]",
+                                  event.images!.length === 1 && "col-span-2"
+                                )}
+                              />
+                            ))}
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   </motion.div>
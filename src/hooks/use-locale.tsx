@@ -0,0 +1,22 @@
+"use client"
+
+import * as React from "react"
+import type { MessageKey } from "../../data/messages/de"
+import { defaultLocale, translate, type Locale } from "../../lib/i18n"
+
+const LocaleContext = React.createContext<Locale>(defaultLocale)
+
+// Set once by the root layout from the request; switching the language
+// reloads the page, so the locale never changes while mounted.
+export function LocaleProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+}
+
+export function useLocale(): Locale {
+  return React.useContext(LocaleContext)
+}
+
+export function useTranslations(): (key: MessageKey, values?: Record<string, string | number>) => string {
+  const locale = useLocale()
+  return React.useCallback((key, values) => translate(locale, key, values), [locale])
+}
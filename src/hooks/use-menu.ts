@@ -0,0 +1,49 @@
+"use client"
+
+import * as React from "react"
+import type { MenuCatalogue } from "../../types/menu"
+import { localizeMenu, menu, visibleMenu } from "../../lib/menu"
+import { PRICE_CHANGE_HEADER } from "../../lib/pricing"
+import { useLocale } from "./use-locale"
+
+// A moment past the price change, so the server sees the new prices.
+const PRICE_CHANGE_SLACK_MS = 1000
+
+// Starts from the static catalogue so the card renders immediately, then
+// swaps in what the crew has stored through /admin/menu. Items come in the
+// language of the page where they are translated. When a happy hour starts
+// or ends the prices are fetched again.
+export function useMenu(): MenuCatalogue {
+  const locale = useLocale()
+  const [catalogue, setCatalogue] = React.useState<MenuCatalogue>(() => visibleMenu(menu))
+
+  React.useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const load = () =>
+      fetch("/api/menu")
+        .then((response) => {
+          if (!response.ok) throw new Error(`Menu API Error: ${response.status}`)
+          const changesAt = response.headers.get(PRICE_CHANGE_HEADER)
+          if (changesAt && !cancelled) {
+            const delay = Math.max(0, new Date(changesAt).getTime() - Date.now()) + PRICE_CHANGE_SLACK_MS
+            timer = setTimeout(load, delay)
+          }
+          return response.json()
+        })
+        .then((stored: MenuCatalogue) => {
+          if (!cancelled) setCatalogue(stored)
+        })
+        .catch((error) => console.error("Error fetching menu:", error))
+
+    load()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [])
+
+  return React.useMemo(() => localizeMenu(catalogue, locale), [catalogue, locale])
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import * as React from "react"
+import type { OpeningException, OpeningStatus } from "../../types/opening-hours"
+import { openingExceptions } from "../../data/opening-hours"
+import { describeOpeningStatus, openingStatus } from "../../lib/opening-hours"
+
+const REFRESH_MS = 60_000
+
+// Null until mounted so server and browser render the same markup; after
+// that the status is recomputed every minute, with the exceptions (private
+// events included) taken from /api/opening-hours.
+export function useOpeningStatus(): { status: OpeningStatus; text: string } | null {
+  const [exceptions, setExceptions] = React.useState<OpeningException[]>(openingExceptions)
+  const [now, setNow] = React.useState<Date | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    setNow(new Date())
+    const timer = setInterval(() => setNow(new Date()), REFRESH_MS)
+
+    fetch("/api/opening-hours")
+      .then((response) => {
+        if (!response.ok) throw new Error(`Opening Hours API Error: ${response.status}`)
+        return response.json()
+      })
+      .then((data: { exceptions: OpeningException[] }) => {
+        if (!cancelled) setExceptions(data.exceptions)
+      })
+      .catch((error) => console.error("Error fetching opening hours:", error))
+
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [])
+
+  return React.useMemo(() => {
+    if (!now) return null
+    const status = openingStatus(now, undefined, exceptions)
+    return { status, text: describeOpeningStatus(status, now) }
+  }, [now, exceptions])
+}
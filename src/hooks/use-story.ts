@@ -0,0 +1,32 @@
+"use client"
+
+import * as React from "react"
+import type { Milestone } from "../../types/history"
+import milestones from "../../data/history"
+import { sortMilestones } from "../../lib/history"
+
+// Starts from the static story so the page renders immediately, then swaps
+// in what the crew has stored through /admin/history.
+export function useStory(): Milestone[] {
+  const [story, setStory] = React.useState<Milestone[]>(() => sortMilestones(milestones))
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    fetch("/api/history")
+      .then((response) => {
+        if (!response.ok) throw new Error(`History API Error: ${response.status}`)
+        return response.json()
+      })
+      .then((stored: Milestone[]) => {
+        if (!cancelled) setStory(stored)
+      })
+      .catch((error) => console.error("Error fetching history:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return story
+}
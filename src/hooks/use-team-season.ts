@@ -0,0 +1,87 @@
+"use client"
+
+import * as React from "react"
+import type { Fixture, Match, TeamStanding } from "../../types/bundesliga"
+import {
+  byTeamId,
+  currentMatchday,
+  currentSeason,
+  rankStandings,
+  tableRules,
+  teamFixtures,
+} from "../../lib/bundesliga"
+
+export interface TeamSeason {
+  standing: TeamStanding
+  position: number
+  matchday: number
+  fixtures: Fixture[]
+}
+
+interface TeamSeasonState {
+  season: TeamSeason | null
+  loading: boolean
+  error: string | null
+}
+
+// One club's season in a league competition, from the cached proxy.
+// `refreshMs` keeps it current, e.g. for the marquee.
+export function useTeamSeason(competition: string, teamId: number, refreshMs?: number): TeamSeasonState {
+  const [state, setState] = React.useState<TeamSeasonState>({ season: null, loading: true, error: null })
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const fetchTeamSeason = async () => {
+      try {
+        const [tableResponse, matchesResponse] = await Promise.all([
+          fetch(`/bundesliga-standings?data=table&league=${competition}`),
+          fetch(`/bundesliga-standings?data=matches&league=${competition}`),
+        ])
+        if (!tableResponse.ok || !matchesResponse.ok) {
+          throw new Error("Failed to fetch team data")
+        }
+        const standings: TeamStanding[] = await tableResponse.json()
+        const matches: Match[] = await matchesResponse.json()
+
+        const ranked = rankStandings(standings, matches, tableRules(competition, currentSeason()).tieBreakers)
+        const index = ranked.findIndex((team) => team.teamInfoId === teamId)
+        if (index === -1) {
+          throw new Error("Team not found in standings")
+        }
+
+        if (!cancelled) {
+          setState({
+            season: {
+              standing: ranked[index],
+              position: index + 1,
+              matchday: currentMatchday(matches),
+              fixtures: teamFixtures(matches, byTeamId(teamId)),
+            },
+            loading: false,
+            error: null,
+          })
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setState((current) => ({
+            ...current,
+            loading: false,
+            error: err instanceof Error ? err.message : "An error occurred",
+          }))
+        }
+      }
+    }
+
+    setState({ season: null, loading: true, error: null })
+    fetchTeamSeason()
+    const interval = refreshMs ? setInterval(fetchTeamSeason, refreshMs) : undefined
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [competition, teamId, refreshMs])
+
+  return state
+}
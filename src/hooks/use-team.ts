@@ -0,0 +1,31 @@
+"use client"
+
+import * as React from "react"
+import type { CrewProfile } from "../../types/team"
+import crew from "../../data/team"
+
+// Starts from the static roster so the crew shows up immediately, then swaps
+// in the profiles kept in the database.
+export function useTeam(): CrewProfile[] {
+  const [team, setTeam] = React.useState<CrewProfile[]>(crew)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    fetch("/api/team")
+      .then((response) => {
+        if (!response.ok) throw new Error(`Team API Error: ${response.status}`)
+        return response.json()
+      })
+      .then((stored: CrewProfile[]) => {
+        if (!cancelled) setTeam(stored)
+      })
+      .catch((error) => console.error("Error fetching team:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return team
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import * as React from "react"
+import type { EventOccurrence } from "../../types/public-event"
+
+// The dates of published events from today on, empty until they arrive.
+// `days` limits how far ahead, e.g. for the strip on the home page.
+export function useUpcomingEvents(days?: number): EventOccurrence[] {
+  const [events, setEvents] = React.useState<EventOccurrence[]>([])
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    fetch(`/api/public-events${days ? `?days=${days}` : ""}`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Events API Error: ${response.status}`)
+        return response.json()
+      })
+      .then((stored: EventOccurrence[]) => {
+        if (!cancelled) setEvents(stored)
+      })
+      .catch((error) => console.error("Error fetching events:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [days])
+
+  return events
+}
@@ -0,0 +1,8 @@
+export type Role = "captain" | "staff" | "readonly" | "fan";
+
+export interface CrewUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+}
@@ -0,0 +1,136 @@
+// Shapes of the OpenLigaDB responses we use, trimmed to the fields the site
+// reads.
+
+export interface TeamStanding {
+  teamInfoId: number;
+  teamName: string;
+  shortName: string;
+  teamIconUrl: string;
+  points: number;
+  opponentGoals: number;
+  goals: number;
+  matches: number;
+  won: number;
+  draw: number;
+  lost: number;
+  goalDiff: number;
+}
+
+export interface Team {
+  teamId: number;
+  teamName: string;
+  shortName: string;
+  teamIconUrl: string;
+}
+
+// A matchday; `groupOrderID` is its number within the season.
+export interface MatchGroup {
+  groupName: string;
+  groupOrderID: number;
+  groupID: number;
+}
+
+export interface MatchResult {
+  resultTypeID: number;
+  resultName: string;
+  pointsTeam1: number;
+  pointsTeam2: number;
+}
+
+export interface Goal {
+  goalID: number;
+  scoreTeam1: number;
+  scoreTeam2: number;
+  matchMinute: number | null;
+  goalGetterName: string;
+}
+
+export interface Match {
+  matchID: number;
+  // stamped by our proxy, so mixed lists remember where a match belongs
+  leagueShortcut?: string;
+  matchDateTime: string;
+  matchDateTimeUTC: string;
+  group: MatchGroup;
+  team1: Team;
+  team2: Team;
+  matchIsFinished: boolean;
+  matchResults: MatchResult[];
+  // filled in while the match is running
+  goals?: Goal[];
+}
+
+export type BundesligaData = "table" | "matchday" | "matches" | "teams";
+
+// League competitions are shown as a table, knockout competitions as rounds.
+export type CompetitionFormat = "league" | "knockout";
+
+export type ZoneColor = "green" | "blue" | "teal" | "amber" | "orange" | "red";
+
+// Table positions `from`..`to` (1-based, inclusive) that share a fate.
+export interface TableZone {
+  from: number;
+  to: number;
+  label: string;
+  color: ZoneColor;
+}
+
+// Ranking criteria in the order they are applied. "headToHead" compares
+// points, goal difference and away goals of the matches between the tied
+// teams only.
+export type TieBreaker = "points" | "goalDiff" | "goals" | "headToHead" | "awayGoals";
+
+export interface TableRules {
+  zones: TableZone[];
+  tieBreakers: TieBreaker[];
+}
+
+export interface Competition {
+  // OpenLigaDB league shortcut, e.g. "bl1"
+  shortcut: string;
+  name: string;
+  format: CompetitionFormat;
+  // matchdays or rounds per season
+  rounds: number;
+  // whether SC Freiburg's matches in it belong in the fixture list
+  freiburg?: boolean;
+  // table rules of league competitions, with changes for single seasons
+  rules?: TableRules;
+  seasonRules?: Record<number, Partial<TableRules>>;
+}
+
+// A row of the provisional table while matches are running.
+export interface LiveStanding extends TeamStanding {
+  position: number;
+  // position in the last official table
+  previousPosition: number;
+  playing: boolean;
+}
+
+export type MatchOutcome = "win" | "draw" | "loss";
+
+// One match seen from a club's side.
+export interface Fixture {
+  match: Match;
+  home: boolean;
+  opponent: Team;
+  goalsFor?: number;
+  goalsAgainst?: number;
+  outcome?: MatchOutcome;
+}
+
+// Results of one club at home or away.
+export interface TeamSplit {
+  played: number;
+  won: number;
+  draw: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+}
+
+export interface PointsProgress {
+  matchday: number;
+  points: number;
+}
@@ -0,0 +1,22 @@
+// An inquiry for a "geschlossene Gesellschaft" walks through the pipeline
+// new → offered → confirmed → done.
+export type EventStatus = "new" | "offered" | "confirmed" | "done";
+
+export type CateringWish = "none" | "leckerladen" | "own";
+
+export interface EventInquiry {
+  id: string;
+  date: string;
+  guests: number;
+  occasion: string;
+  catering: CateringWish;
+  budgetCents?: number;
+  name: string;
+  email: string;
+  phone: string;
+  message?: string;
+  status: EventStatus;
+  createdAt: string;
+}
+
+export type EventInquiryRequest = Omit<EventInquiry, "id" | "status" | "createdAt">;
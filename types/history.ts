@@ -0,0 +1,16 @@
+export interface MilestoneImage {
+  src: string;
+  alt: string;
+}
+
+// One chapter of the Rettungsanker story on /about/history.
+export interface Milestone {
+  id: string;
+  // "2017", "2017-09" or "2017-09-15", as precise as the crew remembers
+  date: string;
+  title: string;
+  text: string;
+  images: MilestoneImage[];
+}
+
+export type MilestoneInput = Omit<Milestone, "id">;
@@ -4,3 +4,18 @@ export interface cardProps {
   img: string;
   color: string;
 }
+
+export * from "./menu";
+export * from "./auth";
+export * from "./opening-hours";
+export * from "./reservation";
+export * from "./event";
+export * from "./bundesliga";
+export * from "./screening";
+export * from "./tipprunde";
+export * from "./table-service";
+export * from "./pricing";
+export * from "./history";
+export * from "./team";
+export * from "./shift-plan";
+export * from "./public-event";
@@ -0,0 +1,66 @@
+export type VolumeUnit = 'ml' | 'cl' | 'l';
+
+// "33cl" is { amount: 33, unit: 'cl' }, a "Treibholz" of six 30cl glasses
+// is { count: 6, amount: 30, unit: 'cl' }.
+export interface Serving {
+  amount: number;
+  unit: VolumeUnit;
+  count?: number;
+}
+
+// The 14 allergens of EU regulation 1169/2011 (LMIV), with the letters
+// German menus use for them.
+export type AllergenCode = 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'L' | 'M' | 'N' | 'O' | 'P' | 'R';
+
+// Additives that must be declared on menus (ZZulV, LMIV), numbered as on
+// the printed card: 1 "mit Farbstoff", 11 "koffeinhaltig", see lib/allergens.ts.
+export type AdditiveNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
+export type Diet = 'vegetarian' | 'vegan';
+
+// The English wording of an item for the /en pages; brand names usually keep
+// their title, so only the tags need translating there.
+export interface MenuItemTranslation {
+  title?: string;
+  tags?: string[];
+}
+
+export interface MenuItem {
+  id: string;
+  title: string;
+  priceCents: number;
+  serving?: Serving;
+  // alcohol by volume in percent, 0 for alcohol-free drinks
+  abv?: number;
+  tags: string[];
+  allergens?: AllergenCode[];
+  additives?: AdditiveNumber[];
+  // left out where the crew cannot vouch for it
+  diet?: Diet;
+  // hidden items stay in the back office but are not shown to guests
+  hidden?: boolean;
+  translations?: { en?: MenuItemTranslation };
+  // only set on the guest menu while a pricing rule applies: priceCents is
+  // then the reduced price and regularPriceCents the one on the card
+  regularPriceCents?: number;
+  priceRule?: string;
+}
+
+// What the back office sends when creating or editing an item; the id is
+// derived from the title on creation.
+export type MenuItemInput = Omit<MenuItem, 'id'>;
+
+export interface MenuCategory {
+  id: string;
+  title: string;
+  items?: MenuItem[];
+  children?: MenuCategory[];
+}
+
+export interface MenuCatalogue {
+  categories: MenuCategory[];
+}
+
+// Print layouts of /menu.pdf: the full card on A4 pages, or table tents of
+// A4 landscape sheets folded into two A5 faces, one category per tent.
+export type MenuPdfLayout = 'a4' | 'tent';
@@ -0,0 +1,29 @@
+// One opening period, starting on `weekday` (0 = Sunday). A shift whose
+// `closes` is not after `opens` runs past midnight into the next day.
+export interface OpeningShift {
+  weekday: number;
+  opens: string;
+  closes: string;
+}
+
+// A one-off change for a single date: closed all day (holidays, private
+// events) or different hours (extended hours on match days). It replaces the
+// regular shifts starting on that date.
+export interface OpeningException {
+  date: string;
+  reason: string;
+  closed?: boolean;
+  opens?: string;
+  closes?: string;
+}
+
+export interface OpeningStatus {
+  open: boolean;
+  // ISO instants of the next change: when it closes if open, when it opens
+  // next if closed (absent when no opening is scheduled in the next weeks)
+  closesAt?: string;
+  opensAt?: string;
+  minutesUntilChange?: number;
+  // reason of the exception in effect, e.g. "Heiligabend"
+  note?: string;
+}
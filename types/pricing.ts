@@ -0,0 +1,39 @@
+// Ties a rule to what is going on in the bar: any screening or a particular
+// match while it is running, any or a particular public event (quiz night,
+// concert) on its dates. `eventId` is the id of the PublicEvent.
+export type PricingLink =
+  | { kind: "screening"; matchId?: number }
+  | { kind: "event"; eventId?: string };
+
+// A happy hour or match-day special. All conditions must hold at the same
+// time; what is left out does not restrict the rule.
+export interface PricingRule {
+  id: string;
+  // shown to guests next to the reduced price, e.g. "Happy Hour"
+  name: string;
+  // 0 = Sunday, like Date#getDay; empty for every day
+  weekdays: number[];
+  // "HH:MM" in bar time. A window whose `to` is not after `from` runs past
+  // midnight and belongs to the day it starts, like an opening shift.
+  from?: string;
+  to?: string;
+  link?: PricingLink;
+  // both empty for the whole card
+  itemIds: string[];
+  categoryIds: string[];
+  // exactly one of the two
+  percentOff?: number;
+  priceCents?: number;
+  active: boolean;
+}
+
+export type PricingRuleInput = Omit<PricingRule, "id">;
+
+// What the rules are evaluated against. `now` is passed in rather than read
+// from the system clock, so any moment can be replayed.
+export interface PricingContext {
+  now: Date;
+  screenings: { matchId: number; kickoff: string }[];
+  // dates of published public events
+  events: { id: string; date: string }[];
+}
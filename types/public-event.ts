@@ -0,0 +1,45 @@
+// Events open to everyone (quiz nights, concerts, theme parties), unlike the
+// private bookings in ./event.
+
+export type PublicEventCategory = "quiz" | "concert" | "party" | "sport" | "other";
+
+// "free" needs nothing, "reservation" a table booking, "ticket" a ticket
+// bought in advance.
+export type EventAdmission = "free" | "reservation" | "ticket";
+
+// Repeats from the event's first date on: every week or every few weeks, or
+// on the nth weekday of each month ("every first Thursday", week -1 = last).
+export type EventRecurrence =
+  | { kind: "weekly"; interval: number; until?: string }
+  | { kind: "monthly"; week: 1 | 2 | 3 | 4 | -1; until?: string };
+
+export interface PublicEvent {
+  id: string;
+  // part of the /events/<slug> address
+  slug: string;
+  title: string;
+  description: string;
+  image?: string;
+  category: PublicEventCategory;
+  // first date "YYYY-MM-DD" and times "HH:MM" in the bar's local time; the
+  // event runs past midnight when `ends` is not after `starts`
+  date: string;
+  starts: string;
+  ends?: string;
+  recurrence?: EventRecurrence;
+  admission: EventAdmission;
+  ticketUrl?: string;
+  priceCents?: number;
+  published: boolean;
+}
+
+export type PublicEventInput = Omit<PublicEvent, "id" | "slug">;
+
+// One date of an event, recurring ones have many.
+export interface EventOccurrence {
+  date: string;
+  // ISO instants
+  startsAt: string;
+  endsAt?: string;
+  event: PublicEvent;
+}
@@ -0,0 +1,33 @@
+export type ReservationStatus = "pending" | "confirmed" | "declined";
+
+export interface Table {
+  number: number;
+  seats: number;
+  area: string;
+}
+
+export interface Reservation {
+  id: string;
+  date: string;
+  time: string;
+  partySize: number;
+  name: string;
+  email: string;
+  phone: string;
+  note?: string;
+  status: ReservationStatus;
+  tableNumber?: number;
+  createdAt: string;
+}
+
+export type ReservationRequest = Pick<Reservation, "date" | "time" | "partySize" | "name" | "email" | "phone" | "note">;
+
+export interface ReservationSlot {
+  time: string;
+  available: boolean;
+}
+
+export interface ReservationDay {
+  date: string;
+  slots: ReservationSlot[];
+}
@@ -0,0 +1,19 @@
+// A Bundesliga match shown on the Sportarena screens.
+export interface Screening {
+  matchId: number;
+  // competition shortcut, e.g. "bl1" or "dfb"
+  league: string;
+  season: number;
+  matchday: number;
+  // OpenLigaDB's name of the matchday or round, e.g. "Achtelfinale"
+  round: string;
+  // ISO instant
+  kickoff: string;
+  team1: string;
+  team2: string;
+  reservationNeeded: boolean;
+  // e.g. "Jeder Pitcher 12 Euro"
+  offer?: string;
+}
+
+export type ScreeningInput = Pick<Screening, "reservationNeeded" | "offer">;
@@ -0,0 +1,75 @@
+import type { Role } from "./auth";
+
+// A shift the crew works, starting on `date`. Like an opening shift it runs
+// past midnight when `ends` is not after `starts`, and it includes setting up
+// before the doors open and cleaning up after the last guest.
+export interface DutyShift {
+  date: string;
+  starts: string;
+  ends: string;
+  expectedStaff: number;
+  // why more hands than usual are needed, e.g. "SC Freiburg – FC Bayern"
+  reasons: string[];
+}
+
+// The regular shifts of one weekday, derived from the opening hours.
+export interface ShiftTemplate {
+  weekday: number;
+  starts: string;
+  ends: string;
+  expectedStaff: number;
+}
+
+export interface ShiftAssignment {
+  id: string;
+  userId: string;
+  date: string;
+  starts: string;
+  ends: string;
+}
+
+// A crew member's answer for one day; days without an entry are open.
+export interface ShiftAvailability {
+  userId: string;
+  date: string;
+  available: boolean;
+  note?: string;
+}
+
+export type SwapStatus = "pending" | "approved" | "declined" | "withdrawn";
+
+// Hands an assigned shift over to a colleague once the captain approves.
+export interface SwapRequest {
+  id: string;
+  assignmentId: string;
+  fromUserId: string;
+  toUserId: string;
+  status: SwapStatus;
+  note?: string;
+  createdAt: string;
+}
+
+export interface PlannedShift extends DutyShift {
+  assignments: ShiftAssignment[];
+}
+
+export interface ShiftCrewMember {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+// Monday to Sunday of one week, with everything the planner needs.
+export interface WeekPlan {
+  from: string;
+  to: string;
+  template: ShiftTemplate[];
+  shifts: PlannedShift[];
+  // assignments no shift of the week covers any more
+  unplanned: ShiftAssignment[];
+  crew: ShiftCrewMember[];
+  availability: ShiftAvailability[];
+  swaps: SwapRequest[];
+  // the signed-in crew member, so the planner knows what to offer
+  me: { id: string; role: Role };
+}
@@ -0,0 +1,32 @@
+// What a table asks the crew for: an order from the card, a waiter or the bill.
+export type ServiceRequestKind = "order" | "waiter" | "bill";
+
+export type ServiceRequestStatus = "open" | "acknowledged" | "done";
+
+// Title and price are copied at the time of ordering, so later price
+// changes do not alter an order.
+export interface OrderLine {
+  itemId: string;
+  title: string;
+  priceCents: number;
+  quantity: number;
+}
+
+export interface ServiceRequest {
+  id: string;
+  tableNumber: number;
+  kind: ServiceRequestKind;
+  status: ServiceRequestStatus;
+  lines: OrderLine[];
+  note?: string;
+  // ISO instants
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a guest sends; only item ids and quantities, prices come from the card.
+export interface ServiceRequestInput {
+  kind: ServiceRequestKind;
+  lines?: Pick<OrderLine, "itemId" | "quantity">[];
+  note?: string;
+}
@@ -0,0 +1,27 @@
+export type SocialNetwork = "instagram" | "facebook" | "tiktok" | "linkedin" | "x";
+
+export interface SocialLink {
+  network: SocialNetwork;
+  url: string;
+}
+
+// A crew member as presented on the website.
+export interface CrewProfile {
+  id: string;
+  name: string;
+  // rank on board, e.g. "Captain", "Obermaat", "Smutje"
+  role: string;
+  // path in /public or https address
+  photo: string;
+  bio?: string;
+  favouriteDrink?: string;
+  socials: SocialLink[];
+  // the login allowed to edit this profile; only sent to the back office
+  userId?: string;
+}
+
+export type CrewProfileInput = Omit<CrewProfile, "id" | "userId">;
+
+// What crew members may change on their own profile; the rank is given by
+// the captain.
+export type OwnProfileInput = Omit<CrewProfileInput, "role">;
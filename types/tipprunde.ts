@@ -0,0 +1,28 @@
+// How close a tip came to the final result, best first.
+export type TipOutcome = "exact" | "difference" | "tendency" | "miss";
+
+export interface Tip {
+  matchId: number;
+  // competition shortcut, e.g. "bl1"
+  league: string;
+  season: number;
+  matchday: number;
+  goals1: number;
+  goals2: number;
+  // set once the match is finished and the tip has been evaluated
+  points?: number;
+  outcome?: TipOutcome;
+}
+
+export type TipInput = Pick<Tip, "league" | "matchId" | "goals1" | "goals2">;
+
+// One row of the season or matchday ranking.
+export interface LeaderboardEntry {
+  userId: string;
+  name: string;
+  // shared by tippers with the same points and exact tips
+  rank: number;
+  points: number;
+  exact: number;
+  tips: number;
+}
@@ -0,0 +1,6 @@
+import { defineConfig } from "vitest/config"
+
+// tsconfig.json leaves JSX to Next; the tests compile it themselves.
+export default defineConfig({
+  oxc: { jsx: { runtime: "automatic" } },
+})